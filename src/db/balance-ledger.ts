@@ -0,0 +1,293 @@
+import { Pool, PoolClient } from 'pg';  // PostgreSQL client library
+import { pool, saveOrderFill } from './database';  // Shared connection pool, fills are stored with their ledger entries
+import { FundsShortfall, LedgerEntry, LedgerEntryType, LedgerQuery, OrderFill, TokenBalance } from '../types';  // Import type definitions
+import { tokenRegistry, parseUnits } from '../services/token-registry';  // Starting balances in whole tokens
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Token network fees are paid in
+const FEE_TOKEN = 'SOL';
+
+// Note on the reserve entry holding an order's fee allowance (keeps it apart from SOL the order trades)
+const FEE_ALLOWANCE_NOTE = 'Network fee allowance';
+
+// SOL held with every order for the network fees of its legs (5,000,000 lamports = 0.005 SOL)
+const NETWORK_FEE_RESERVE_LAMPORTS = BigInt(process.env.NETWORK_FEE_RESERVE_LAMPORTS || '5000000');
+
+// Whole-token balances every account starts with, e.g. 'SOL:1000,USDC:100000' (empty: accounts start empty)
+const SIM_STARTING_BALANCES = process.env.SIM_STARTING_BALANCES ?? 'SOL:1000,USDC:100000,USDT:100000,BONK:1000000000,JUP:100000';
+
+// Parse SIM_STARTING_BALANCES; tokens missing from the registry (e.g. with a custom TOKEN_LIST) are skipped
+function parseStartingBalances(spec: string): Array<{ token: string; amount: bigint }> {
+  const balances: Array<{ token: string; amount: bigint }> = [];
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [symbol, amount = ''] = part.split(':');
+    const token = tokenRegistry.find(symbol);
+    if (!token) {
+      console.log(`⚠️  Starting balance for unknown token ${symbol} skipped`);
+      continue;
+    }
+    balances.push({ token: token.symbol, amount: parseUnits(amount, token.decimals) });
+  }
+  return balances;
+}
+
+const STARTING_BALANCES = parseStartingBalances(SIM_STARTING_BALANCES);
+
+// One change to a balance, recorded as a ledger entry
+interface BalanceChange {
+  token: string;
+  type: LedgerEntryType;
+  available: bigint;           // Signed change to available
+  reserved: bigint;            // Signed change to reserved
+  orderId?: string;
+  legIndex?: number;
+  note?: string;
+}
+
+// Convert a raw account_balances row
+function toTokenBalance(row: any): TokenBalance {
+  return {
+    token: row.token,
+    available: row.available,  // NUMERIC base units arrive as exact strings
+    reserved: row.reserved,
+    updatedAt: row.updated_at
+  };
+}
+
+// Convert a raw ledger_entries row
+function toLedgerEntry(row: any): LedgerEntry {
+  return {
+    entryId: Number(row.entry_id),
+    accountId: row.account_id,
+    token: row.token,
+    orderId: row.order_id,
+    legIndex: row.leg_index,
+    type: row.entry_type,
+    availableChange: row.available_change,
+    reservedChange: row.reserved_change,
+    availableAfter: row.available_after,
+    reservedAfter: row.reserved_after,
+    note: row.note,
+    createdAt: row.created_at
+  };
+}
+
+// Simulated wallets. Accepting an order moves its input from available to reserved; executed legs
+// swap tokens inside the order's reservation and pay their network fee from it; when the order
+// finishes, whatever it still holds (tokenOut once confirmed) goes back to available.
+// Every change is a ledger entry, so what an order holds is the sum of its entries.
+export class BalanceLedger {
+  constructor(private readonly db: Pool) {}
+
+  // Run balance changes of one account in a transaction, serialized with its other changes.
+  // An account's first transaction credits the starting balances.
+  private async transaction<T>(accountId: string, work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`balances:${accountId}`]);
+
+      const known = await client.query('SELECT 1 FROM ledger_entries WHERE account_id = $1 LIMIT 1', [accountId]);
+      if (known.rows.length === 0) {
+        for (const { token, amount } of STARTING_BALANCES) {
+          await this.apply(client, accountId, { token, type: 'deposit', available: amount, reserved: 0n, note: 'Starting balance' });
+        }
+      }
+
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();  // Always release client back to pool
+    }
+  }
+
+  // Change a balance and record the ledger entry
+  private async apply(client: PoolClient, accountId: string, change: BalanceChange): Promise<TokenBalance> {
+    await client.query(
+      'INSERT INTO account_balances (account_id, token) VALUES ($1, $2) ON CONFLICT (account_id, token) DO NOTHING',
+      [accountId, change.token]
+    );
+    const result = await client.query(
+      `UPDATE account_balances SET available = available + $3, reserved = reserved + $4, updated_at = NOW()
+       WHERE account_id = $1 AND token = $2
+       RETURNING *`,
+      [accountId, change.token, change.available.toString(), change.reserved.toString()]
+    );
+    const balance = result.rows[0];
+
+    await client.query(
+      `INSERT INTO ledger_entries (
+        account_id, token, order_id, leg_index, entry_type,
+        available_change, reserved_change, available_after, reserved_after, note
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        accountId,                      // $1 - Account
+        change.token,                   // $2 - Token
+        change.orderId ?? null,         // $3 - Order, if any
+        change.legIndex ?? null,        // $4 - Fill, if any
+        change.type,                    // $5 - Entry type
+        change.available.toString(),    // $6 - Change to available
+        change.reserved.toString(),     // $7 - Change to reserved
+        balance.available,              // $8 - Available after
+        balance.reserved,               // $9 - Reserved after
+        change.note ?? null             // $10 - Note
+      ]
+    );
+    return toTokenBalance(balance);
+  }
+
+  // Account whose funds an order reserved, or null for orders that never reserved any
+  private async orderAccount(orderId: string): Promise<string | null> {
+    const result = await this.db.query(
+      `SELECT account_id FROM ledger_entries WHERE order_id = $1 AND entry_type = 'reserve' LIMIT 1`,
+      [orderId]
+    );
+    return result.rows[0]?.account_id ?? null;
+  }
+
+  // What an order holds of each token (its reserved entries summed), zero holdings left out
+  private async holdings(client: PoolClient, orderId: string): Promise<Map<string, bigint>> {
+    const result = await client.query(
+      `SELECT token, SUM(reserved_change) AS held FROM ledger_entries WHERE order_id = $1 GROUP BY token`,
+      [orderId]
+    );
+    return new Map(result.rows.filter(row => BigInt(row.held) !== 0n).map(row => [row.token, BigInt(row.held)]));
+  }
+
+  // Hold an order's input, plus the network fee allowance in SOL. All or nothing: returns the first
+  // token the account lacks, or null once everything is reserved.
+  async reserve(accountId: string, orderId: string, positions: Array<{ token: string; amount: bigint }>): Promise<FundsShortfall | null> {
+    const holds = [...positions.map(position => ({ ...position, note: undefined as string | undefined })),
+      { token: FEE_TOKEN, amount: NETWORK_FEE_RESERVE_LAMPORTS, note: FEE_ALLOWANCE_NOTE }];
+    const required: Map<string, bigint> = new Map();
+    for (const { token, amount } of holds) {
+      required.set(token, (required.get(token) ?? 0n) + amount);
+    }
+
+    return this.transaction(accountId, async client => {
+      for (const [token, amount] of required) {
+        const result = await client.query(
+          'SELECT available FROM account_balances WHERE account_id = $1 AND token = $2',
+          [accountId, token]
+        );
+        const available = BigInt(result.rows[0]?.available ?? 0);
+        if (available < amount) {
+          return { token, available: available.toString(), required: amount.toString() };
+        }
+      }
+
+      for (const { token, amount, note } of holds) {
+        await this.apply(client, accountId, { token, type: 'reserve', available: -amount, reserved: amount, orderId, note });
+      }
+      return null;
+    });
+  }
+
+  // Store an executed leg and, for orders holding funds, swap its tokens inside the reservation and
+  // pay its network fee (from the order's fee allowance, any excess from available as far as it goes: the leg
+  // already executed, so the fill is recorded either way and the uncovered part noted). One transaction, so a fill
+  // is never recorded without its ledger entries or the other way round.
+  async recordFill(orderId: string, fill: OrderFill): Promise<void> {
+    const accountId = await this.orderAccount(orderId);
+    if (!accountId) {
+      await saveOrderFill(orderId, fill);  // Accepted before balances existed: nothing to move
+      return;
+    }
+
+    await this.transaction(accountId, async client => {
+      await saveOrderFill(orderId, fill, client);
+      const { legIndex } = fill;
+      await this.apply(client, accountId, { token: fill.tokenIn, type: 'debit', available: 0n, reserved: -BigInt(fill.amountIn), orderId, legIndex });
+      await this.apply(client, accountId, { token: fill.tokenOut, type: 'credit', available: 0n, reserved: BigInt(fill.amountOut), orderId, legIndex });
+
+      const fee = BigInt(fill.networkFee);
+      if (fee > 0n) {
+        const result = await client.query(
+          `SELECT COALESCE(SUM(reserved_change), 0) AS allowance FROM ledger_entries
+           WHERE order_id = $1 AND token = $2 AND (entry_type = 'fee' OR (entry_type = 'reserve' AND note = $3))
+             AND entry_id >= (SELECT MAX(entry_id) FROM ledger_entries
+                              WHERE order_id = $1 AND token = $2 AND entry_type = 'reserve' AND note = $3)`,
+          [orderId, FEE_TOKEN, FEE_ALLOWANCE_NOTE]
+        );
+        const allowance = BigInt(result.rows[0].allowance);  // Latest allowance (a requeue reserves a new one) less earlier legs' fees
+        const fromReserved = allowance >= fee ? fee : allowance > 0n ? allowance : 0n;
+        const excess = fee - fromReserved;
+        const balance = await client.query(
+          'SELECT available FROM account_balances WHERE account_id = $1 AND token = $2',
+          [accountId, FEE_TOKEN]
+        );
+        const available = BigInt(balance.rows[0]?.available ?? 0);
+        const fromAvailable = available >= excess ? excess : available > 0n ? available : 0n;  // Never below zero
+        await this.apply(client, accountId, {
+          token: FEE_TOKEN, type: 'fee', available: -fromAvailable, reserved: -fromReserved, orderId, legIndex,
+          note: fromAvailable < excess ? `${excess - fromAvailable} lamports of the network fee not covered` : undefined
+        });
+      }
+    });
+  }
+
+  // Return everything an order still holds to available: 'settle' when it was confirmed (tokenOut
+  // plus unused fee allowance), 'release' when it failed, expired or was cancelled. Safe to repeat.
+  async releaseOrder(orderId: string, type: 'settle' | 'release'): Promise<void> {
+    const accountId = await this.orderAccount(orderId);
+    if (!accountId) {
+      return;
+    }
+
+    await this.transaction(accountId, async client => {
+      for (const [token, held] of await this.holdings(client, orderId)) {
+        await this.apply(client, accountId, { token, type, available: held, reserved: -held, orderId });
+      }
+    });
+    console.log(`💼 Funds of order ${orderId} ${type === 'settle' ? 'settled' : 'released'}`);
+  }
+
+  // Add funds to an account (simulated deposit)
+  async deposit(accountId: string, token: string, amount: bigint, note?: string): Promise<TokenBalance> {
+    return this.transaction(accountId, client => this.apply(client, accountId, { token, type: 'deposit', available: amount, reserved: 0n, note }));
+  }
+
+  // Every token balance of an account
+  async getBalances(accountId: string): Promise<TokenBalance[]> {
+    return this.transaction(accountId, async client => {
+      const result = await client.query('SELECT * FROM account_balances WHERE account_id = $1 ORDER BY token', [accountId]);
+      return result.rows.map(toTokenBalance);
+    });
+  }
+
+  // Page of an account's ledger, newest first
+  async listEntries(query: LedgerQuery): Promise<LedgerEntry[]> {
+    const conditions = ['account_id = $1'];
+    const values: any[] = [query.accountId];
+    const param = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (query.orderId) {
+      conditions.push(`order_id = ${param(query.orderId)}`);
+    }
+    if (query.token) {
+      conditions.push(`token = ${param(query.token)}`);
+    }
+    if (query.before !== undefined) {
+      conditions.push(`entry_id < ${param(query.before)}`);
+    }
+
+    const result = await this.db.query(
+      `SELECT * FROM ledger_entries WHERE ${conditions.join(' AND ')} ORDER BY entry_id DESC LIMIT ${param(query.limit)}`,
+      values
+    );
+    return result.rows.map(toLedgerEntry);
+  }
+}
+
+// Shared ledger on the application pool
+export const balanceLedger = new BalanceLedger(pool);
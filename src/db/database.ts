@@ -1,8 +1,13 @@
-import { Pool } from 'pg';  // PostgreSQL client library
+import { Pool, PoolClient } from 'pg';  // PostgreSQL client library
 import dotenv from 'dotenv';  // Load environment variables
+import { migrate, migrationStatus } from './migrator';  // Versioned schema migrations
+import { OrderFill, OrderEvent, OrderEventType, OrderStatus, OrderFailure, FailureQuery, FailureSummary, Account, ApiKeyInfo, ApiKeyScope, AuthContext, AccountLimitSettings, PriorityFeeLevel, PriorityFeeSetting } from '../types';  // Import type definitions
 
 dotenv.config();  // Load .env file into process.env
 
+// Apply pending migrations on startup (set to 'false' to run them only through the migrate CLI)
+const AUTO_MIGRATE = process.env.AUTO_MIGRATE !== 'false';
+
 // Create connection pool for efficient database connections
 export const pool = new Pool({
   host: process.env.POSTGRES_HOST,      // Database server address
@@ -25,129 +30,443 @@ pool.on('error', (err) => {
   process.exit(-1);  // Exit application if database fails
 });
 
-// Initialize database schema
+// Bring the schema up to date by applying pending migrations (see src/db/migrations).
+// With AUTO_MIGRATE=false, migrations are left to `npm run migrate` and startup fails while any are pending.
 export async function initDatabase(): Promise<void> {
-  const client = await pool.connect();  // Get a client from the pool
-  
   try {
-    // Create orders table if it doesn't exist
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS orders (
-        order_id VARCHAR(255) PRIMARY KEY,        -- Unique order identifier
-        order_type VARCHAR(50) NOT NULL,          -- market/limit/sniper
-        token_in VARCHAR(255) NOT NULL,           -- Input token address
-        token_out VARCHAR(255) NOT NULL,          -- Output token address
-        amount_in DECIMAL(20, 8) NOT NULL,        -- Input amount
-        slippage DECIMAL(5, 4) DEFAULT 0.01,      -- Slippage tolerance
-        status VARCHAR(50) NOT NULL,              -- Current order status
-        dex_used VARCHAR(50),                     -- raydium or meteora
-        executed_price DECIMAL(20, 8),            -- Final execution price
-        amount_out DECIMAL(20, 8),                -- Actual output amount
-        tx_hash VARCHAR(255),                     -- Blockchain transaction hash
-        error TEXT,                               -- Error message if failed
-        created_at TIMESTAMP DEFAULT NOW(),       -- Order creation time
-        updated_at TIMESTAMP DEFAULT NOW()        -- Last update time
-      )
-    `);
-    
-    // Create index on status for efficient queries
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_orders_status 
-      ON orders(status)
-    `);
-    
-    // Create index on created_at for time-based queries
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_orders_created_at 
-      ON orders(created_at DESC)
-    `);
-    
-    console.log('✅ Database schema initialized');  // Log successful initialization
-    
+    if (!AUTO_MIGRATE) {
+      const pending = (await migrationStatus(pool)).filter(m => m.state === 'pending');
+      if (pending.length > 0) {
+        throw new Error(`${pending.length} pending migration(s), starting with ${pending[0].version} (${pending[0].name}): run npm run migrate`);
+      }
+      console.log('✅ Database schema is up to date');  // Log schema check
+      return;
+    }
+
+    const applied = await migrate(pool);  // Safe to run from several instances at once
+    console.log(applied.length > 0
+      ? `✅ Database schema migrated (${applied.length} migration(s) applied)`
+      : '✅ Database schema is up to date');  // Log successful initialization
   } catch (error) {
     console.error('❌ Failed to initialize database:', error);  // Log initialization errors
     throw error;  // Rethrow to stop application startup
-  } finally {
-    client.release();  // Always release client back to pool
   }
 }
 
-// Save new order to database
-export async function saveOrder(order: any): Promise<void> {
+// Nullable DECIMAL column to number
+const toNumber = (value: string | null | undefined): number | null => value != null ? parseFloat(value) : null;
+
+// priority_fee column to a setting: a level name, or digits for an explicit microlamports price
+export function fromPriorityFee(value: string | null): PriorityFeeSetting {
+  if (value === null || value === undefined) {
+    return 'normal';
+  }
+  return /^\d+$/.test(value) ? Number(value) : value as PriorityFeeLevel;
+}
+
+// Record an executed route leg (on the given client when part of a transaction)
+export async function saveOrderFill(orderId: string, fill: OrderFill, db: Pool | PoolClient = pool): Promise<void> {
   const query = `
-    INSERT INTO orders (
-      order_id, order_type, token_in, token_out, amount_in, 
-      slippage, status, created_at, updated_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+    INSERT INTO order_fills (
+      order_id, leg_index, hop, dex, token_in, token_out,
+      amount_in, amount_out, quoted_amount_out, executed_price, tx_hash, network_fee, priority_fee
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
   `;
   
-  const values = [
-    order.orderId,      // $1 - Unique order ID
-    order.orderType,    // $2 - Order type
-    order.tokenIn,      // $3 - Input token
-    order.tokenOut,     // $4 - Output token
-    order.amountIn,     // $5 - Input amount
-    order.slippage || 0.01,  // $6 - Slippage with default
-    order.status        // $7 - Initial status
-  ];
+  await db.query(query, [
+    orderId,              // $1 - Parent order
+    fill.legIndex,        // $2 - Leg position
+    fill.hop,             // $3 - Hop within the path
+    fill.dex,             // $4 - Venue
+    fill.tokenIn,         // $5 - Input token
+    fill.tokenOut,        // $6 - Output token
+    fill.amountIn,        // $7 - Input amount (base units)
+    fill.amountOut,       // $8 - Output amount (base units)
+    fill.quotedAmountOut, // $9 - Quoted output (base units)
+    fill.executedPrice,   // $10 - Leg price
+    fill.txHash,          // $11 - Leg transaction hash
+    fill.networkFee,      // $12 - Network fee (lamports, priority fee included)
+    fill.priorityFee      // $13 - Priority fee (lamports)
+  ]);
+}
+
+// Get all fills for an order in leg order
+export async function getOrderFills(orderId: string): Promise<OrderFill[]> {
+  const result = await pool.query(
+    'SELECT * FROM order_fills WHERE order_id = $1 ORDER BY leg_index',  // Query by order ID
+    [orderId]  // Parameter value
+  );
   
-  await pool.query(query, values);  // Execute insert query
+  return result.rows.map(row => ({
+    legIndex: row.leg_index,
+    hop: row.hop,
+    dex: row.dex,
+    tokenIn: row.token_in,
+    tokenOut: row.token_out,
+    amountIn: row.amount_in,
+    amountOut: row.amount_out,
+    quotedAmountOut: row.quoted_amount_out ?? row.amount_out,  // Older fills have no quote
+    executedPrice: parseFloat(row.executed_price),
+    txHash: row.tx_hash,
+    networkFee: row.network_fee,
+    priorityFee: row.priority_fee
+  }));
 }
 
-// Update order status and related fields
-export async function updateOrder(
+// Append an event to an order's history; returns the stored event
+export async function recordOrderEvent(
   orderId: string,
-  updates: Partial<any>
-): Promise<void> {
-  const fields = [];  // Array to store SET clause parts
-  const values = [];  // Array to store parameter values
-  let paramCount = 1;  // Parameter counter for $1, $2, etc.
+  type: OrderEventType,
+  status: OrderStatus,
+  data?: object,
+  attempt?: number
+): Promise<OrderEvent> {
+  const result = await pool.query(
+    `INSERT INTO order_events (order_id, event_type, status, attempt, data)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [orderId, type, status, attempt ?? null, data ? JSON.stringify(data) : null]
+  );
+  return toOrderEvent(result.rows[0]);
+}
+
+// Get an order's event history, oldest first
+export async function getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const result = await pool.query(
+    'SELECT * FROM order_events WHERE order_id = $1 ORDER BY event_id',  // Query by order ID
+    [orderId]  // Parameter value
+  );
+  return result.rows.map(toOrderEvent);
+}
+
+// Convert a raw order_events row to the API shape
+function toOrderEvent(row: any): OrderEvent {
+  return {
+    eventId: Number(row.event_id),  // BIGSERIAL comes back as a string
+    orderId: row.order_id,
+    type: row.event_type,
+    status: row.status,
+    attempt: row.attempt,
+    data: row.data,
+    createdAt: row.created_at
+  };
+}
+
+// Store the post-mortem of an order that failed for good
+export async function saveOrderFailure(failure: Omit<OrderFailure, 'failureId' | 'createdAt'>): Promise<void> {
+  const query = `
+    INSERT INTO order_failures (
+      order_id, order_type, token_in, token_out, amount_in, error_type, error_class,
+      error_message, stack, attempt, max_attempts, failed_step, dex_used, route_quote
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+  `;
   
-  // Build dynamic UPDATE query based on provided fields
-  if (updates.status) {
-    fields.push(`status = $${paramCount++}`);  // Add status field
-    values.push(updates.status);  // Add status value
+  await pool.query(query, [
+    failure.orderId,        // $1 - Failed order
+    failure.orderType,      // $2 - Order type
+    failure.tokenIn,        // $3 - Input token
+    failure.tokenOut,       // $4 - Output token
+    failure.amountIn,       // $5 - Input amount (base units)
+    failure.errorType,      // $6 - Post-mortem category
+    failure.errorClass,     // $7 - Error class
+    failure.errorMessage,   // $8 - Error message
+    failure.stack,          // $9 - Stack trace
+    failure.attempt,        // $10 - Final attempt
+    failure.maxAttempts,    // $11 - Attempts allowed
+    failure.failedStep,     // $12 - Step reached
+    failure.dexUsed,        // $13 - Venue(s)
+    failure.routeQuote ? JSON.stringify(failure.routeQuote) : null  // $14 - Route snapshot
+  ]);
+}
+
+// List failures matching the filters, newest first, with counts over all matches
+export async function listOrderFailures(
+  query: FailureQuery
+): Promise<{ failures: OrderFailure[]; summary: FailureSummary; nextBefore: number | null }> {
+  const conditions: string[] = [];  // WHERE clause parts
+  const values: any[] = [];  // Parameter values
+  const param = (value: any) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  
+  if (query.errorType) {
+    conditions.push(`error_type = ${param(query.errorType)}`);
   }
-  if (updates.dexUsed) {
-    fields.push(`dex_used = $${paramCount++}`);  // Add dex_used field
-    values.push(updates.dexUsed);  // Add dex value
+  if (query.dexUsed) {
+    conditions.push(`${param(query.dexUsed)} = ANY(string_to_array(dex_used, '+'))`);  // Matches split routes too
   }
-  if (updates.executedPrice) {
-    fields.push(`executed_price = $${paramCount++}`);  // Add price field
-    values.push(updates.executedPrice);  // Add price value
+  if (query.failedStep) {
+    conditions.push(`failed_step = ${param(query.failedStep)}`);
   }
-  if (updates.amountOut) {
-    fields.push(`amount_out = $${paramCount++}`);  // Add amount_out field
-    values.push(updates.amountOut);  // Add amount value
+  if (query.orderType) {
+    conditions.push(`order_type = ${param(query.orderType)}`);
   }
-  if (updates.txHash) {
-    fields.push(`tx_hash = $${paramCount++}`);  // Add tx_hash field
-    values.push(updates.txHash);  // Add hash value
+  if (query.createdFrom) {
+    conditions.push(`created_at >= ${param(query.createdFrom)}`);
   }
-  if (updates.error) {
-    fields.push(`error = $${paramCount++}`);  // Add error field
-    values.push(updates.error);  // Add error message
+  if (query.createdTo) {
+    conditions.push(`created_at < ${param(query.createdTo)}`);
   }
   
-  // Always update the updated_at timestamp
-  fields.push(`updated_at = NOW()`);
-  values.push(orderId);  // Last parameter is the WHERE clause orderId
+  // Counts cover every matching failure, not just this page
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const filterValues = [...values];
+  const [byErrorType, byDex] = await Promise.all([
+    pool.query(`SELECT error_type AS key, COUNT(*) AS count FROM order_failures ${where} GROUP BY error_type`, filterValues),
+    pool.query(
+      `SELECT COALESCE(dex, 'none') AS key, COUNT(*) AS count
+       FROM order_failures LEFT JOIN LATERAL unnest(string_to_array(dex_used, '+')) AS dex ON true
+       ${where} GROUP BY dex`,  // Split routes count once per venue
+      filterValues
+    )
+  ]);
   
-  const query = `
-    UPDATE orders 
-    SET ${fields.join(', ')}  -- Join all SET clauses
-    WHERE order_id = $${paramCount}  -- WHERE clause
-  `;
+  if (query.before) {
+    conditions.push(`failure_id < ${param(query.before)}`);
+  }
+  const pageWhere = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const result = await pool.query(
+    `SELECT * FROM order_failures ${pageWhere} ORDER BY failure_id DESC LIMIT ${param(query.limit + 1)}`,  // One extra row tells us whether another page exists
+    values
+  );
+  const rows = result.rows.slice(0, query.limit);
   
-  await pool.query(query, values);  // Execute update query
+  const counts = (rows: any[]) => Object.fromEntries(rows.map(row => [row.key, parseInt(row.count)]));
+  return {
+    failures: rows.map(toOrderFailure),
+    summary: {
+      total: byErrorType.rows.reduce((sum, row) => sum + parseInt(row.count), 0),
+      byErrorType: counts(byErrorType.rows),
+      byDex: counts(byDex.rows)
+    },
+    nextBefore: result.rows.length > query.limit ? rows[rows.length - 1].failure_id : null
+  };
 }
 
-// Get order by ID
-export async function getOrder(orderId: string): Promise<any | null> {
+// Get every post-mortem recorded for an order (one per dead-lettering), oldest first
+export async function getOrderFailures(orderId: string): Promise<OrderFailure[]> {
   const result = await pool.query(
-    'SELECT * FROM orders WHERE order_id = $1',  // Query by order ID
+    'SELECT * FROM order_failures WHERE order_id = $1 ORDER BY failure_id',  // Query by order ID
     [orderId]  // Parameter value
   );
+  return result.rows.map(toOrderFailure);
+}
+
+// Convert a raw order_failures row to the API shape
+function toOrderFailure(row: any): OrderFailure {
+  return {
+    failureId: row.failure_id,
+    orderId: row.order_id,
+    orderType: row.order_type,
+    tokenIn: row.token_in,
+    tokenOut: row.token_out,
+    amountIn: row.amount_in,
+    errorType: row.error_type,
+    errorClass: row.error_class,
+    errorMessage: row.error_message,
+    stack: row.stack,
+    attempt: row.attempt,
+    maxAttempts: row.max_attempts,
+    failedStep: row.failed_step,
+    dexUsed: row.dex_used,
+    routeQuote: row.route_quote,
+    createdAt: row.created_at
+  };
+}
+
+// Claim an Idempotency-Key for a new request. Returns null when the key was free (now claimed),
+// otherwise the existing row so the caller can replay or reject.
+export async function claimIdempotencyKey(
+  idempotencyKey: string,
+  requestHash: string,
+  ttlSeconds: number
+): Promise<any | null> {
+  await pool.query('DELETE FROM idempotency_keys WHERE expires_at < NOW()');  // Expired keys are free again
+  
+  const inserted = await pool.query(
+    `INSERT INTO idempotency_keys (idempotency_key, request_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(secs => $3))
+     ON CONFLICT (idempotency_key) DO NOTHING
+     RETURNING idempotency_key`,
+    [idempotencyKey, requestHash, ttlSeconds]
+  );
+  if (inserted.rows.length > 0) {
+    return null;  // Claimed
+  }
+  
+  const existing = await pool.query(
+    'SELECT * FROM idempotency_keys WHERE idempotency_key = $1',
+    [idempotencyKey]
+  );
+  return existing.rows[0] || null;
+}
+
+// Store the response for a claimed key so replays return it verbatim
+export async function completeIdempotencyKey(
+  idempotencyKey: string,
+  orderId: string,
+  statusCode: number,
+  response: object
+): Promise<void> {
+  await pool.query(
+    `UPDATE idempotency_keys SET order_id = $2, status_code = $3, response = $4 WHERE idempotency_key = $1`,
+    [idempotencyKey, orderId, statusCode, JSON.stringify(response)]
+  );
+}
+
+// Free a claimed key after the request failed, so the client can retry with it
+export async function releaseIdempotencyKey(idempotencyKey: string): Promise<void> {
+  await pool.query(
+    'DELETE FROM idempotency_keys WHERE idempotency_key = $1 AND response IS NULL',
+    [idempotencyKey]
+  );
+}
+
+// Create an account (no-op if it already exists); returns the stored account
+export async function createAccount(accountId: string, name: string): Promise<Account> {
+  const result = await pool.query(
+    `INSERT INTO accounts (account_id, name) VALUES ($1, $2)
+     ON CONFLICT (account_id) DO UPDATE SET account_id = EXCLUDED.account_id
+     RETURNING *`,  // DO UPDATE so the existing row is returned
+    [accountId, name]
+  );
+  return toAccount(result.rows[0]);
+}
+
+// Get account by ID
+export async function getAccount(accountId: string): Promise<Account | null> {
+  const result = await pool.query('SELECT * FROM accounts WHERE account_id = $1', [accountId]);
+  return result.rows[0] ? toAccount(result.rows[0]) : null;
+}
+
+// Store an API key's hash. Saving an existing keyId replaces its hash and un-revokes it (used for the bootstrap admin key).
+export async function saveApiKey(
+  keyId: string,
+  accountId: string,
+  keyHash: string,
+  scope: ApiKeyScope,
+  label?: string
+): Promise<ApiKeyInfo> {
+  const result = await pool.query(
+    `INSERT INTO api_keys (key_id, account_id, key_hash, scope, label)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (key_id) DO UPDATE SET key_hash = EXCLUDED.key_hash, scope = EXCLUDED.scope, revoked_at = NULL
+     RETURNING *`,
+    [keyId, accountId, keyHash, scope, label ?? null]
+  );
+  return toApiKeyInfo(result.rows[0]);
+}
+
+// Identity behind a key hash, or null if no active key matches
+export async function findApiKey(keyHash: string): Promise<AuthContext | null> {
+  const result = await pool.query(
+    'SELECT key_id, account_id, scope FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL',
+    [keyHash]
+  );
+  const row = result.rows[0];
+  return row ? { keyId: row.key_id, accountId: row.account_id, scope: row.scope } : null;
+}
+
+// All keys of an account, newest first
+export async function listApiKeys(accountId: string): Promise<ApiKeyInfo[]> {
+  const result = await pool.query(
+    'SELECT * FROM api_keys WHERE account_id = $1 ORDER BY created_at DESC',
+    [accountId]
+  );
+  return result.rows.map(toApiKeyInfo);
+}
+
+// Stop a key from working; false if it doesn't exist or was already revoked
+export async function revokeApiKey(keyId: string): Promise<boolean> {
+  const result = await pool.query(
+    'UPDATE api_keys SET revoked_at = NOW() WHERE key_id = $1 AND revoked_at IS NULL',
+    [keyId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Convert a raw accounts row to the camelCase shape
+function toAccount(row: any): Account {
+  return {
+    accountId: row.account_id,
+    name: row.name,
+    createdAt: row.created_at
+  };
+}
+
+// Convert a raw api_keys row to the camelCase shape (never includes the hash)
+function toApiKeyInfo(row: any): ApiKeyInfo {
+  return {
+    keyId: row.key_id,
+    accountId: row.account_id,
+    scope: row.scope,
+    label: row.label,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at
+  };
+}
+
+// Limit overrides stored for an account, or null if the account doesn't exist
+export async function getAccountLimitSettings(accountId: string): Promise<AccountLimitSettings | null> {
+  const [account, quotas] = await Promise.all([
+    pool.query('SELECT orders_per_minute, daily_notional_usd FROM accounts WHERE account_id = $1', [accountId]),
+    pool.query('SELECT token, daily_notional_usd FROM account_token_quotas WHERE account_id = $1', [accountId])
+  ]);
+  const row = account.rows[0];
+  if (!row) {
+    return null;
+  }
   
-  return result.rows[0] || null;  // Return first row or null if not found
-}
\ No newline at end of file
+  const tokenDailyNotionalUsd: Record<string, number> = {};
+  for (const quota of quotas.rows) {
+    tokenDailyNotionalUsd[quota.token] = parseFloat(quota.daily_notional_usd);
+  }
+  return {
+    ordersPerMinute: row.orders_per_minute,
+    dailyNotionalUsd: toNumber(row.daily_notional_usd),
+    tokenDailyNotionalUsd
+  };
+}
+
+// Change an account's limit overrides: undefined leaves a setting alone, null resets it to the default
+// (for token quotas: removes it). Runs in one transaction.
+export async function updateAccountLimitSettings(
+  accountId: string,
+  changes: {
+    ordersPerMinute?: number | null;
+    dailyNotionalUsd?: number | null;
+    tokenDailyNotionalUsd?: Record<string, number | null>;
+  }
+): Promise<void> {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    if (changes.ordersPerMinute !== undefined) {
+      await client.query('UPDATE accounts SET orders_per_minute = $2 WHERE account_id = $1', [accountId, changes.ordersPerMinute]);
+    }
+    if (changes.dailyNotionalUsd !== undefined) {
+      await client.query('UPDATE accounts SET daily_notional_usd = $2 WHERE account_id = $1', [accountId, changes.dailyNotionalUsd]);
+    }
+    for (const [token, limit] of Object.entries(changes.tokenDailyNotionalUsd || {})) {
+      if (limit === null) {
+        await client.query('DELETE FROM account_token_quotas WHERE account_id = $1 AND token = $2', [accountId, token]);
+      } else {
+        await client.query(
+          `INSERT INTO account_token_quotas (account_id, token, daily_notional_usd) VALUES ($1, $2, $3)
+           ON CONFLICT (account_id, token) DO UPDATE SET daily_notional_usd = EXCLUDED.daily_notional_usd`,
+          [accountId, token, limit]
+        );
+      }
+    }
+    
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();  // Always release client back to pool
+  }
+}
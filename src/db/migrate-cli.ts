@@ -0,0 +1,67 @@
+import { pool } from './database';  // Database connection pool
+import { migrate, rollback, migrationStatus } from './migrator';  // Versioned schema migrations
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+  up [version]    Apply pending migrations (up to and including version)
+  down [steps]    Roll back the last applied migrations (default: 1)
+  status          List migrations and whether they have been applied`;
+
+// Parse an optional positive integer argument
+function parseCount(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer, got '${value}'`);
+  }
+  return parsed;
+}
+
+async function run(command: string, arg: string | undefined): Promise<void> {
+  switch (command) {
+    case 'up': {
+      const applied = await migrate(pool, parseCount(arg, 'version'));
+      console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Nothing to migrate');
+      break;
+    }
+
+    case 'down': {
+      const reverted = await rollback(pool, parseCount(arg, 'steps') ?? 1);
+      console.log(reverted.length > 0 ? `✅ Rolled back ${reverted.length} migration(s)` : '✅ Nothing to roll back');
+      break;
+    }
+
+    case 'status': {
+      const states = await migrationStatus(pool);
+      for (const m of states) {
+        const version = String(m.version).padStart(3, '0');
+        const appliedAt = m.appliedAt ? m.appliedAt.toISOString() : '';
+        console.log(`${version}  ${m.name.padEnd(28)} ${m.state.padEnd(8)} ${appliedAt}`);
+      }
+      const pending = states.filter(m => m.state === 'pending').length;
+      console.log(pending > 0 ? `\n⏳ ${pending} pending migration(s)` : '\n✅ Schema is up to date');
+      break;
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+// Entry point: node dist/db/migrate-cli.js <command> (or npm run migrate -- <command>)
+async function main() {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  try {
+    await run(command, arg);
+    await pool.end();  // Close database connections
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);  // Log migration error
+    await pool.end();  // Close database connections
+    process.exit(1);  // Exit with error code
+  }
+}
+
+main();
@@ -0,0 +1,87 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Orders table. The ALTERs bring up tables created by initDatabase before migrations existed.
+export const createOrders: Migration = {
+  version: 1,
+  name: 'create_orders',
+
+  async up(client) {
+    // Create orders table if it doesn't exist
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS orders (
+        order_id VARCHAR(255) PRIMARY KEY,        -- Unique order identifier
+        order_type VARCHAR(50) NOT NULL,          -- market/limit/sniper
+        token_in VARCHAR(255) NOT NULL,           -- Input token address
+        token_out VARCHAR(255) NOT NULL,          -- Output token address
+        amount_in DECIMAL(20, 8) NOT NULL,        -- Input amount
+        slippage DECIMAL(5, 4) DEFAULT 0.01,      -- Slippage tolerance
+        status VARCHAR(50) NOT NULL,              -- Current order status
+        dex_used VARCHAR(255),                    -- Venue ID(s), '+'-joined when split
+        executed_price DECIMAL(20, 8),            -- Final execution price
+        amount_out DECIMAL(20, 8),                -- Actual output amount
+        tx_hash VARCHAR(255),                     -- Blockchain transaction hash
+        error TEXT,                               -- Error message if failed
+        limit_price DECIMAL(20, 8),               -- Limit orders: trigger price
+        expires_at TIMESTAMP,                     -- Limit orders: optional expiry
+        last_quoted_price DECIMAL(20, 8),         -- Limit orders: latest best quote
+        price_distance NUMERIC,                   -- Limit orders: % away from trigger (unbounded for far limits)
+        max_price DECIMAL(20, 8),                 -- Sniper orders: maximum price
+        min_liquidity DECIMAL(20, 2),             -- Sniper orders: minimum pool liquidity
+        route_path VARCHAR(512),                  -- Token path, e.g. 'BONK -> SOL -> USDC'
+        quoted_amount_out DECIMAL(20, 8),         -- Output the route quotes promised
+        slippage_bps DECIMAL(10, 2),              -- Fill vs. quote shortfall in basis points
+        failure_reason VARCHAR(50),               -- Most recent execution failure code
+        idempotency_key VARCHAR(255),             -- Idempotency-Key the order was submitted with
+        account_id VARCHAR(255),                  -- Account the order belongs to
+        created_at TIMESTAMP DEFAULT NOW(),       -- Order creation time
+        updated_at TIMESTAMP DEFAULT NOW()        -- Last update time
+      )
+    `);
+
+    // Add the columns introduced since the first schema to tables created without them
+    await client.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS limit_price DECIMAL(20, 8),
+        ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS last_quoted_price DECIMAL(20, 8),
+        ADD COLUMN IF NOT EXISTS price_distance NUMERIC,
+        ADD COLUMN IF NOT EXISTS max_price DECIMAL(20, 8),
+        ADD COLUMN IF NOT EXISTS min_liquidity DECIMAL(20, 2),
+        ADD COLUMN IF NOT EXISTS route_path VARCHAR(512),
+        ADD COLUMN IF NOT EXISTS quoted_amount_out DECIMAL(20, 8),
+        ADD COLUMN IF NOT EXISTS slippage_bps DECIMAL(10, 2),
+        ADD COLUMN IF NOT EXISTS failure_reason VARCHAR(50),
+        ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS account_id VARCHAR(255),
+        ALTER COLUMN dex_used TYPE VARCHAR(255)
+    `);
+
+    // Create index on status for efficient queries
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_orders_status
+      ON orders(status)
+    `);
+
+    // Create index on created_at for time-based queries
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_orders_created_at
+      ON orders(created_at DESC)
+    `);
+
+    // Create index matching the default listing order (keyset pagination on created_at, order_id)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_orders_created_at_order_id
+      ON orders(created_at DESC, order_id DESC)
+    `);
+
+    // Create index for listing an account's orders
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_orders_account_id
+      ON orders(account_id, created_at DESC)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS orders');  // Indexes go with the table
+  }
+};
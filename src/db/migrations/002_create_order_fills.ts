@@ -0,0 +1,40 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// One row per executed route leg
+export const createOrderFills: Migration = {
+  version: 2,
+  name: 'create_order_fills',
+
+  async up(client) {
+    // Create order_fills table (one row per executed route leg)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS order_fills (
+        id SERIAL PRIMARY KEY,                    -- Fill identifier
+        order_id VARCHAR(255) NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+        leg_index INTEGER NOT NULL,               -- Position of the leg within the order
+        hop INTEGER NOT NULL DEFAULT 0,           -- Position of the swap within its path
+        dex VARCHAR(50) NOT NULL,                 -- Venue that filled the leg
+        token_in VARCHAR(255) NOT NULL,           -- Input token
+        token_out VARCHAR(255) NOT NULL,          -- Output token
+        amount_in DECIMAL(20, 8) NOT NULL,        -- Input amount for this leg
+        amount_out DECIMAL(20, 8) NOT NULL,       -- Output amount for this leg
+        quoted_amount_out DECIMAL(20, 8),         -- Output the route quote promised for this leg
+        executed_price DECIMAL(20, 8) NOT NULL,   -- Leg execution price
+        tx_hash VARCHAR(255) NOT NULL,            -- Leg transaction hash
+        created_at TIMESTAMP DEFAULT NOW(),       -- Fill time
+        UNIQUE (order_id, leg_index)
+      )
+    `);
+
+    // Add the columns introduced since the first schema to tables created without them
+    await client.query(`
+      ALTER TABLE order_fills
+        ADD COLUMN IF NOT EXISTS hop INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS quoted_amount_out DECIMAL(20, 8)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS order_fills');
+  }
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Append-only order history: one row per transition, quote comparison or retry
+export const createOrderEvents: Migration = {
+  version: 3,
+  name: 'create_order_events',
+
+  async up(client) {
+    // Create order_events table
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS order_events (
+        event_id BIGSERIAL PRIMARY KEY,           -- Increasing event identifier
+        order_id VARCHAR(255) NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+        event_type VARCHAR(50) NOT NULL,          -- status/quotes/retry
+        status VARCHAR(50) NOT NULL,              -- Order status when the event happened
+        attempt INTEGER,                          -- Worker attempt (1-based), NULL outside the worker
+        data JSONB,                               -- Event details (quotes, routing reason, error, ...)
+        created_at TIMESTAMP DEFAULT NOW()        -- When the event happened
+      )
+    `);
+
+    // Create index for reading one order's history in order
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_order_events_order_id
+      ON order_events(order_id, event_id)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS order_events');
+  }
+};
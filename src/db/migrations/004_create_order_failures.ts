@@ -0,0 +1,41 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Structured post-mortem of every order that exhausted its attempts
+export const createOrderFailures: Migration = {
+  version: 4,
+  name: 'create_order_failures',
+
+  async up(client) {
+    // Create order_failures table
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS order_failures (
+        failure_id SERIAL PRIMARY KEY,            -- Failure identifier
+        order_id VARCHAR(255) NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+        order_type VARCHAR(50) NOT NULL,          -- market/limit/sniper
+        token_in VARCHAR(255) NOT NULL,           -- Input token
+        token_out VARCHAR(255) NOT NULL,          -- Output token
+        amount_in DECIMAL(20, 8) NOT NULL,        -- Input amount
+        error_type VARCHAR(50) NOT NULL,          -- SLIPPAGE_EXCEEDED/EXECUTION_FAILED/ROUTING_FAILED/INTERNAL_ERROR
+        error_class VARCHAR(100) NOT NULL,        -- Class of the thrown error
+        error_message TEXT NOT NULL,              -- Message of the thrown error
+        stack TEXT,                               -- Stack trace
+        attempt INTEGER NOT NULL,                 -- Attempt that failed for good
+        max_attempts INTEGER NOT NULL,            -- Attempts allowed
+        failed_step VARCHAR(50) NOT NULL,         -- Last step the attempt reached
+        dex_used VARCHAR(255),                    -- Venue(s) of the failing route
+        route_quote JSONB,                        -- Route, quotes and legs of the failing attempt
+        created_at TIMESTAMP DEFAULT NOW()        -- Failure time
+      )
+    `);
+
+    // Create index on created_at for time-ranged post-mortems
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_order_failures_created_at
+      ON order_failures(created_at DESC)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS order_failures');
+  }
+};
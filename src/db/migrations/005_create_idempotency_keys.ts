@@ -0,0 +1,37 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// One row per Idempotency-Key until it expires
+export const createIdempotencyKeys: Migration = {
+  version: 5,
+  name: 'create_idempotency_keys',
+
+  async up(client) {
+    // Create idempotency_keys table (keys are prefixed with the owning account, hence 512)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        idempotency_key VARCHAR(512) PRIMARY KEY, -- Account-scoped client-supplied key
+        request_hash CHAR(64) NOT NULL,           -- SHA-256 of the canonical request body
+        order_id VARCHAR(255),                    -- Order created for the key
+        status_code INTEGER,                      -- Original HTTP status (NULL while in progress)
+        response JSONB,                           -- Original response body (NULL while in progress)
+        created_at TIMESTAMP DEFAULT NOW(),       -- First use of the key
+        expires_at TIMESTAMP NOT NULL             -- Key may be reused after this
+      )
+    `);
+
+    // Widen keys in tables created before they were account-scoped
+    await client.query(`
+      ALTER TABLE idempotency_keys ALTER COLUMN idempotency_key TYPE VARCHAR(512)
+    `);
+
+    // Create index on expires_at for purging expired keys
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+      ON idempotency_keys(expires_at)
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS idempotency_keys');
+  }
+};
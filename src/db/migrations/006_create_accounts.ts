@@ -0,0 +1,56 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Accounts, their per-token quotas and their API keys (only a SHA-256 of each key is stored)
+export const createAccounts: Migration = {
+  version: 6,
+  name: 'create_accounts',
+
+  async up(client) {
+    // Create accounts table (owners of orders and API keys)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        account_id VARCHAR(255) PRIMARY KEY,      -- Unique account identifier
+        name VARCHAR(255) NOT NULL,               -- Display name
+        orders_per_minute INTEGER,                -- Submission rate limit (NULL = server default)
+        daily_notional_usd DECIMAL(20, 2),        -- Daily notional quota (NULL = server default)
+        created_at TIMESTAMP DEFAULT NOW()        -- Account creation time
+      )
+    `);
+
+    // Add limit columns to account tables created before per-account limits existed
+    await client.query(`
+      ALTER TABLE accounts
+        ADD COLUMN IF NOT EXISTS orders_per_minute INTEGER,
+        ADD COLUMN IF NOT EXISTS daily_notional_usd DECIMAL(20, 2)
+    `);
+
+    // Create account_token_quotas table (daily notional quota per account and token)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS account_token_quotas (
+        account_id VARCHAR(255) NOT NULL REFERENCES accounts(account_id) ON DELETE CASCADE,
+        token VARCHAR(255) NOT NULL,              -- Normalized token (SOL stored as the wrapped SOL mint)
+        daily_notional_usd DECIMAL(20, 2) NOT NULL,  -- USD notional per UTC day of orders trading the token
+        PRIMARY KEY (account_id, token)
+      )
+    `);
+
+    // Create api_keys table
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        key_id VARCHAR(255) PRIMARY KEY,          -- Public key identifier
+        account_id VARCHAR(255) NOT NULL REFERENCES accounts(account_id) ON DELETE CASCADE,
+        key_hash CHAR(64) NOT NULL UNIQUE,        -- SHA-256 of the key
+        scope VARCHAR(20) NOT NULL,               -- user/admin
+        label VARCHAR(255),                       -- Free-form note
+        created_at TIMESTAMP DEFAULT NOW(),       -- Key creation time
+        revoked_at TIMESTAMP                      -- Set once the key stops working
+      )
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS api_keys');
+    await client.query('DROP TABLE IF EXISTS account_token_quotas');
+    await client.query('DROP TABLE IF EXISTS accounts');
+  }
+};
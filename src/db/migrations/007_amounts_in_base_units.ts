@@ -0,0 +1,85 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Tokens orders could name before the token registry, as they were when amounts moved to base units.
+// A snapshot on purpose: later registry changes must not change what this migration does.
+const LEGACY_TOKENS: Array<{ symbol: string; mint: string; decimals: number }> = [
+  { symbol: 'SOL', mint: 'So11111111111111111111111111111111111111112', decimals: 9 },
+  { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 },
+  { symbol: 'USDT', mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', decimals: 6 },
+  { symbol: 'BONK', mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 },
+  { symbol: 'JUP', mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', decimals: 6 }
+];
+
+// Tokens nobody registered are taken to have SOL's 9 decimals
+const FALLBACK_DECIMALS = 9;
+
+// SQL for the decimals of the token in a column (known by symbol or mint)
+function decimalsOf(tokenColumn: string): string {
+  const cases = LEGACY_TOKENS.map(({ symbol, mint, decimals }) => `WHEN '${symbol}' THEN ${decimals} WHEN '${mint}' THEN ${decimals}`);
+  return `(CASE ${tokenColumn} ${cases.join(' ')} ELSE ${FALLBACK_DECIMALS} END)`;
+}
+
+// SQL for the symbol of a token stored by mint (anything else is kept as it is)
+function symbolOf(tokenColumn: string): string {
+  const cases = LEGACY_TOKENS.map(({ symbol, mint }) => `WHEN '${mint}' THEN '${symbol}'`);
+  return `(CASE ${tokenColumn} ${cases.join(' ')} ELSE ${tokenColumn} END)`;
+}
+
+// Amount columns and the token each one is denominated in
+const AMOUNT_COLUMNS: Array<{ table: string; columns: Array<{ column: string; token: string }> }> = [
+  {
+    table: 'orders',
+    columns: [
+      { column: 'amount_in', token: 'token_in' },
+      { column: 'amount_out', token: 'token_out' },
+      { column: 'quoted_amount_out', token: 'token_out' }
+    ]
+  },
+  {
+    table: 'order_fills',
+    columns: [
+      { column: 'amount_in', token: 'token_in' },
+      { column: 'amount_out', token: 'token_out' },
+      { column: 'quoted_amount_out', token: 'token_out' }
+    ]
+  },
+  {
+    table: 'order_failures',
+    columns: [{ column: 'amount_in', token: 'token_in' }]
+  }
+];
+
+// Amounts become exact integers of the token's smallest unit (DECIMAL(20, 8) can't hold 9-decimal
+// SPL amounts), and tokens stored by mint are stored by symbol like every order placed from now on
+export const amountsInBaseUnits: Migration = {
+  version: 7,
+  name: 'amounts_in_base_units',
+
+  async up(client) {
+    for (const { table, columns } of AMOUNT_COLUMNS) {
+      // Convert token amounts to base units (NUMERIC(40, 0) holds any u64 amount with room to spare)
+      await client.query(`
+        ALTER TABLE ${table}
+          ${columns.map(({ column, token }) =>
+            `ALTER COLUMN ${column} TYPE NUMERIC(40, 0) USING round(${column} * power(10::numeric, ${decimalsOf(token)}))`
+          ).join(',\n          ')}
+      `);
+
+      // Store tokens by symbol
+      await client.query(`
+        UPDATE ${table} SET token_in = ${symbolOf('token_in')}, token_out = ${symbolOf('token_out')}
+      `);
+    }
+  },
+
+  async down(client) {
+    for (const { table, columns } of AMOUNT_COLUMNS) {
+      await client.query(`
+        ALTER TABLE ${table}
+          ${columns.map(({ column, token }) =>
+            `ALTER COLUMN ${column} TYPE DECIMAL(20, 8) USING ${column} / power(10::numeric, ${decimalsOf(token)})`
+          ).join(',\n          ')}
+      `);
+    }
+  }
+};
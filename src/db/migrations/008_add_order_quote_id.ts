@@ -0,0 +1,18 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Market orders may execute against a firm quote from POST /api/quotes
+export const addOrderQuoteId: Migration = {
+  version: 8,
+  name: 'add_order_quote_id',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS quote_id VARCHAR(255)  -- Quote the order executed against (NULL = routed at submission)
+    `);
+  },
+
+  async down(client) {
+    await client.query(`ALTER TABLE orders DROP COLUMN IF EXISTS quote_id`);
+  }
+};
@@ -0,0 +1,62 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Simulated wallets: per-account token balances, the append-only ledger behind them,
+// and the network fee of every executed leg
+export const createBalances: Migration = {
+  version: 9,
+  name: 'create_balances',
+
+  async up(client) {
+    // Create account_balances table (one row per account and token, in base units)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS account_balances (
+        account_id VARCHAR(255) NOT NULL REFERENCES accounts(account_id) ON DELETE CASCADE,
+        token VARCHAR(255) NOT NULL,              -- Token symbol
+        available NUMERIC(40, 0) NOT NULL DEFAULT 0 CHECK (available >= 0),  -- Free to reserve for new orders
+        reserved NUMERIC(40, 0) NOT NULL DEFAULT 0 CHECK (reserved >= 0),  -- Held by open orders
+        updated_at TIMESTAMP DEFAULT NOW(),       -- Last change
+        PRIMARY KEY (account_id, token)
+      )
+    `);
+
+    // Create ledger_entries table (every balance change, with the balance after it)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ledger_entries (
+        entry_id BIGSERIAL PRIMARY KEY,           -- Increasing entry identifier
+        account_id VARCHAR(255) NOT NULL REFERENCES accounts(account_id) ON DELETE CASCADE,
+        token VARCHAR(255) NOT NULL,              -- Token symbol
+        order_id VARCHAR(255),                    -- Order the entry belongs to (NULL for deposits)
+        leg_index INTEGER,                        -- Fill behind debit/credit/fee entries
+        entry_type VARCHAR(20) NOT NULL,          -- deposit/reserve/debit/credit/fee/settle/release
+        available_change NUMERIC(40, 0) NOT NULL, -- Signed change to available
+        reserved_change NUMERIC(40, 0) NOT NULL,  -- Signed change to reserved
+        available_after NUMERIC(40, 0) NOT NULL,  -- Available after the entry
+        reserved_after NUMERIC(40, 0) NOT NULL,   -- Reserved after the entry
+        note TEXT,                                -- Free-form reason (deposits, fee allowance)
+        created_at TIMESTAMP DEFAULT NOW()        -- When the entry was made
+      )
+    `);
+
+    // Create indexes for an account's ledger (newest first) and for what an order holds
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_ledger_entries_account
+      ON ledger_entries(account_id, entry_id DESC)
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_ledger_entries_order_id
+      ON ledger_entries(order_id)
+    `);
+
+    // Network fee (lamports) of each executed leg
+    await client.query(`
+      ALTER TABLE order_fills
+        ADD COLUMN IF NOT EXISTS network_fee NUMERIC(40, 0) NOT NULL DEFAULT 0
+    `);
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE order_fills DROP COLUMN IF EXISTS network_fee');
+    await client.query('DROP TABLE IF EXISTS ledger_entries');
+    await client.query('DROP TABLE IF EXISTS account_balances');
+  }
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';  // Migration shape
+
+// Orders choose a priority fee and record the fees their legs paid; fills keep their priority fee
+export const addPriorityFees: Migration = {
+  version: 10,
+  name: 'add_priority_fees',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS priority_fee VARCHAR(20) NOT NULL DEFAULT 'normal',  -- low/normal/turbo or microlamports per compute unit
+        ADD COLUMN IF NOT EXISTS network_fee NUMERIC(40, 0),       -- Lamports paid across filled legs, priority fees included
+        ADD COLUMN IF NOT EXISTS priority_fee_paid NUMERIC(40, 0)  -- Part of network_fee paid as priority fees
+    `);
+
+    // Priority fee (lamports) of each executed leg, included in its network_fee
+    await client.query(`
+      ALTER TABLE order_fills
+        ADD COLUMN IF NOT EXISTS priority_fee NUMERIC(40, 0) NOT NULL DEFAULT 0
+    `);
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE order_fills DROP COLUMN IF EXISTS priority_fee');
+    await client.query(`
+      ALTER TABLE orders
+        DROP COLUMN IF EXISTS priority_fee_paid,
+        DROP COLUMN IF EXISTS network_fee,
+        DROP COLUMN IF EXISTS priority_fee
+    `);
+  }
+};
@@ -0,0 +1,26 @@
+import { Migration } from '../migrator';  // Migration shape
+import { createOrders } from './001_create_orders';
+import { createOrderFills } from './002_create_order_fills';
+import { createOrderEvents } from './003_create_order_events';
+import { createOrderFailures } from './004_create_order_failures';
+import { createIdempotencyKeys } from './005_create_idempotency_keys';
+import { createAccounts } from './006_create_accounts';
+import { amountsInBaseUnits } from './007_amounts_in_base_units';
+import { addOrderQuoteId } from './008_add_order_quote_id';
+import { createBalances } from './009_create_balances';
+import { addPriorityFees } from './010_add_priority_fees';
+
+// Every schema migration, in version order. Add new ones at the end with the next number;
+// never edit or renumber one that has shipped (add a new migration instead).
+export const migrations: Migration[] = [
+  createOrders,
+  createOrderFills,
+  createOrderEvents,
+  createOrderFailures,
+  createIdempotencyKeys,
+  createAccounts,
+  amountsInBaseUnits,
+  addOrderQuoteId,
+  createBalances,
+  addPriorityFees,
+];
@@ -0,0 +1,132 @@
+import { Pool, PoolClient } from 'pg';  // PostgreSQL client library
+import { migrations } from './migrations';  // Every migration, in version order
+
+// A numbered schema change; up/down run inside a transaction
+export interface Migration {
+  version: number;            // Applied in increasing order, recorded in schema_migrations
+  name: string;               // Short snake_case description
+  up(client: PoolClient): Promise<void>;
+  down(client: PoolClient): Promise<void>;
+}
+
+// A migration as seen by `migrate status`
+export interface MigrationState {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'missing';  // missing = applied here but unknown to this build
+  appliedAt: Date | null;
+}
+
+// pg_advisory_lock key held while migrating, so instances starting together don't race
+const MIGRATION_LOCK_ID = 72600419;
+
+// Row of schema_migrations
+interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: Date;
+}
+
+// Run fn on one connection holding the migration lock (waits for any other instance to finish)
+async function withMigrationLock<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();  // Get a client from the pool
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);  // Block until no one else is migrating
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,              -- Migration number
+          name VARCHAR(255) NOT NULL,               -- Migration name
+          applied_at TIMESTAMP DEFAULT NOW()        -- When it was applied
+        )
+      `);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);  // Let the next instance in
+    }
+  } finally {
+    client.release();  // Always release client back to pool
+  }
+}
+
+// Applied migrations, oldest first; fails if one was renamed or replaced under the same version
+async function appliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+
+  for (const row of result.rows) {
+    const known = migrations.find(m => m.version === row.version);
+    if (known && known.name !== row.name) {
+      throw new Error(`Migration ${row.version} was applied as '${row.name}' but is now '${known.name}'`);
+    }
+  }
+  return result.rows;
+}
+
+// Run one step of a migration and record (or forget) it in the same transaction
+async function runInTransaction(client: PoolClient, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+  try {
+    await client.query('BEGIN');
+    await migration[direction](client);
+    if (direction === 'up') {
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+    await client.query('COMMIT');
+  } catch (error: any) {
+    await client.query('ROLLBACK');  // Leave the schema as it was before this migration
+    throw new Error(`Migration ${migration.version} (${migration.name}) ${direction} failed: ${error.message}`);
+  }
+}
+
+// Apply pending migrations up to targetVersion (default: all); returns the ones applied
+export async function migrate(pool: Pool, targetVersion?: number): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    const applied = new Set((await appliedMigrations(client)).map(row => row.version));
+    const pending = migrations.filter(m => !applied.has(m.version) && (targetVersion === undefined || m.version <= targetVersion));
+
+    for (const migration of pending) {
+      console.log(`⬆️  Applying migration ${migration.version}: ${migration.name}`);
+      await runInTransaction(client, migration, 'up');
+    }
+    return pending;
+  });
+}
+
+// Revert the last `steps` applied migrations, newest first; returns the ones reverted
+export async function rollback(pool: Pool, steps: number = 1): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    const latest = (await appliedMigrations(client)).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const row of latest) {
+      const migration = migrations.find(m => m.version === row.version);
+      if (!migration) {
+        throw new Error(`Migration ${row.version} (${row.name}) is not part of this build and can't be rolled back`);
+      }
+      console.log(`⬇️  Reverting migration ${migration.version}: ${migration.name}`);
+      await runInTransaction(client, migration, 'down');
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+}
+
+// Every known or applied migration and whether it has run, in version order
+export async function migrationStatus(pool: Pool): Promise<MigrationState[]> {
+  return withMigrationLock(pool, async (client) => {
+    const applied = await appliedMigrations(client);
+
+    const states: MigrationState[] = migrations.map(m => {
+      const row = applied.find(a => a.version === m.version);
+      return { version: m.version, name: m.name, state: row ? 'applied' : 'pending', appliedAt: row?.applied_at ?? null };
+    });
+    for (const row of applied) {
+      if (!migrations.some(m => m.version === row.version)) {
+        states.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+      }
+    }
+    return states.sort((a, b) => a.version - b.version);
+  });
+}
@@ -0,0 +1,242 @@
+import { Pool } from 'pg';  // PostgreSQL client library
+import { pool, fromPriorityFee } from './database';  // Shared connection pool, priority fee column parsing
+import { BaseUnits, Order, OrderStatus, OrderType, OrderUpdate, OrderListQuery, OrderCursor, OrderSortField } from '../types';  // Import type definitions
+
+// Statuses an order can no longer leave
+export const TERMINAL_STATUSES: OrderStatus[] = ['confirmed', 'failed', 'expired', 'cancelled'];
+
+// Column behind each field an update may set, and whether it holds a DECIMAL or base units
+const UPDATE_COLUMNS: Record<keyof OrderUpdate, { column: string; type: 'text' | 'decimal' | 'units' }> = {
+  status: { column: 'status', type: 'text' },
+  slippage: { column: 'slippage', type: 'decimal' },
+  dexUsed: { column: 'dex_used', type: 'text' },
+  executedPrice: { column: 'executed_price', type: 'decimal' },
+  amountOut: { column: 'amount_out', type: 'units' },
+  txHash: { column: 'tx_hash', type: 'text' },
+  error: { column: 'error', type: 'text' },
+  routePath: { column: 'route_path', type: 'text' },
+  lastQuotedPrice: { column: 'last_quoted_price', type: 'decimal' },
+  priceDistance: { column: 'price_distance', type: 'decimal' },
+  quotedAmountOut: { column: 'quoted_amount_out', type: 'units' },
+  slippageBps: { column: 'slippage_bps', type: 'decimal' },
+  failureReason: { column: 'failure_reason', type: 'text' },
+  networkFee: { column: 'network_fee', type: 'units' },
+  priorityFeePaid: { column: 'priority_fee_paid', type: 'units' }
+};
+
+// Column and SQL type behind each sortable field
+const ORDER_SORT_COLUMNS: Record<OrderSortField, { column: string; type: string }> = {
+  createdAt: { column: 'created_at', type: 'timestamp' },
+  updatedAt: { column: 'updated_at', type: 'timestamp' },
+  amountIn: { column: 'amount_in', type: 'numeric' }
+};
+
+// Numbers bound to DECIMAL columns. They are sent as the shortest string that reads back as the same
+// double and Postgres rounds that to the column's scale, so nothing is lost on the way in; NaN and
+// Infinity would be stored as-is (or rejected) and are refused here instead.
+function toDecimalParam(field: string, value: number | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error(`Order field ${field} must be a finite number, got ${value}`);
+  }
+  return String(value);
+}
+
+// Token amounts bound to NUMERIC(40, 0) columns: integer strings of base units, never fractions
+function toBaseUnitsParam(field: string, value: BaseUnits | null): BaseUnits | null {
+  if (value !== null && !/^\d+$/.test(value)) {
+    throw new Error(`Order field ${field} must be an integer amount in base units, got ${value}`);
+  }
+  return value;
+}
+
+// DECIMAL column (a string from pg) to number. Any value with up to 15 significant digits (every
+// DECIMAL(20, 8) amount below 10^7) converts back to the same decimal string.
+function fromDecimal(value: string | null): number | undefined {
+  return value !== null && value !== undefined ? Number(value) : undefined;
+}
+
+// Convert a raw orders row to an Order (absent values become undefined, zeros stay zero)
+export function toOrder(row: any): Order {
+  const expiresAt: Date | undefined = row.expires_at ?? undefined;
+  return {
+    orderId: row.order_id,
+    orderType: row.order_type as OrderType,
+    tokenIn: row.token_in,
+    tokenOut: row.token_out,
+    amountIn: row.amount_in,  // NUMERIC base units arrive as exact strings
+    slippage: fromDecimal(row.slippage),
+    status: row.status,
+    dexUsed: row.dex_used ?? undefined,
+    executedPrice: fromDecimal(row.executed_price),
+    amountOut: row.amount_out ?? undefined,
+    txHash: row.tx_hash ?? undefined,
+    error: row.error ?? undefined,
+    limitPrice: fromDecimal(row.limit_price),
+    expiresAt,
+    lastQuotedPrice: fromDecimal(row.last_quoted_price),
+    priceDistance: fromDecimal(row.price_distance),
+    maxPrice: fromDecimal(row.max_price),
+    maxWaitMs: row.order_type === 'sniper' && expiresAt  // Sniper orders expire maxWaitMs after submission
+      ? new Date(expiresAt).getTime() - new Date(row.created_at).getTime()
+      : undefined,
+    minLiquidity: fromDecimal(row.min_liquidity),
+    routePath: row.route_path ?? undefined,
+    quotedAmountOut: row.quoted_amount_out ?? undefined,
+    slippageBps: fromDecimal(row.slippage_bps),
+    failureReason: row.failure_reason ?? undefined,
+    idempotencyKey: row.idempotency_key ?? undefined,
+    accountId: row.account_id ?? undefined,
+    quoteId: row.quote_id ?? undefined,
+    priorityFee: fromPriorityFee(row.priority_fee),
+    networkFee: row.network_fee ?? undefined,
+    priorityFeePaid: row.priority_fee_paid ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Typed access to the orders table
+export class OrderRepository {
+  constructor(private readonly db: Pool) {}
+
+  // Insert a newly submitted order
+  async create(order: Order): Promise<void> {
+    await this.db.query(
+      `INSERT INTO orders (
+        order_id, order_type, token_in, token_out, amount_in,
+        slippage, status, limit_price, expires_at, max_price, min_liquidity,
+        idempotency_key, account_id, quote_id, priority_fee, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())`,
+      [
+        order.orderId,      // $1 - Unique order ID
+        order.orderType,    // $2 - Order type
+        order.tokenIn,      // $3 - Input token
+        order.tokenOut,     // $4 - Output token
+        toBaseUnitsParam('amountIn', order.amountIn),  // $5 - Input amount (base units)
+        toDecimalParam('slippage', order.slippage ?? 0.01),  // $6 - Slippage with default
+        order.status,       // $7 - Initial status
+        toDecimalParam('limitPrice', order.limitPrice ?? null),  // $8 - Limit price (limit orders only)
+        order.expiresAt ?? null,  // $9 - Expiry (limit and sniper orders)
+        toDecimalParam('maxPrice', order.maxPrice ?? null),  // $10 - Max price (sniper orders only)
+        toDecimalParam('minLiquidity', order.minLiquidity ?? null),  // $11 - Min liquidity (sniper orders only)
+        order.idempotencyKey ?? null,  // $12 - Idempotency-Key header, if sent
+        order.accountId ?? null,  // $13 - Owning account, if any
+        order.quoteId ?? null,  // $14 - Firm quote the order executes against, if any
+        String(order.priorityFee ?? 'normal')  // $15 - Priority fee level or explicit price
+      ]
+    );
+  }
+
+  // Order by ID, or null if there is none
+  async findById(orderId: string): Promise<Order | null> {
+    const result = await this.db.query('SELECT * FROM orders WHERE order_id = $1', [orderId]);
+    return result.rows[0] ? toOrder(result.rows[0]) : null;
+  }
+
+  // Orders of a type still parked in 'waiting', oldest first (used to resume watchers after restart)
+  async findWaiting(orderType: OrderType): Promise<Order[]> {
+    const result = await this.db.query(
+      `SELECT * FROM orders WHERE status = 'waiting' AND order_type = $1 ORDER BY created_at`,
+      [orderType]
+    );
+    return result.rows.map(toOrder);
+  }
+
+  // Orders matching the filters using keyset pagination (stable under concurrent inserts)
+  async list(query: OrderListQuery): Promise<{ orders: Order[]; nextCursor: OrderCursor | null }> {
+    const conditions: string[] = [];  // WHERE clause parts
+    const values: any[] = [];  // Parameter values
+    const param = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (query.statuses && query.statuses.length > 0) {
+      conditions.push(`status = ANY(${param(query.statuses)})`);
+    }
+    if (query.tokenIn) {
+      conditions.push(`token_in = ${param(query.tokenIn)}`);
+    }
+    if (query.tokenOut) {
+      conditions.push(`token_out = ${param(query.tokenOut)}`);
+    }
+    if (query.dexUsed) {
+      conditions.push(`${param(query.dexUsed)} = ANY(string_to_array(dex_used, '+'))`);  // Matches split orders too
+    }
+    if (query.orderType) {
+      conditions.push(`order_type = ${param(query.orderType)}`);
+    }
+    if (query.createdFrom) {
+      conditions.push(`created_at >= ${param(query.createdFrom)}`);
+    }
+    if (query.createdTo) {
+      conditions.push(`created_at < ${param(query.createdTo)}`);
+    }
+    if (query.accountId) {
+      conditions.push(`account_id = ${param(query.accountId)}`);
+    }
+
+    // Continue strictly after the previous page's last row; order_id breaks ties
+    const { column, type } = ORDER_SORT_COLUMNS[query.sort];
+    const comparator = query.direction === 'desc' ? '<' : '>';
+    if (query.after) {
+      conditions.push(`(${column}, order_id) ${comparator} (${param(query.after.value)}::${type}, ${param(query.after.orderId)})`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const direction = query.direction === 'desc' ? 'DESC' : 'ASC';
+    const result = await this.db.query(
+      `SELECT *, ${column}::text AS sort_value FROM orders ${where}
+       ORDER BY ${column} ${direction}, order_id ${direction}
+       LIMIT ${param(query.limit + 1)}`,  // One extra row tells us whether another page exists
+      values
+    );
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    return {
+      orders: rows.map(toOrder),
+      nextCursor: result.rows.length > query.limit ? { value: last.sort_value, orderId: last.order_id } : null
+    };
+  }
+
+  // Apply changes to an order. With expectedStatus, only an order currently in (one of) those statuses
+  // is changed, so two writers racing from the same status can't both win. Returns whether a row changed.
+  async update(
+    orderId: string,
+    changes: OrderUpdate,
+    options: { expectedStatus?: OrderStatus | OrderStatus[] } = {}
+  ): Promise<boolean> {
+    const sets: string[] = [];  // SET clause parts
+    const values: any[] = [];  // Parameter values
+    const param = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    for (const [field, value] of Object.entries(changes) as [keyof OrderUpdate, any][]) {
+      if (value === undefined) {
+        continue;  // Left as it is (null clears the column)
+      }
+      const { column, type } = UPDATE_COLUMNS[field];
+      const bound = type === 'decimal' ? toDecimalParam(field, value) : type === 'units' ? toBaseUnitsParam(field, value) : value;
+      sets.push(`${column} = ${param(bound)}`);
+    }
+    sets.push('updated_at = NOW()');  // Always update the updated_at timestamp
+
+    let where = `order_id = ${param(orderId)}`;
+    if (options.expectedStatus !== undefined) {
+      const expected = Array.isArray(options.expectedStatus) ? options.expectedStatus : [options.expectedStatus];
+      where += ` AND status = ANY(${param(expected)})`;
+    }
+
+    const result = await this.db.query(`UPDATE orders SET ${sets.join(', ')} WHERE ${where}`, values);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+// Shared repository on the application pool
+export const orderRepository = new OrderRepository(pool);
@@ -5,7 +5,20 @@ import fastifyCors from '@fastify/cors';  // CORS plugin
 import dotenv from 'dotenv';  // Environment variables
 import { initDatabase, pool } from './db/database';  // Database initialization
 import { orderRoutes } from './routes/orders';  // Order routes
-import './workers/order-processor';  // Import worker to start it
+import { quoteRoutes } from './routes/quotes';  // Firm quote routes
+import { balanceRoutes } from './routes/balances';  // Wallet balance and ledger routes
+import { failureRoutes } from './routes/failures';  // Post-mortem routes
+import { adminRoutes } from './routes/admin';  // Admin routes (dead-letter queue, accounts, API keys)
+import { authRoutes } from './routes/auth';  // Authentication routes
+import { authenticate, bootstrapAdminKey, closeAuth } from './utils/auth';  // API key authentication
+import { closeRateLimits } from './utils/rate-limits';  // Per-account limit counters
+import { closeQuotes } from './utils/quotes';  // Firm quote store
+import { startOrderWorker, closeOrderQueues } from './workers/order-processor';  // Order execution worker
+import { startLimitOrderWatcher, closeLimitOrderQueue } from './workers/limit-order-watcher';  // Limit order watcher
+import { startSniperWatcher, closeSniperWatchQueue } from './workers/sniper-watcher';  // Sniper order watcher
+import { wsManager } from './utils/websocket-manager';  // WebSocket manager
+import { statusBus } from './utils/status-bus';  // Order updates from every worker process
+import { poolListings } from './utils/pool-listings';  // Simulated pool listings of every process
 dotenv.config();  // Load environment variables from .env
 
 
@@ -17,6 +30,7 @@ const fastify = Fastify({
 // Configuration from environment variables
 const PORT = parseInt(process.env.PORT || '3000');  // Server port
 const HOST = process.env.HOST || '0.0.0.0';  // Server host (0.0.0.0 for all interfaces)
+const RUN_WORKERS = process.env.RUN_WORKERS !== 'false';  // Also run the workers in this process (set false when `npm run start:worker` runs them)
 
 
 // Startup function
@@ -26,9 +40,26 @@ async function start() {
     
     // Step 1: Initialize database
     console.log('📦 Initializing database...');  // Log database init
-    await initDatabase();  // Create tables and indexes
+    await initDatabase();  // Apply pending schema migrations
     console.log('✅ Database initialized\n');  // Log success
     
+    await bootstrapAdminKey();  // Make ADMIN_API_KEY usable on a fresh install
+    
+    // Deliver order updates published by any process to this instance's sockets
+    await statusBus.subscribe(message => wsManager.deliver(message));
+    
+    // Quote and route on the pools listed by any process, workers included
+    await poolListings.start();
+    
+    if (RUN_WORKERS) {
+      startOrderWorker();  // Execute queued orders
+      startLimitOrderWatcher();  // Re-quote waiting limit orders
+      await startSniperWatcher();  // Watch for pool listings, resuming orders that were waiting before a restart
+      console.log('');
+    } else {
+      console.log('👷 Workers disabled (RUN_WORKERS=false), expecting a separate worker process\n');
+    }
+    
     // Step 2: Register plugins
     console.log('🔌 Registering plugins...');  // Log plugin registration
     
@@ -46,11 +77,20 @@ async function start() {
       }
     });
     
+    // Identify the caller on every route except public ones (e.g. health check)
+    fastify.decorateRequest('auth', null);
+    fastify.addHook('onRequest', authenticate);
+    
     console.log('✅ Plugins registered\n');  // Log success
     
     // Step 3: Register routes
     console.log('🛣️  Registering routes...');  // Log route registration
     await fastify.register(orderRoutes);  // Register order endpoints
+    await fastify.register(quoteRoutes);  // Register quote endpoints
+    await fastify.register(balanceRoutes);  // Register balance endpoints
+    await fastify.register(failureRoutes);  // Register post-mortem endpoints
+    await fastify.register(adminRoutes);  // Register admin endpoints
+    await fastify.register(authRoutes);  // Register authentication endpoints
     console.log('✅ Routes registered\n');  // Log success
     
     // Step 4: Start server
@@ -82,6 +122,15 @@ async function shutdown() {
     await pool.end();  // Close database connections
     console.log('✅ Database connections closed');  // Log database closure
     
+    await statusBus.close();  // Close status bus connections
+    await poolListings.close();  // Close pool listing connections
+    await closeAuth();  // Close WebSocket token store
+    await closeRateLimits();  // Close rate limit and quota counters
+    await closeQuotes();  // Close quote store
+    await closeOrderQueues();  // Close execution and dead-letter queues
+    await closeLimitOrderQueue();  // Close limit order price checks
+    await closeSniperWatchQueue();  // Close sniper hand-offs and watcher claims
+    
     process.exit(0);  // Exit successfully
   } catch (error) {
     console.error('❌ Error during shutdown:', error);  // Log shutdown error
@@ -0,0 +1,462 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';  // Fastify types
+import { v4 as uuidv4 } from 'uuid';  // Generate account IDs
+import { ApiKeyScope } from '../types';  // Import type definitions
+import { getDeadLetter, listDeadLetters, requeueDeadLetter } from '../workers/order-processor';  // Dead-letter queue
+import { dexRouter } from '../services/dex-router';  // Venue listings for forced-DEX validation
+import { normalizeToken } from '../services/dex-adapters';  // Token keys for token quotas
+import { tokenRegistry } from '../services/token-registry';  // Symbols behind token mints
+import { requireAdmin, issueApiKey } from '../utils/auth';  // Admin scope and key creation
+import { resolveAccountLimits, getNotionalUsage } from '../utils/rate-limits';  // Per-account limits
+import { balanceLedger } from '../db/balance-ledger';  // Simulated wallet balances
+import { parseOrderAmount } from './orders';  // Deposits are given like order amounts
+import {
+  getOrderFailures, getOrderEvents, createAccount, getAccount, listApiKeys, revokeApiKey,
+  getAccountLimitSettings, updateAccountLimitSettings
+} from '../db/database';  // Database functions
+
+// Optional overrides for a requeue
+interface RequeueBody {
+  slippage?: number;  // New slippage tolerance (0-1 exclusive)
+  dex?: string;  // Pin the route to this venue
+}
+
+// New account, optionally with a chosen ID
+interface CreateAccountBody {
+  name: string;  // Display name
+  accountId?: string;  // Defaults to a generated UUID
+}
+
+// New API key for an account
+interface CreateKeyBody {
+  scope?: ApiKeyScope;  // user (default) or admin
+  label?: string;  // Free-form note, e.g. 'trading bot'
+}
+
+// Limit overrides for an account; null resets a setting to the server default (or removes a token quota)
+interface UpdateLimitsBody {
+  ordersPerMinute?: number | null;  // Order submissions per minute
+  dailyNotionalUsd?: number | null;  // USD notional per UTC day
+  tokenDailyNotionalUsd?: Record<string, number | null>;  // USD notional per UTC day, by token
+}
+
+// Funds credited to an account's simulated wallet
+interface DepositBody {
+  token: string;  // Token symbol or mint
+  amount?: number | string;  // Whole tokens, e.g. 1.5 or '1.5'
+  amountBaseUnits?: string;  // Or: base units, e.g. '1500000000'
+  note?: string;  // Shown on the ledger entry
+}
+
+const API_KEY_SCOPES: ApiKeyScope[] = ['user', 'admin'];
+
+// Positive number, or null to reset
+const isLimit = (value: unknown): boolean => value === null || (typeof value === 'number' && value > 0 && isFinite(value));
+
+// Page size limits for GET /api/admin/dead-letters
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Register admin routes with Fastify
+export async function adminRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', requireAdmin);  // Admin API keys only
+
+  // POST /api/admin/accounts - Create an account and its first API key
+  fastify.post('/api/admin/accounts', async (request: FastifyRequest<{ Body: CreateAccountBody | undefined }>, reply) => {
+    const { name, accountId = uuidv4() } = request.body || {} as CreateAccountBody;
+
+    if (typeof name !== 'string' || !name || name.length > 255) {
+      return reply.status(400).send({
+        error: 'name must be a string of 1-255 characters'
+      });
+    }
+    if (typeof accountId !== 'string' || !accountId || accountId.length > 255) {
+      return reply.status(400).send({
+        error: 'accountId must be a string of 1-255 characters'
+      });
+    }
+
+    try {
+      if (await getAccount(accountId)) {
+        return reply.status(409).send({
+          error: 'Account already exists',
+          accountId
+        });
+      }
+
+      const account = await createAccount(accountId, name);
+      const apiKey = await issueApiKey(accountId, 'user');
+      console.log(`🔑 Account ${accountId} created`);
+      return reply.status(201).send({
+        account,
+        apiKey  // `key` is shown only in this response
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error creating account:', error);
+      return reply.status(500).send({
+        error: 'Failed to create account',
+        details: error.message
+      });
+    }
+  });
+
+  // GET /api/admin/accounts/:accountId/keys - An account's API keys (never the keys themselves)
+  fastify.get('/api/admin/accounts/:accountId/keys', async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+
+    try {
+      if (!(await getAccount(accountId))) {
+        return reply.status(404).send({
+          error: 'Account not found',
+          accountId
+        });
+      }
+
+      return reply.send({ accountId, keys: await listApiKeys(accountId) });
+
+    } catch (error: any) {
+      console.error('❌ Error listing API keys:', error);
+      return reply.status(500).send({
+        error: 'Failed to list API keys',
+        details: error.message
+      });
+    }
+  });
+
+  // POST /api/admin/accounts/:accountId/keys - Issue another API key for an account
+  fastify.post('/api/admin/accounts/:accountId/keys', async (request: FastifyRequest<{ Body: CreateKeyBody | undefined }>, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const { scope = 'user', label } = request.body || {};
+
+    if (!API_KEY_SCOPES.includes(scope)) {
+      return reply.status(400).send({
+        error: `scope must be one of: ${API_KEY_SCOPES.join(', ')}`
+      });
+    }
+    if (label !== undefined && (typeof label !== 'string' || label.length > 255)) {
+      return reply.status(400).send({
+        error: 'label must be a string of at most 255 characters'
+      });
+    }
+
+    try {
+      if (!(await getAccount(accountId))) {
+        return reply.status(404).send({
+          error: 'Account not found',
+          accountId
+        });
+      }
+
+      const apiKey = await issueApiKey(accountId, scope, label);
+      console.log(`🔑 ${scope} API key ${apiKey.keyId} issued for account ${accountId}`);
+      return reply.status(201).send(apiKey);  // `key` is shown only in this response
+
+    } catch (error: any) {
+      console.error('❌ Error issuing API key:', error);
+      return reply.status(500).send({
+        error: 'Failed to issue API key',
+        details: error.message
+      });
+    }
+  });
+
+  // GET /api/admin/accounts/:accountId/limits - Stored overrides, limits in force and today's usage
+  fastify.get('/api/admin/accounts/:accountId/limits', async (request, reply) => {
+    const { accountId } = request.params as { accountId: string };
+
+    try {
+      const settings = await getAccountLimitSettings(accountId);
+      if (!settings) {
+        return reply.status(404).send({
+          error: 'Account not found',
+          accountId
+        });
+      }
+
+      const limits = resolveAccountLimits(settings);
+      return reply.send({
+        accountId,
+        settings,  // Overrides (null = server default)
+        limits,  // What is enforced
+        usage: await getNotionalUsage(accountId, limits)  // Notional submitted today (UTC)
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error fetching account limits:', error);
+      return reply.status(500).send({
+        error: 'Failed to fetch account limits',
+        details: error.message
+      });
+    }
+  });
+
+  // PUT /api/admin/accounts/:accountId/limits - Change an account's rate limit and quotas (omitted fields stay as they are)
+  fastify.put('/api/admin/accounts/:accountId/limits', async (request: FastifyRequest<{ Body: UpdateLimitsBody | undefined }>, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const { ordersPerMinute, dailyNotionalUsd, tokenDailyNotionalUsd } = request.body || {};
+
+    if (ordersPerMinute !== undefined && ordersPerMinute !== null && (!Number.isInteger(ordersPerMinute) || ordersPerMinute < 1)) {
+      return reply.status(400).send({
+        error: 'ordersPerMinute must be a positive integer or null'
+      });
+    }
+    if (dailyNotionalUsd !== undefined && !isLimit(dailyNotionalUsd)) {
+      return reply.status(400).send({
+        error: 'dailyNotionalUsd must be a positive number or null'
+      });
+    }
+    if (tokenDailyNotionalUsd !== undefined && (typeof tokenDailyNotionalUsd !== 'object' || tokenDailyNotionalUsd === null ||
+        !Object.values(tokenDailyNotionalUsd).every(isLimit))) {
+      return reply.status(400).send({
+        error: 'tokenDailyNotionalUsd must map tokens to a positive number or null'
+      });
+    }
+    const unknownToken = Object.keys(tokenDailyNotionalUsd || {}).find(token => !tokenRegistry.find(token));
+    if (unknownToken !== undefined) {
+      return reply.status(400).send({
+        error: `Unknown token in tokenDailyNotionalUsd: ${unknownToken}`
+      });
+    }
+
+    try {
+      if (!(await getAccount(accountId))) {
+        return reply.status(404).send({
+          error: 'Account not found',
+          accountId
+        });
+      }
+
+      // Quotas are kept per normalized token, so a symbol and its mint share one
+      const tokenQuotas: Record<string, number | null> = {};
+      for (const [token, limit] of Object.entries(tokenDailyNotionalUsd || {})) {
+        tokenQuotas[normalizeToken(tokenRegistry.get(token).symbol)] = limit;
+      }
+
+      await updateAccountLimitSettings(accountId, { ordersPerMinute, dailyNotionalUsd, tokenDailyNotionalUsd: tokenQuotas });
+      const settings = await getAccountLimitSettings(accountId);
+      console.log(`🚦 Limits updated for account ${accountId}`);
+      return reply.send({
+        accountId,
+        settings,
+        limits: resolveAccountLimits(settings)
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error updating account limits:', error);
+      return reply.status(500).send({
+        error: 'Failed to update account limits',
+        details: error.message
+      });
+    }
+  });
+
+  // POST /api/admin/accounts/:accountId/deposits - Credit tokens to an account's simulated wallet
+  fastify.post('/api/admin/accounts/:accountId/deposits', async (request: FastifyRequest<{ Body: DepositBody | undefined }>, reply) => {
+    const { accountId } = request.params as { accountId: string };
+    const { token: tokenInput, amount: amountInput, amountBaseUnits, note } = request.body || {} as DepositBody;
+
+    if (!tokenInput || (amountInput === undefined && amountBaseUnits === undefined)) {
+      return reply.status(400).send({
+        error: 'Missing required fields: token, amount (or amountBaseUnits)'
+      });
+    }
+    if (note !== undefined && typeof note !== 'string') {
+      return reply.status(400).send({
+        error: 'note must be a string'
+      });
+    }
+
+    let token;
+    let amount: bigint;
+    try {
+      token = tokenRegistry.resolve(String(tokenInput));
+      amount = parseOrderAmount({ amountIn: amountInput, amountInBaseUnits: amountBaseUnits }, token);
+    } catch (error: any) {
+      return reply.status(400).send({
+        error: error.message
+      });
+    }
+    if (amount <= 0n) {
+      return reply.status(400).send({
+        error: 'Amount must be greater than 0'
+      });
+    }
+
+    try {
+      if (!(await getAccount(accountId))) {
+        return reply.status(404).send({
+          error: 'Account not found',
+          accountId
+        });
+      }
+
+      const balance = await balanceLedger.deposit(accountId, token.symbol, amount, note);
+      console.log(`💰 Deposited ${amount} base units of ${token.symbol} to account ${accountId}`);
+      return reply.status(201).send({
+        accountId,
+        deposited: amount.toString(),
+        balance
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error depositing funds:', error);
+      return reply.status(500).send({
+        error: 'Failed to deposit funds',
+        details: error.message
+      });
+    }
+  });
+
+  // DELETE /api/admin/keys/:keyId - Revoke an API key
+  fastify.delete('/api/admin/keys/:keyId', async (request, reply) => {
+    const { keyId } = request.params as { keyId: string };
+
+    try {
+      if (!(await revokeApiKey(keyId))) {
+        return reply.status(404).send({
+          error: 'API key not found or already revoked',
+          keyId
+        });
+      }
+
+      console.log(`🔑 API key ${keyId} revoked`);
+      return reply.send({ keyId, revoked: true });
+
+    } catch (error: any) {
+      console.error('❌ Error revoking API key:', error);
+      return reply.status(500).send({
+        error: 'Failed to revoke API key',
+        details: error.message
+      });
+    }
+  });
+
+  // GET /api/admin/dead-letters - Orders that exhausted their attempts, most recent first
+  fastify.get('/api/admin/dead-letters', async (request: FastifyRequest<{ Querystring: { offset?: string; limit?: string } }>, reply) => {
+    const offset = request.query.offset ? Number(request.query.offset) : 0;
+    const limit = request.query.limit ? Number(request.query.limit) : DEFAULT_PAGE_SIZE;
+
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return reply.status(400).send({
+        error: `offset must be 0 or more and limit between 1 and ${MAX_PAGE_SIZE}`
+      });
+    }
+
+    try {
+      const { total, entries } = await listDeadLetters(offset, limit);
+      return reply.send({
+        total,
+        deadLetters: entries.map(({ order, error, attempts, deadLetteredAt }) => ({
+          orderId: order.orderId,
+          orderType: order.orderType,
+          tokenIn: order.tokenIn,
+          tokenOut: order.tokenOut,
+          amountIn: order.amountIn,
+          slippage: order.slippage,
+          filledLegs: order.fills?.length || 0,
+          error,
+          attempts,
+          deadLetteredAt
+        }))
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error listing dead letters:', error);
+      return reply.status(500).send({
+        error: 'Failed to list dead-lettered orders',
+        details: error.message
+      });
+    }
+  });
+
+  // GET /api/admin/dead-letters/:orderId - Full picture of a dead-lettered order
+  fastify.get('/api/admin/dead-letters/:orderId', async (request, reply) => {
+    const { orderId } = request.params as { orderId: string };
+
+    try {
+      const entry = await getDeadLetter(orderId);
+
+      if (!entry) {
+        return reply.status(404).send({
+          error: 'Order is not in the dead-letter queue',
+          orderId
+        });
+      }
+
+      const [failures, events] = await Promise.all([getOrderFailures(orderId), getOrderEvents(orderId)]);
+      return reply.send({
+        ...entry,
+        failures,  // Post-mortems, one per time the order was dead-lettered
+        events  // Full event history
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error fetching dead letter:', error);
+      return reply.status(500).send({
+        error: 'Failed to fetch dead-lettered order',
+        details: error.message
+      });
+    }
+  });
+
+  // POST /api/admin/dead-letters/:orderId/requeue - Run a dead-lettered order again, keeping its orderId
+  fastify.post('/api/admin/dead-letters/:orderId/requeue', async (request: FastifyRequest<{ Body: RequeueBody | undefined }>, reply) => {
+    const { orderId } = request.params as { orderId: string };
+    const { slippage, dex } = request.body || {};
+
+    if (slippage !== undefined && (typeof slippage !== 'number' || !(slippage >= 0 && slippage < 1))) {
+      return reply.status(400).send({
+        error: 'slippage must be a number from 0 up to (not including) 1'
+      });
+    }
+
+    try {
+      const entry = await getDeadLetter(orderId);
+
+      if (!entry) {
+        return reply.status(404).send({
+          error: 'Order is not in the dead-letter queue',
+          orderId
+        });
+      }
+
+      // A forced DEX must list the pair the order trades
+      if (dex !== undefined && !dexRouter.getListedDexes(entry.order.tokenIn, entry.order.tokenOut).includes(dex)) {
+        return reply.status(400).send({
+          error: `dex must be a venue listing ${entry.order.tokenIn}/${entry.order.tokenOut}`,
+          dexes: dexRouter.getListedDexes(entry.order.tokenIn, entry.order.tokenOut)
+        });
+      }
+
+      const order = await requeueDeadLetter(orderId, { slippage, forcedDex: dex });
+      if (!order) {
+        return reply.status(409).send({
+          error: 'Order was requeued by another request',
+          orderId
+        });
+      }
+      if ('required' in order) {
+        return reply.status(409).send({
+          error: `Insufficient ${order.token} balance to requeue`,
+          orderId,
+          ...order
+        });
+      }
+
+      return reply.status(202).send({
+        orderId,
+        status: 'pending',
+        slippage: order.slippage,
+        forcedDex: order.forcedDex,
+        websocketUrl: `/api/orders/${orderId}/stream`
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error requeueing order:', error);
+      return reply.status(500).send({
+        error: 'Failed to requeue order',
+        details: error.message
+      });
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import { FastifyInstance } from 'fastify';  // Fastify types
+import { AuthContext } from '../types';  // Import type definitions
+import { issueWebSocketToken } from '../utils/auth';  // WebSocket tokens
+import { resolveAccountLimits, getNotionalUsage } from '../utils/rate-limits';  // Per-account limits
+import { getAccount, getAccountLimitSettings } from '../db/database';  // Database functions
+
+// Register authentication routes with Fastify
+export async function authRoutes(fastify: FastifyInstance) {
+
+  // GET /api/auth/me - Account, scope, limits and today's usage of the calling API key
+  fastify.get('/api/auth/me', async (request, reply) => {
+    const auth = request.auth as AuthContext;
+
+    try {
+      const account = await getAccount(auth.accountId);
+      const limits = resolveAccountLimits(await getAccountLimitSettings(auth.accountId));
+      return reply.send({
+        keyId: auth.keyId,
+        scope: auth.scope,
+        account,
+        limits,
+        usage: await getNotionalUsage(auth.accountId, limits)  // Notional submitted today (UTC)
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error fetching account:', error);
+      return reply.status(500).send({
+        error: 'Failed to fetch account',
+        details: error.message
+      });
+    }
+  });
+
+  // POST /api/auth/ws-token - Short-lived, single-use token for opening a WebSocket (?token=...)
+  fastify.post('/api/auth/ws-token', async (request, reply) => {
+    try {
+      const { token, expiresInSeconds } = await issueWebSocketToken(request.auth as AuthContext);
+      return reply.status(201).send({ token, expiresInSeconds });
+
+    } catch (error: any) {
+      console.error('❌ Error issuing WebSocket token:', error);
+      return reply.status(500).send({
+        error: 'Failed to issue WebSocket token',
+        details: error.message
+      });
+    }
+  });
+}
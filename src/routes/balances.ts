@@ -0,0 +1,116 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';  // Fastify types
+import { AuthContext } from '../types';  // Import type definitions
+import { balanceLedger } from '../db/balance-ledger';  // Simulated wallet balances
+import { getAccount } from '../db/database';  // Account lookup for admin queries
+import { tokenRegistry } from '../services/token-registry';  // Mints resolve to the symbols balances are kept by
+
+// Query string accepted by GET /api/balances
+interface BalanceQuerystring {
+  accountId?: string;  // Admin keys only: balances of this account (others always see their own)
+}
+
+// Query string accepted by GET /api/ledger
+interface LedgerQuerystring {
+  accountId?: string;  // Admin keys only: ledger of this account (others always see their own)
+  orderId?: string;  // Entries of one order
+  token?: string;  // Entries of one token (symbol or mint)
+  limit?: string;  // Page size
+  before?: string;  // entryId of the last entry on the previous page
+}
+
+// Page size limits for GET /api/ledger
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Account a balance query is about: the caller's own, or any existing account for admin keys.
+// Sends the error response and returns null when the caller may not see it.
+async function resolveAccount(request: FastifyRequest, accountId: string | undefined, reply: FastifyReply): Promise<string | null> {
+  const auth = request.auth as AuthContext;
+  if (accountId === undefined || accountId === auth.accountId) {
+    return auth.accountId;
+  }
+  if (auth.scope !== 'admin') {
+    reply.status(403).send({
+      error: 'accountId must be the account of your API key'
+    });
+    return null;
+  }
+  if (!(await getAccount(accountId))) {
+    reply.status(404).send({
+      error: 'Account not found',
+      accountId
+    });
+    return null;
+  }
+  return accountId;
+}
+
+// Register balance and ledger routes with Fastify
+export async function balanceRoutes(fastify: FastifyInstance) {
+
+  // GET /api/balances - Available and reserved amount of every token, in base units
+  fastify.get('/api/balances', async (request: FastifyRequest<{ Querystring: BalanceQuerystring }>, reply) => {
+    try {
+      const accountId = await resolveAccount(request, request.query.accountId, reply);
+      if (!accountId) {
+        return reply;
+      }
+
+      const balances = await balanceLedger.getBalances(accountId);
+      return reply.send({ accountId, balances });
+
+    } catch (error: any) {
+      console.error('❌ Error fetching balances:', error);
+      return reply.status(500).send({
+        error: 'Failed to fetch balances',
+        details: error.message
+      });
+    }
+  });
+
+  // GET /api/ledger - Every balance change of the account, newest first
+  fastify.get('/api/ledger', async (request: FastifyRequest<{ Querystring: LedgerQuerystring }>, reply) => {
+    const params = request.query;
+
+    try {
+      const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return reply.status(400).send({
+          error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+        });
+      }
+
+      const before = params.before ? Number(params.before) : undefined;
+      if (before !== undefined && (!Number.isInteger(before) || before < 1)) {
+        return reply.status(400).send({
+          error: 'before must be an entryId'
+        });
+      }
+
+      const accountId = await resolveAccount(request, params.accountId, reply);
+      if (!accountId) {
+        return reply;
+      }
+
+      const entries = await balanceLedger.listEntries({
+        accountId,
+        orderId: params.orderId,
+        token: params.token && (tokenRegistry.find(params.token)?.symbol ?? params.token),  // Mints match by symbol
+        limit,
+        before
+      });
+      return reply.send({
+        accountId,
+        entries,
+        nextBefore: entries.length === limit ? entries[entries.length - 1].entryId : null  // Pass as ?before= for the next page
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error listing ledger entries:', error);
+      return reply.status(500).send({
+        error: 'Failed to list ledger entries',
+        details: error.message
+      });
+    }
+  });
+}
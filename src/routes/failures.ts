@@ -0,0 +1,101 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';  // Fastify types
+import { FailureErrorType, FailureQuery, OrderStatus, OrderType } from '../types';  // Import type definitions
+import { listOrderFailures } from '../db/database';  // Database functions
+import { requireAdmin } from '../utils/auth';  // Failures span every account
+
+// Query string accepted by GET /api/failures
+interface FailureListQuerystring {
+  errorType?: string;  // SLIPPAGE_EXCEEDED/EXECUTION_FAILED/QUOTE_EXPIRED/TRANSACTION_EXPIRED/ROUTING_FAILED/INTERNAL_ERROR
+  dex?: string;  // Venue ID that appears in dexUsed
+  step?: string;  // Step the order failed at, e.g. 'submitted'
+  orderType?: string;  // market/limit/sniper
+  from?: string;  // ISO 8601, createdAt >= from
+  to?: string;  // ISO 8601, createdAt < to
+  limit?: string;  // Page size
+  before?: string;  // failureId of the last failure on the previous page
+}
+
+const FAILURE_ERROR_TYPES: FailureErrorType[] = ['SLIPPAGE_EXCEEDED', 'EXECUTION_FAILED', 'QUOTE_EXPIRED', 'TRANSACTION_EXPIRED', 'ROUTING_FAILED', 'INTERNAL_ERROR'];
+const FAILURE_STEPS: OrderStatus[] = ['pending', 'routing', 'building', 'submitted'];
+const ORDER_TYPES: OrderType[] = ['market', 'limit', 'sniper'];
+
+// Page size limits for GET /api/failures
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Register post-mortem routes with Fastify
+export async function failureRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', requireAdmin);  // Admin API keys only
+
+  // GET /api/failures - Post-mortem records of orders that exhausted their retries, newest first
+  fastify.get('/api/failures', async (request: FastifyRequest<{ Querystring: FailureListQuerystring }>, reply) => {
+    const params = request.query;
+
+    try {
+      if (params.errorType && !FAILURE_ERROR_TYPES.includes(params.errorType as FailureErrorType)) {
+        return reply.status(400).send({
+          error: `errorType must be one of: ${FAILURE_ERROR_TYPES.join(', ')}`
+        });
+      }
+
+      if (params.step && !FAILURE_STEPS.includes(params.step as OrderStatus)) {
+        return reply.status(400).send({
+          error: `step must be one of: ${FAILURE_STEPS.join(', ')}`
+        });
+      }
+
+      if (params.orderType && !ORDER_TYPES.includes(params.orderType as OrderType)) {
+        return reply.status(400).send({
+          error: `orderType must be one of: ${ORDER_TYPES.join(', ')}`
+        });
+      }
+
+      const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return reply.status(400).send({
+          error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+        });
+      }
+
+      const before = params.before ? Number(params.before) : undefined;
+      if (before !== undefined && (!Number.isInteger(before) || before < 1)) {
+        return reply.status(400).send({
+          error: 'before must be a failureId'
+        });
+      }
+
+      const createdFrom = params.from ? new Date(params.from) : undefined;
+      const createdTo = params.to ? new Date(params.to) : undefined;
+      if ((createdFrom && isNaN(createdFrom.getTime())) || (createdTo && isNaN(createdTo.getTime()))) {
+        return reply.status(400).send({
+          error: 'from and to must be valid ISO 8601 timestamps'
+        });
+      }
+
+      const query: FailureQuery = {
+        errorType: params.errorType as FailureErrorType | undefined,
+        dexUsed: params.dex,
+        failedStep: params.step as OrderStatus | undefined,
+        orderType: params.orderType as OrderType | undefined,
+        createdFrom,
+        createdTo,
+        limit,
+        before
+      };
+
+      const { failures, summary, nextBefore } = await listOrderFailures(query);
+      return reply.send({
+        failures,
+        summary,  // Counts over every matching failure, not just this page
+        nextBefore  // Pass as ?before= for the next page; null on the last page
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error listing failures:', error);
+      return reply.status(500).send({
+        error: 'Failed to list failures',
+        details: error.message
+      });
+    }
+  });
+}
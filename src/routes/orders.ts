@@ -1,19 +1,131 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';  // Fastify types
 import { v4 as uuidv4 } from 'uuid';  // Generate unique IDs
-import { OrderRequest, Order } from '../types';  // Import type definitions
-import { orderQueue } from '../workers/order-processor';  // Queue for job submission
+import { OrderRequest, Order, OrderStatus, WebSocketMessage, OrderType, OrderSortField, OrderListQuery, OrderCursor, OrderPage, AuthContext, TokenInfo, Quote, PriorityFeeSetting } from '../types';  // Import type definitions
+import { orderQueue, enqueueOrder, removeQueuedJob, requestCancellation, markCancelled } from '../workers/order-processor';  // Queue for job submission
+import { scheduleLimitCheck } from '../workers/limit-order-watcher';  // Price watcher for limit orders
+import { enqueueSniperOrder, unwatchSniperOrder } from '../workers/sniper-watcher';  // Pool listing watcher for sniper orders
 import { wsManager } from '../utils/websocket-manager';  // WebSocket manager
-import { saveOrder, getOrder } from '../db/database';  // Database functions
+import { statusBus } from '../utils/status-bus';  // Relays order context to every API instance
+import { canAccessOrder } from '../utils/auth';  // Order ownership
+import { resolveAccountLimits, checkOrderRate, reserveNotional, refundNotional, NotionalReservation } from '../utils/rate-limits';  // Per-account limits
+import {
+  getOrderFills, recordOrderEvent, getOrderEvents, getAccount, getAccountLimitSettings,
+  claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey
+} from '../db/database';  // Database functions
+import { orderRepository, TERMINAL_STATUSES } from '../db/order-repository';  // Typed orders table access
+import { hashRequestBody, MAX_IDEMPOTENCY_KEY_LENGTH } from '../utils/idempotency';  // Request fingerprints
+import { tokenRegistry, parseUnits } from '../services/token-registry';  // Token validation and base units
+import { getQuote, isQuoteExpired, lockQuote, releaseQuote } from '../utils/quotes';  // Firm quotes
+import { balanceLedger } from '../db/balance-ledger';  // Simulated wallet balances
+import { isPriorityFeeSetting, MAX_PRIORITY_FEE } from '../services/priority-fees';  // Priority fee validation
 
 // Define request body schema for validation
 interface OrderRequestBody {
   orderType: string;  // Order type: market, limit, sniper
-  tokenIn: string;  // Input token address
-  tokenOut: string;  // Output token address
-  amountIn: number;  // Amount to swap
+  tokenIn: string;  // Input token symbol or mint
+  tokenOut: string;  // Output token symbol or mint
+  amountIn?: number | string;  // Amount to swap in whole tokens, e.g. 1.5 or '1.5'
+  amountInBaseUnits?: string;  // Or: amount to swap in base units, e.g. '1500000000'
   slippage?: number;  // Optional slippage tolerance
+  limitPrice?: number;  // Limit orders: minimum tokenOut per tokenIn
+  expiresAt?: string;  // Limit orders: optional ISO 8601 expiry
+  maxPrice?: number;  // Sniper orders: maximum tokenIn paid per tokenOut
+  maxWaitMs?: number;  // Sniper orders: how long to wait for a pool
+  minLiquidity?: number;  // Sniper orders: minimum pool liquidity (USD)
+  accountId?: string;  // Admin keys only: place the order for this account instead of their own
+  quoteId?: string;  // Market orders: execute against this quote (other fields default to the quote's)
+  priorityFee?: PriorityFeeSetting;  // low/normal/turbo or microlamports per compute unit (default 'normal')
 }
 
+// Query string accepted by GET /api/orders
+interface OrderListQuerystring {
+  status?: string;  // Comma-separated statuses, e.g. 'confirmed,failed'
+  tokenIn?: string;  // Input token
+  tokenOut?: string;  // Output token
+  dex?: string;  // Venue ID that appears in dexUsed
+  orderType?: string;  // market/limit/sniper
+  from?: string;  // ISO 8601, createdAt >= from
+  to?: string;  // ISO 8601, createdAt < to
+  sort?: string;  // createdAt/updatedAt/amountIn
+  order?: string;  // asc/desc
+  limit?: string;  // Page size
+  cursor?: string;  // nextCursor from the previous page
+  accountId?: string;  // Admin keys only: orders of this account (others always see just their own)
+}
+
+const ORDER_STATUSES: OrderStatus[] = ['pending', 'waiting', 'routing', 'building', 'submitted', 'confirmed', 'failed', 'expired', 'cancelled'];
+const ORDER_TYPES: OrderType[] = ['market', 'limit', 'sniper'];
+
+// Whether a request field names an order type
+function isOrderType(value: unknown): value is OrderType {
+  return ORDER_TYPES.includes(value as OrderType);
+}
+const ORDER_SORT_FIELDS: OrderSortField[] = ['createdAt', 'updatedAt', 'amountIn'];
+
+// Page size limits for GET /api/orders
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Opaque cursor: the page position plus the sort it belongs to
+function encodeCursor(cursor: OrderCursor, sort: OrderSortField, direction: string): string {
+  return Buffer.from(JSON.stringify({ ...cursor, sort, direction })).toString('base64url');
+}
+
+// Decode a cursor, rejecting ones that are malformed or were issued for a different sort
+function decodeCursor(raw: string, sort: OrderSortField, direction: string): OrderCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof decoded.value !== 'string' || typeof decoded.orderId !== 'string' ||
+        decoded.sort !== sort || decoded.direction !== direction) {
+      return null;
+    }
+    return { value: decoded.value, orderId: decoded.orderId };
+  } catch {
+    return null;
+  }
+}
+
+// Topics a subscriber may hold: admin keys any, other keys their own account and its orders
+async function canSubscribe(auth: AuthContext, topic: string): Promise<boolean> {
+  if (auth.scope === 'admin' || topic === `account:${auth.accountId}`) {
+    return true;
+  }
+  if (topic.startsWith('order:')) {
+    const order = await orderRepository.findById(topic.slice('order:'.length));
+    return !!order && canAccessOrder(auth, order);
+  }
+  return false;  // Pair topics and the firehose span every account
+}
+
+// Input amount of an order or quote in base units, from amountIn (whole tokens) or amountInBaseUnits (integer string)
+export function parseOrderAmount(body: Pick<OrderRequestBody, 'amountIn' | 'amountInBaseUnits'>, token: TokenInfo): bigint {
+  if (body.amountIn !== undefined && body.amountInBaseUnits !== undefined) {
+    throw new Error('Send either amountIn or amountInBaseUnits, not both');
+  }
+  if (body.amountInBaseUnits !== undefined) {
+    if (typeof body.amountInBaseUnits !== 'string' || !/^\d+$/.test(body.amountInBaseUnits)) {
+      throw new Error('amountInBaseUnits must be a string of digits');
+    }
+    return BigInt(body.amountInBaseUnits);
+  }
+  if (typeof body.amountIn === 'number' && !(body.amountIn > 0)) {
+    throw new Error('Amount must be greater than 0');
+  }
+  const amount = typeof body.amountIn === 'number'
+    ? body.amountIn.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })  // Plain digits, never an exponent
+    : body.amountIn;
+  if (typeof amount !== 'string') {
+    throw new Error('amountIn must be a number or a decimal string');
+  }
+  return parseUnits(amount, token.decimals);  // Exact: more decimals than the token has are refused
+}
+
+// Longest a sniper order may wait for a pool
+const SNIPER_MAX_WAIT_MS = parseInt(process.env.SNIPER_MAX_WAIT_MS || '3600000');
+
+// How long an Idempotency-Key is remembered before it may be reused
+const IDEMPOTENCY_KEY_TTL_SECONDS = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24') * 3600;
+
 // Register order routes with Fastify
 export async function orderRoutes(fastify: FastifyInstance) {
   
@@ -26,74 +138,372 @@ export async function orderRoutes(fastify: FastifyInstance) {
   
   // POST /api/orders/execute - Create order and return orderId
   fastify.post('/api/orders/execute', async (request: FastifyRequest<{ Body: OrderRequestBody }>, reply) => {
+    let claimedKey: string | undefined;  // Idempotency-Key claimed by this request
+    let reservation: NotionalReservation | undefined;  // Quota taken by this request
+    let lockedQuote: { quoteId: string; orderId: string } | undefined;  // Quote locked by this request
+    let heldFunds: string | undefined;  // Order whose funds this request reserved
+    
     try {
       console.log('\n📨 New order received via POST');  // Log incoming order
       
+      const caller = request.auth as AuthContext;
+      
+      // A retried request with the same Idempotency-Key gets the original order instead of a new one, whatever
+      // happened since (quote spent or expired, funds moved), without counting against the rate limit; a claimed
+      // key is released unless an order is created
+      const idempotencyKey = request.headers['idempotency-key'] as string | undefined;
+      if (idempotencyKey !== undefined) {
+        if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+          return reply.status(400).send({
+            error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+          });
+        }
+        
+        const requestHash = hashRequestBody(request.body);
+        const scopedKey = `${caller.accountId}:${idempotencyKey}`;  // Accounts can't collide with, or replay, each other's keys
+        const existing = await claimIdempotencyKey(scopedKey, requestHash, IDEMPOTENCY_KEY_TTL_SECONDS);
+        
+        if (existing) {
+          if (existing.request_hash !== requestHash) {
+            return reply.status(409).send({
+              error: 'Idempotency-Key was already used with a different request body',
+              idempotencyKey
+            });
+          }
+          if (!existing.response) {
+            return reply.status(409).send({
+              error: 'A request with this Idempotency-Key is still being processed',
+              idempotencyKey
+            });
+          }
+          
+          console.log(`♻️  Idempotent replay of order ${existing.order_id} (key ${idempotencyKey})`);
+          return reply.status(existing.status_code)
+            .header('Idempotent-Replayed', 'true')
+            .send(existing.response);
+        }
+        claimedKey = scopedKey;
+      }
+      
+      // Per-account submission rate (every attempt but a replay counts, valid or not)
+      const rate = await checkOrderRate(caller.accountId, resolveAccountLimits(await getAccountLimitSettings(caller.accountId)).ordersPerMinute);
+      reply.header('X-RateLimit-Limit', rate.limit).header('X-RateLimit-Remaining', rate.remaining);
+      if (!rate.allowed) {
+        return reply.status(429).header('Retry-After', rate.retryAfterSeconds).send({
+          error: `Rate limit exceeded: at most ${rate.limit} orders per minute`,
+          retryAfterSeconds: rate.retryAfterSeconds
+        });
+      }
+      
+      // Executing a quote: fields the body leaves out are the quote's, so the order trades what was quoted
+      let quote: Quote | null = null;
+      if (request.body.quoteId !== undefined) {
+        quote = typeof request.body.quoteId === 'string' ? await getQuote(request.body.quoteId) : null;
+        if (!quote) {
+          return reply.status(404).send({
+            error: 'Quote not found',
+            quoteId: request.body.quoteId
+          });
+        }
+      }
+      
       // Extract and validate order data from request body
-      const orderRequest = request.body;
+      const orderRequest: OrderRequestBody = quote ? {
+        ...request.body,
+        orderType: request.body.orderType ?? 'market',
+        tokenIn: request.body.tokenIn ?? quote.tokenIn,
+        tokenOut: request.body.tokenOut ?? quote.tokenOut,
+        amountInBaseUnits: request.body.amountIn === undefined ? request.body.amountInBaseUnits ?? quote.amountIn : request.body.amountInBaseUnits,
+        slippage: request.body.slippage ?? quote.slippage,
+        priorityFee: request.body.priorityFee ?? quote.priorityFee
+      } : request.body;
       
       // Validate required fields
-      if (!orderRequest.tokenIn || !orderRequest.tokenOut || !orderRequest.amountIn) {
+      if (!orderRequest.tokenIn || !orderRequest.tokenOut || (!orderRequest.amountIn && !orderRequest.amountInBaseUnits)) {
+        return reply.status(400).send({
+          error: 'Missing required fields: tokenIn, tokenOut, amountIn (or amountInBaseUnits)'
+        });
+      }
+      
+      // Validate order type
+      const orderType = orderRequest.orderType;
+      if (!isOrderType(orderType)) {
         return reply.status(400).send({
-          error: 'Missing required fields: tokenIn, tokenOut, amountIn'
+          error: 'orderType must be one of: market, limit, sniper'
         });
       }
       
-      // Validate order type (we only support market orders)
-      if (orderRequest.orderType !== 'market') {
+      // Both tokens must be registered and enabled; orders store them by symbol however they were named
+      let tokenIn: TokenInfo;
+      let tokenOut: TokenInfo;
+      try {
+        tokenIn = tokenRegistry.resolve(String(orderRequest.tokenIn));
+        tokenOut = tokenRegistry.resolve(String(orderRequest.tokenOut));
+      } catch (error: any) {
         return reply.status(400).send({
-          error: 'Only market orders are supported in this implementation'
+          error: error.message
         });
       }
       
-      // Validate amount is positive
-      if (orderRequest.amountIn <= 0) {
+      // Validate amount: exact base units of tokenIn, greater than 0
+      let amountIn: bigint;
+      try {
+        amountIn = parseOrderAmount(orderRequest, tokenIn);
+      } catch (error: any) {
+        return reply.status(400).send({
+          error: error.message
+        });
+      }
+      if (amountIn <= 0n) {
         return reply.status(400).send({
           error: 'Amount must be greater than 0'
         });
       }
       
+      // Slippage tolerance: a fraction of the quoted output, 0 meaning the quote or nothing
+      if (orderRequest.slippage !== undefined && (typeof orderRequest.slippage !== 'number' || !(orderRequest.slippage >= 0 && orderRequest.slippage < 1))) {
+        return reply.status(400).send({
+          error: 'slippage must be a number from 0 up to (not including) 1'
+        });
+      }
+      
+      // Priority fee: a named level re-estimated for every transaction, or a fixed price
+      if (orderRequest.priorityFee !== undefined && !isPriorityFeeSetting(orderRequest.priorityFee)) {
+        return reply.status(400).send({
+          error: `priorityFee must be low, normal, turbo or an integer from 0 to ${MAX_PRIORITY_FEE} (microlamports per compute unit)`
+        });
+      }
+      
+      // A quote is only good for the market order it priced
+      if (quote) {
+        if (orderRequest.orderType !== 'market') {
+          return reply.status(400).send({
+            error: 'Quotes can only be executed as market orders'
+          });
+        }
+        if (tokenIn.symbol !== quote.tokenIn || tokenOut.symbol !== quote.tokenOut || amountIn.toString() !== quote.amountIn) {
+          return reply.status(400).send({
+            error: 'Order does not match the quote: tokenIn, tokenOut and amount must be the quoted ones',
+            quoteId: quote.quoteId
+          });
+        }
+      }
+      
+      // Orders belong to the caller's account; admin keys may place them for another account
+      const auth = request.auth as AuthContext;
+      let accountId = auth.accountId;
+      if (orderRequest.accountId !== undefined && orderRequest.accountId !== auth.accountId) {
+        if (auth.scope !== 'admin') {
+          return reply.status(403).send({
+            error: 'accountId must be the account of your API key'
+          });
+        }
+        if (typeof orderRequest.accountId !== 'string' || !(await getAccount(orderRequest.accountId))) {
+          return reply.status(400).send({
+            error: 'accountId must be an existing account'
+          });
+        }
+        accountId = orderRequest.accountId;
+      }
+      
+      // Quotes belong to the account that requested them; other accounts' quotes look the same as missing ones
+      if (quote) {
+        if (quote.accountId !== accountId) {
+          return reply.status(404).send({
+            error: 'Quote not found',
+            quoteId: quote.quoteId
+          });
+        }
+        if (isQuoteExpired(quote)) {
+          return reply.status(410).send({
+            error: 'Quote expired: request a new quote',
+            quoteId: quote.quoteId,
+            expiresAt: quote.expiresAt
+          });
+        }
+      }
+      
+      // Validate limit order parameters
+      let expiresAt: Date | undefined;
+      if (orderRequest.orderType === 'limit') {
+        if (typeof orderRequest.limitPrice !== 'number' || !Number.isFinite(orderRequest.limitPrice) || orderRequest.limitPrice <= 0) {
+          return reply.status(400).send({
+            error: 'Limit orders require a limitPrice greater than 0'
+          });
+        }
+        
+        if (orderRequest.expiresAt) {
+          expiresAt = new Date(orderRequest.expiresAt);
+          if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+            return reply.status(400).send({
+              error: 'expiresAt must be a valid future ISO 8601 timestamp'
+            });
+          }
+        }
+      }
+      
+      // Validate sniper order parameters
+      if (orderRequest.orderType === 'sniper') {
+        if (typeof orderRequest.maxPrice !== 'number' || !Number.isFinite(orderRequest.maxPrice) || orderRequest.maxPrice <= 0) {
+          return reply.status(400).send({
+            error: 'Sniper orders require a maxPrice greater than 0'
+          });
+        }
+        
+        if (typeof orderRequest.maxWaitMs !== 'number' || !Number.isInteger(orderRequest.maxWaitMs) || orderRequest.maxWaitMs <= 0 || orderRequest.maxWaitMs > SNIPER_MAX_WAIT_MS) {
+          return reply.status(400).send({
+            error: `Sniper orders require a maxWaitMs between 1 and ${SNIPER_MAX_WAIT_MS} (whole milliseconds)`
+          });
+        }
+        
+        if (typeof orderRequest.minLiquidity !== 'number' || !Number.isFinite(orderRequest.minLiquidity) || orderRequest.minLiquidity < 0) {
+          return reply.status(400).send({
+            error: 'Sniper orders require a minLiquidity of 0 or more'
+          });
+        }
+        
+        expiresAt = new Date(Date.now() + orderRequest.maxWaitMs);  // Deadline for the pool to appear
+      }
+      
+      // Daily notional quotas of the order's account (and of the tokens it trades)
+      const quota = await reserveNotional(accountId, resolveAccountLimits(await getAccountLimitSettings(accountId)), {
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        amountIn: amountIn.toString()
+      });
+      if ('exceeded' in quota) {
+        const { exceeded } = quota;
+        return reply.status(429).header('Retry-After', exceeded.retryAfterSeconds).send({
+          error: exceeded.quota === 'account'
+            ? `Daily notional quota of $${exceeded.limitUsd} exceeded`
+            : `Daily notional quota of $${exceeded.limitUsd} for ${exceeded.token} exceeded`,
+          ...exceeded
+        });
+      }
+      reservation = quota.reservation;
+      
       // Generate unique order ID
       const orderId = uuidv4();
       console.log(`📝 Generated order ID: ${orderId}`);
       
+      // Lock the quote to this order: a quote executes at most once
+      if (quote) {
+        if (!(await lockQuote(quote, orderId))) {
+          await refundNotional(reservation);  // No order was created: give its notional back
+          reservation = undefined;
+          return reply.status(409).send({
+            error: 'Quote already used by another order',
+            quoteId: quote.quoteId
+          });
+        }
+        lockedQuote = { quoteId: quote.quoteId, orderId };
+      }
+      
+      // Hold the input (and the network fee allowance) in the account's wallet until the order finishes
+      const shortfall = await balanceLedger.reserve(accountId, orderId, [{ token: tokenIn.symbol, amount: amountIn }]);
+      if (shortfall) {
+        await refundNotional(reservation);  // No order was created: give its notional back
+        reservation = undefined;
+        if (lockedQuote) {
+          await releaseQuote(lockedQuote.quoteId, lockedQuote.orderId);  // No order was created: the quote can still be used
+          lockedQuote = undefined;
+        }
+        return reply.status(400).send({
+          error: `Insufficient ${shortfall.token} balance`,
+          ...shortfall
+        });
+      }
+      heldFunds = orderId;
+      
       // Create complete order object
       const order: Order = {
         orderId,
-        orderType: orderRequest.orderType as any,
-        tokenIn: orderRequest.tokenIn,
-        tokenOut: orderRequest.tokenOut,
-        amountIn: orderRequest.amountIn,
-        slippage: orderRequest.slippage || 0.01,
-        status: 'pending',
+        orderType,
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        amountIn: amountIn.toString(),
+        slippage: orderRequest.slippage ?? 0.01,
+        status: orderRequest.orderType === 'market' ? 'pending' : 'waiting',
+        limitPrice: orderRequest.orderType === 'limit' ? orderRequest.limitPrice : undefined,
+        expiresAt,
+        maxPrice: orderRequest.orderType === 'sniper' ? orderRequest.maxPrice : undefined,
+        maxWaitMs: orderRequest.orderType === 'sniper' ? orderRequest.maxWaitMs : undefined,
+        minLiquidity: orderRequest.orderType === 'sniper' ? orderRequest.minLiquidity : undefined,
+        idempotencyKey,
+        accountId,
+        quoteId: quote?.quoteId,
+        priorityFee: orderRequest.priorityFee ?? 'normal',
         createdAt: new Date(),
         updatedAt: new Date()
       };
       
+      const response = {
+        orderId,
+        message: 'Order created successfully',
+        websocketUrl: `/api/orders/${orderId}/stream`,
+        instructions: 'Connect to WebSocket URL to receive real-time status updates'
+      };
+      
       // Save order to database
-      await saveOrder(order);
+      await orderRepository.create(order);
       console.log(`💾 Order ${orderId} saved to database`);
+      reservation = undefined;  // The order exists, its notional stays counted
+      lockedQuote = undefined;  // The quote is spent on it
+      heldFunds = undefined;  // Its funds stay reserved until it finishes
       
-      // Add order to processing queue
-      await orderQueue.add('process-order', order, {
-        jobId: orderId,
-      });
-      console.log(`📋 Order ${orderId} added to processing queue`);
+      // Remember the response as soon as the order exists, so a retry can never create a second one
+      if (claimedKey) {
+        await completeIdempotencyKey(claimedKey, orderId, 201, response);
+        claimedKey = undefined;  // Key now belongs to this order
+      }
+      
+      statusBus.trackOrder(order);  // Pair and account topics follow the order from here on, on every instance
+      
+      // First entry of the order's event history (no stream is connected yet)
+      await recordOrderEvent(orderId, 'status', order.status, order.orderType === 'limit' ? {
+        limitPrice: order.limitPrice,
+        expiresAt: order.expiresAt
+      } : order.orderType === 'sniper' ? {
+        maxPrice: order.maxPrice,
+        expiresAt: order.expiresAt
+      } : undefined);
+      
+      if (order.orderType === 'limit') {
+        // Park limit order and start re-quoting it immediately
+        await scheduleLimitCheck(order, 0);
+        console.log(`⏳ Limit order ${orderId} waiting for price ${order.limitPrice}`);
+      } else if (order.orderType === 'sniper') {
+        // Watch for a pool listing on any supported DEX
+        await enqueueSniperOrder(order);
+        console.log(`🎯 Sniper order ${orderId} waiting for a ${order.tokenIn}/${order.tokenOut} pool`);
+      } else {
+        // Add order to processing queue
+        await enqueueOrder(order);
+        console.log(`📋 Order ${orderId} added to processing queue`);
+      }
       
       // Return orderId immediately (HTTP response)
-      return reply.status(201).send({
-        orderId,
-        message: 'Order created successfully',
-        websocketUrl: `/api/orders/${orderId}/stream`,
-        instructions: 'Connect to WebSocket URL to receive real-time status updates'
-      });
+      return reply.status(201).send(response);
       
     } catch (error: any) {
       console.error('❌ Error creating order:', error);
+      if (reservation) {
+        await refundNotional(reservation).catch(() => undefined);  // No order was created: give its notional back
+      }
+      if (lockedQuote) {
+        await releaseQuote(lockedQuote.quoteId, lockedQuote.orderId).catch(() => undefined);  // No order was created: the quote can still be used
+      }
+      if (heldFunds) {
+        await balanceLedger.releaseOrder(heldFunds, 'release').catch(() => undefined);  // No order was created: free its funds
+      }
       return reply.status(500).send({
         error: 'Failed to create order',
         details: error.message
       });
+    } finally {
+      if (claimedKey) {
+        await releaseIdempotencyKey(claimedKey).catch(() => undefined);  // No order was created: let the client retry with the same key
+      }
     }
   });
   
@@ -104,10 +514,10 @@ export async function orderRoutes(fastify: FastifyInstance) {
     console.log(`\n🔌 WebSocket connection established for order: ${orderId}`);
     
     try {
-      // Verify order exists
-      const order = await getOrder(orderId);
+      // Verify order exists and belongs to the caller
+      const order = await orderRepository.findById(orderId);
       
-      if (!order) {
+      if (!order || !canAccessOrder(request.auth, order)) {
         connection.socket.send(JSON.stringify({
           error: 'Order not found',
           orderId
@@ -120,29 +530,70 @@ export async function orderRoutes(fastify: FastifyInstance) {
       wsManager.registerConnection(orderId, connection.socket);
       console.log(`🔌 WebSocket registered for order ${orderId}`);
       
+      // Replay the history recorded so far. Registering first means nothing is missed; an update
+      // published meanwhile may arrive twice, with the same eventId.
+      const events = await getOrderEvents(orderId);
+      for (const event of events) {
+        const message: WebSocketMessage = {
+          orderId,
+          status: event.status,
+          data: event.data || undefined,
+          eventId: event.eventId,
+          event: event.type,
+          replayed: true,
+          timestamp: event.createdAt
+        };
+        connection.socket.send(JSON.stringify(message));
+      }
+      if (events.length > 0) {
+        console.log(`📼 Replayed ${events.length} event(s) for order ${orderId}`);
+      }
+      
       // Send current status immediately
       connection.socket.send(JSON.stringify({
         orderId,
         status: order.status,
         message: 'Connected - streaming status updates',
+        data: order.orderType === 'limit' ? {
+          limitPrice: order.limitPrice,
+          currentPrice: order.lastQuotedPrice,
+          priceDistance: order.priceDistance,
+          expiresAt: order.expiresAt
+        } : order.orderType === 'sniper' ? {
+          maxPrice: order.maxPrice,
+          expiresAt: order.expiresAt
+        } : undefined,
         timestamp: new Date()
       }));
       
-      // If order is already completed or failed, send final status
-      if (order.status === 'confirmed') {
+      // Finished orders: the replay already ended with the final update
+      if (events.length > 0 && TERMINAL_STATUSES.includes(order.status)) {
+        setTimeout(() => {
+          wsManager.closeConnection(orderId);
+        }, 1000);
+      
+      // Orders recorded before event history existed: send the final status from the orders row
+      } else if (order.status === 'confirmed') {
         wsManager.sendUpdate(orderId, 'confirmed', {
-          txHash: order.tx_hash,
-          executedPrice: parseFloat(order.executed_price),
-          amountOut: parseFloat(order.amount_out),
-          dexUsed: order.dex_used
+          txHash: order.txHash,
+          executedPrice: order.executedPrice,
+          amountOut: order.amountOut,
+          quotedAmountOut: order.quotedAmountOut,
+          slippageBps: order.slippageBps,
+          networkFee: order.networkFee,
+          priorityFeePaid: order.priorityFeePaid,
+          dexUsed: order.dexUsed,
+          routePath: order.routePath,
+          fills: await getOrderFills(orderId)
         });
         
         setTimeout(() => {
           wsManager.closeConnection(orderId);
         }, 1000);
-      } else if (order.status === 'failed') {
-        wsManager.sendUpdate(orderId, 'failed', {
-          error: order.error
+      } else if (order.status === 'failed' || order.status === 'expired' || order.status === 'cancelled') {
+        wsManager.sendUpdate(orderId, order.status, {
+          error: order.error,
+          failureReason: order.failureReason
         });
         
         setTimeout(() => {
@@ -162,22 +613,160 @@ export async function orderRoutes(fastify: FastifyInstance) {
     }
   });
   
+  // GET /api/ws - General WebSocket: subscribe to orders by topic over the socket
+  // {"action":"subscribe","topic":"order:<orderId>" | "pair:SOL/USDC" | "account:<accountId>" | "all"}
+  // Non-admin keys may subscribe to their own account and orders only
+  fastify.get('/api/ws', { websocket: true }, (connection, request) => {
+    const auth = request.auth as AuthContext;
+    wsManager.registerSubscriber(connection.socket, topic => canSubscribe(auth, topic));
+    connection.socket.send(JSON.stringify({
+      type: 'connected',
+      message: "Send {\"action\":\"subscribe\",\"topic\":\"...\"} to receive order updates"
+    }));
+  });
+  
+  // GET /api/orders/:orderId/events - Full event history of an order, oldest first
+  fastify.get('/api/orders/:orderId/events', async (request, reply) => {
+    const { orderId } = request.params as { orderId: string };
+    
+    try {
+      const order = await orderRepository.findById(orderId);
+      
+      // Other accounts' orders look the same as missing ones
+      if (!order || !canAccessOrder(request.auth, order)) {
+        return reply.status(404).send({
+          error: 'Order not found',
+          orderId
+        });
+      }
+      
+      const events = await getOrderEvents(orderId);
+      return reply.send({ orderId, events });
+      
+    } catch (error: any) {
+      console.error('❌ Error fetching order events:', error);
+      return reply.status(500).send({
+        error: 'Failed to fetch order events',
+        details: error.message
+      });
+    }
+  });
+  
+  // GET /api/orders - List and search orders (cursor-paginated, camelCase)
+  fastify.get('/api/orders', async (request: FastifyRequest<{ Querystring: OrderListQuerystring }>, reply) => {
+    const params = request.query;
+    
+    try {
+      const statuses = params.status ? params.status.split(',').map(status => status.trim()) : undefined;
+      if (statuses && !statuses.every(status => ORDER_STATUSES.includes(status as OrderStatus))) {
+        return reply.status(400).send({
+          error: `status must be a comma-separated list of: ${ORDER_STATUSES.join(', ')}`
+        });
+      }
+      
+      if (params.orderType && !isOrderType(params.orderType)) {
+        return reply.status(400).send({
+          error: `orderType must be one of: ${ORDER_TYPES.join(', ')}`
+        });
+      }
+      
+      const sort = (params.sort || 'createdAt') as OrderSortField;
+      if (!ORDER_SORT_FIELDS.includes(sort)) {
+        return reply.status(400).send({
+          error: `sort must be one of: ${ORDER_SORT_FIELDS.join(', ')}`
+        });
+      }
+      
+      const direction = params.order || 'desc';
+      if (direction !== 'asc' && direction !== 'desc') {
+        return reply.status(400).send({
+          error: 'order must be asc or desc'
+        });
+      }
+      
+      const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return reply.status(400).send({
+          error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`
+        });
+      }
+      
+      const createdFrom = params.from ? new Date(params.from) : undefined;
+      const createdTo = params.to ? new Date(params.to) : undefined;
+      if ((createdFrom && isNaN(createdFrom.getTime())) || (createdTo && isNaN(createdTo.getTime()))) {
+        return reply.status(400).send({
+          error: 'from and to must be valid ISO 8601 timestamps'
+        });
+      }
+      
+      // Non-admin keys only ever see their own account's orders
+      const auth = request.auth as AuthContext;
+      if (params.accountId !== undefined && params.accountId !== auth.accountId && auth.scope !== 'admin') {
+        return reply.status(403).send({
+          error: 'accountId must be the account of your API key'
+        });
+      }
+      
+      let after: OrderCursor | undefined;
+      if (params.cursor) {
+        const cursor = decodeCursor(params.cursor, sort, direction);
+        if (!cursor) {
+          return reply.status(400).send({
+            error: 'Invalid cursor for this sort order'
+          });
+        }
+        after = cursor;
+      }
+      
+      const query: OrderListQuery = {
+        statuses: statuses as OrderStatus[] | undefined,
+        tokenIn: params.tokenIn && (tokenRegistry.find(params.tokenIn)?.symbol ?? params.tokenIn),  // Mints match by symbol
+        tokenOut: params.tokenOut && (tokenRegistry.find(params.tokenOut)?.symbol ?? params.tokenOut),
+        dexUsed: params.dex,
+        orderType: params.orderType as OrderType | undefined,
+        createdFrom,
+        createdTo,
+        accountId: auth.scope === 'admin' ? params.accountId : auth.accountId,
+        sort,
+        direction,
+        limit,
+        after
+      };
+      
+      const { orders, nextCursor } = await orderRepository.list(query);
+      const page: OrderPage = {
+        orders,
+        nextCursor: nextCursor ? encodeCursor(nextCursor, sort, direction) : null
+      };
+      return reply.send(page);
+      
+    } catch (error: any) {
+      console.error('❌ Error listing orders:', error);
+      return reply.status(500).send({
+        error: 'Failed to list orders',
+        details: error.message
+      });
+    }
+  });
+  
   // GET /api/orders/:orderId - Get order status by ID
   fastify.get('/api/orders/:orderId', async (request, reply) => {
     const { orderId } = request.params as { orderId: string };
     console.log(`🔍 Fetching order: ${orderId}`);
     
     try {
-      const order = await getOrder(orderId);
+      const order = await orderRepository.findById(orderId);
       
-      if (!order) {
+      // Other accounts' orders look the same as missing ones
+      if (!order || !canAccessOrder(request.auth, order)) {
         return reply.status(404).send({
           error: 'Order not found',
           orderId
         });
       }
       
-      return reply.send(order);
+      // Include per-leg fills (several when the order was split or multi-hop)
+      return reply.send({ ...order, fills: await getOrderFills(orderId) });
       
     } catch (error: any) {
       console.error(`❌ Error fetching order ${orderId}:`, error);
@@ -188,13 +777,91 @@ export async function orderRoutes(fastify: FastifyInstance) {
     }
   });
   
+  // DELETE /api/orders/:orderId - Cancel an order that hasn't been submitted yet
+  fastify.delete('/api/orders/:orderId', async (request, reply) => {
+    const { orderId } = request.params as { orderId: string };
+    console.log(`🛑 Cancellation requested for order: ${orderId}`);
+    
+    try {
+      const order = await orderRepository.findById(orderId);
+      
+      // Other accounts' orders look the same as missing ones
+      if (!order || !canAccessOrder(request.auth, order)) {
+        return reply.status(404).send({
+          error: 'Order not found',
+          orderId
+        });
+      }
+      
+      // Terminal orders have nothing left to cancel
+      if (TERMINAL_STATUSES.includes(order.status)) {
+        return reply.status(409).send({
+          error: `Order already ${order.status}`,
+          orderId,
+          status: order.status
+        });
+      }
+      
+      // Limit/sniper orders parked by a watcher: the limit watcher drops non-waiting orders on its next check
+      if (order.status === 'waiting') {
+        if (order.orderType === 'sniper') {
+          unwatchSniperOrder(orderId);  // Watchers in other processes drop it when the cancellation is published
+        }
+        await requestCancellation(orderId);  // Also stops a trigger that fires while we cancel
+        if (await markCancelled(orderId, 'waiting')) {
+          return reply.send({ orderId, status: 'cancelled' });
+        }
+        // Triggered meanwhile: the order is now pending, fall through to cancel it as a queued job
+      }
+      
+      // Jobs not currently running (queued, or waiting out a retry backoff) can simply be removed
+      const job = await orderQueue.getJob(orderId);
+      const state = job ? await job.getState() : undefined;
+      if (job && (state === 'waiting' || state === 'delayed' || state === 'prioritized')) {
+        try {
+          await removeQueuedJob(job);
+          if (await markCancelled(orderId, state === 'delayed' ? 'awaiting retry' : 'queued')) {
+            return reply.send({ orderId, status: 'cancelled' });
+          }
+        } catch (error: any) {
+          console.log(`⏭️  Job ${orderId} was picked up while cancelling, falling back to checkpoint`);  // Worker got there first
+        }
+      }
+      
+      // Once swaps are on their way to the chain the order must run to completion
+      if (order.status === 'submitted') {
+        return reply.status(409).send({
+          error: 'Order already submitted and can no longer be cancelled',
+          orderId,
+          status: order.status
+        });
+      }
+      
+      // Running in routing/building: the worker stops at its next checkpoint
+      await requestCancellation(orderId);
+      return reply.status(202).send({
+        orderId,
+        status: order.status,
+        message: 'Cancellation requested; the order will stop before it is submitted'
+      });
+      
+    } catch (error: any) {
+      console.error(`❌ Error cancelling order ${orderId}:`, error);
+      return reply.status(500).send({
+        error: 'Failed to cancel order',
+        details: error.message
+      });
+    }
+  });
+  
   // GET /api/health - Health check endpoint
-  fastify.get('/api/health', async (request, reply) => {
+  fastify.get('/api/health', { config: { public: true } }, async (request, reply) => {
     return reply.send({
       status: 'ok',
       timestamp: new Date(),
       queue: {
-        activeConnections: wsManager.getActiveConnectionsCount()
+        activeConnections: wsManager.getActiveConnectionsCount(),
+        firehoseSubscribers: wsManager.getSubscriberCount('all')
       }
     });
   });
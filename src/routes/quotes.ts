@@ -0,0 +1,119 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';  // Fastify types
+import { AuthContext, PriorityFeeSetting, TokenInfo } from '../types';  // Import type definitions
+import { tokenRegistry } from '../services/token-registry';  // Token validation
+import { priorityFees, isPriorityFeeSetting, MAX_PRIORITY_FEE } from '../services/priority-fees';  // Priority fee estimates
+import { createQuote } from '../utils/quotes';  // Firm quotes
+import { parseOrderAmount } from './orders';  // Amounts are given the same way as for orders
+
+// Request body accepted by POST /api/quotes
+interface QuoteRequestBody {
+  tokenIn: string;  // Input token symbol or mint
+  tokenOut: string;  // Output token symbol or mint
+  amountIn?: number | string;  // Amount to swap in whole tokens, e.g. 1.5 or '1.5'
+  amountInBaseUnits?: string;  // Or: amount to swap in base units, e.g. '1500000000'
+  slippage?: number;  // Tolerance the order will accept vs. the quoted output (default 0.01)
+  priorityFee?: PriorityFeeSetting;  // low/normal/turbo or microlamports per compute unit (default 'normal')
+}
+
+// Register quote routes with Fastify
+export async function quoteRoutes(fastify: FastifyInstance) {
+
+  // POST /api/quotes - Quote every venue, pick a route and hold it for QUOTE_TTL_MS.
+  // POST /api/orders/execute with the returned quoteId executes exactly that route.
+  fastify.post('/api/quotes', async (request: FastifyRequest<{ Body: QuoteRequestBody }>, reply) => {
+    const body = request.body;
+
+    try {
+      if (!body.tokenIn || !body.tokenOut || (!body.amountIn && !body.amountInBaseUnits)) {
+        return reply.status(400).send({
+          error: 'Missing required fields: tokenIn, tokenOut, amountIn (or amountInBaseUnits)'
+        });
+      }
+
+      let tokenIn: TokenInfo;
+      let tokenOut: TokenInfo;
+      let amountIn: bigint;
+      try {
+        tokenIn = tokenRegistry.resolve(String(body.tokenIn));
+        tokenOut = tokenRegistry.resolve(String(body.tokenOut));
+        amountIn = parseOrderAmount(body, tokenIn);
+      } catch (error: any) {
+        return reply.status(400).send({
+          error: error.message
+        });
+      }
+      if (amountIn <= 0n) {
+        return reply.status(400).send({
+          error: 'Amount must be greater than 0'
+        });
+      }
+
+      const slippage = body.slippage ?? 0.01;
+      if (typeof slippage !== 'number' || !(slippage >= 0 && slippage < 1)) {
+        return reply.status(400).send({
+          error: 'slippage must be a number from 0 up to (not including) 1'
+        });
+      }
+
+      const priorityFee = body.priorityFee ?? 'normal';
+      if (!isPriorityFeeSetting(priorityFee)) {
+        return reply.status(400).send({
+          error: `priorityFee must be low, normal, turbo or an integer from 0 to ${MAX_PRIORITY_FEE} (microlamports per compute unit)`
+        });
+      }
+
+      let quote;
+      try {
+        quote = await createQuote((request.auth as AuthContext).accountId, tokenIn.symbol, tokenOut.symbol, amountIn, slippage, priorityFee);
+      } catch (error: any) {
+        return reply.status(422).send({
+          error: `No route: ${error.message}`
+        });
+      }
+
+      const { route } = quote;
+      return reply.status(201).send({
+        quoteId: quote.quoteId,
+        tokenIn: quote.tokenIn,
+        tokenOut: quote.tokenOut,
+        amountIn: quote.amountIn,
+        amountOut: quote.amountOut,
+        minAmountOut: quote.minAmountOut,
+        slippage: quote.slippage,
+        priorityFee: quote.priorityFee,
+        route: {
+          selectedDex: route.selectedDex,
+          path: route.path,
+          legs: route.legs,
+          reason: route.reason,
+          computeUnitPrice: route.computeUnitPrice,  // Priority fee the fees were estimated with
+          estimatedFee: route.estimatedFee,  // Lamports the legs' transactions are expected to pay
+          netAmountOut: route.netAmountOut  // Output net of those fees, what routes were ranked by
+        },
+        quotes: route.quotes,  // Every venue quote that was compared, per hop
+        expiresAt: quote.expiresAt,
+        ttlMs: quote.expiresAt.getTime() - quote.createdAt.getTime()
+      });
+
+    } catch (error: any) {
+      console.error('❌ Error creating quote:', error);
+      return reply.status(500).send({
+        error: 'Failed to create quote',
+        details: error.message
+      });
+    }
+  });
+
+  // GET /api/priority-fees - What each priority fee level bids right now (microlamports per compute unit)
+  fastify.get('/api/priority-fees', async (request, reply) => {
+    try {
+      return reply.send(priorityFees.estimate());
+    } catch (error: any) {
+      console.error('❌ Error estimating priority fees:', error);
+      return reply.status(500).send({
+        error: 'Failed to estimate priority fees',
+        details: error.message
+      });
+    }
+  });
+}
@@ -0,0 +1,159 @@
+import { DexPlatform, PoolInfo, PoolModel } from '../types';  // Import type definitions
+
+// Price step between neighbouring bins when a venue doesn't set one (25 bps)
+export const DEFAULT_BIN_STEP_BPS = 25;
+
+// Bins seeded on each side of the active bin (±~13% of the listing price at 25 bps)
+const BINS_PER_SIDE = 50;
+
+// Reserves and curve state behind a simulated pool
+export interface PoolState {
+  info: PoolInfo;                                // Public view, kept in sync with the reserves
+  usdA: number;                                  // Reference USD price of tokenA (for liquidity valuation)
+  usdB: number;                                  // Reference USD price of tokenB
+  bins: Map<number, { a: number; b: number }>;   // Bin pools only: reserves per bin ID
+  activeBin: number;                             // Bin pools only: bin currently being traded
+  basePrice: number;                             // Bin pools only: price (tokenB per tokenA) of bin 0
+  binStep: number;                               // Bin pools only: fractional price step between bins
+}
+
+// Outcome of swapping through a pool
+export interface SwapResult {
+  amountOut: number;           // Output from the curve
+  midPrice: number;            // tokenOut per tokenIn before the swap
+  priceImpact: number;         // Shortfall vs. swapping everything at midPrice (0-1)
+}
+
+// Shortfall vs. swapping everything at the mid price
+function impactOf(amountIn: number, amountOut: number, midPrice: number): number {
+  return amountIn > 0 ? 1 - amountOut / (amountIn * midPrice) : 0;
+}
+
+// Price of a bin (tokenB per tokenA)
+function binPrice(state: PoolState, bin: number): number {
+  return state.basePrice * Math.pow(1 + state.binStep, bin);
+}
+
+// Re-derive reserves and USD liquidity in the public view after the state changed
+function syncInfo(state: PoolState): void {
+  if (state.info.model === 'bins') {
+    let reserveA = 0;
+    let reserveB = 0;
+    for (const bin of state.bins.values()) {
+      reserveA += bin.a;
+      reserveB += bin.b;
+    }
+    state.info.reserveA = reserveA;
+    state.info.reserveB = reserveB;
+  }
+  state.info.liquidity = state.info.reserveA * state.usdA + state.info.reserveB * state.usdB;
+}
+
+// Seed a pool holding liquidityUsd, split evenly between both tokens at their reference prices
+export function createPoolState(
+  dex: DexPlatform,
+  model: PoolModel,
+  tokenA: string,
+  tokenB: string,
+  liquidityUsd: number,
+  usdA: number,
+  usdB: number,
+  binStepBps: number = DEFAULT_BIN_STEP_BPS
+): PoolState {
+  const state: PoolState = {
+    info: {
+      dex,
+      model,
+      tokenA,
+      tokenB,
+      liquidity: liquidityUsd,
+      reserveA: liquidityUsd / 2 / usdA,  // Half the value in each token
+      reserveB: liquidityUsd / 2 / usdB,
+      createdAt: new Date()
+    },
+    usdA,
+    usdB,
+    bins: new Map(),
+    activeBin: 0,
+    basePrice: usdA / usdB,
+    binStep: binStepBps / 10000
+  };
+
+  if (model === 'bins') {
+    // Spread value evenly: bins below the active one bid with tokenB, bins above offer tokenA
+    const perBinUsd = liquidityUsd / (2 * BINS_PER_SIDE + 1);
+    for (let bin = -BINS_PER_SIDE; bin <= BINS_PER_SIDE; bin++) {
+      const valueA = bin > 0 ? perBinUsd : bin === 0 ? perBinUsd / 2 : 0;
+      const valueB = bin < 0 ? perBinUsd : bin === 0 ? perBinUsd / 2 : 0;
+      state.bins.set(bin, { a: valueA / usdA, b: valueB / usdB });
+    }
+  }
+
+  syncInfo(state);
+  return state;
+}
+
+// Add liquidity in proportion to the current reserves
+export function addLiquidity(state: PoolState, liquidityUsd: number): void {
+  const scale = 1 + liquidityUsd / state.info.liquidity;
+  state.info.reserveA *= scale;
+  state.info.reserveB *= scale;
+  for (const bin of state.bins.values()) {
+    bin.a *= scale;
+    bin.b *= scale;
+  }
+  syncInfo(state);
+}
+
+// Swap through the pool's curve. amountIn is net of fees; commit=false only quotes.
+export function swap(state: PoolState, aToB: boolean, amountIn: number, commit: boolean): SwapResult {
+  const { info } = state;
+
+  if (info.model === 'constant-product') {
+    const reserveIn = aToB ? info.reserveA : info.reserveB;
+    const reserveOut = aToB ? info.reserveB : info.reserveA;
+    const midPrice = reserveOut / reserveIn;
+    const amountOut = reserveOut * amountIn / (reserveIn + amountIn);  // x * y = k
+
+    if (commit) {
+      info.reserveA += aToB ? amountIn : -amountOut;
+      info.reserveB += aToB ? -amountOut : amountIn;
+      syncInfo(state);
+    }
+    return { amountOut, midPrice, priceImpact: impactOf(amountIn, amountOut, midPrice) };
+  }
+
+  // Bin pools: fill at a constant price within a bin, then move to the next bin.
+  // Selling tokenA walks down through the tokenB bids; buying tokenA walks up through the asks.
+  const midPrice = aToB ? binPrice(state, state.activeBin) : 1 / binPrice(state, state.activeBin);
+  const updates: Array<[number, { a: number; b: number }]> = [];
+  let remaining = amountIn;
+  let amountOut = 0;
+  let bin = state.activeBin;
+
+  while (remaining > 0 && state.bins.has(bin)) {
+    const reserves = { ...(state.bins.get(bin) as { a: number; b: number }) };
+    const price = binPrice(state, bin);
+    const capacityIn = aToB ? reserves.b / price : reserves.a * price;  // Input that drains this bin
+    const filledIn = Math.min(remaining, capacityIn);
+    const filledOut = aToB ? filledIn * price : filledIn / price;
+
+    reserves.a += aToB ? filledIn : -filledOut;
+    reserves.b += aToB ? -filledOut : filledIn;
+    updates.push([bin, reserves]);
+    amountOut += filledOut;
+    remaining -= filledIn;
+
+    if (remaining > 0) {
+      bin += aToB ? -1 : 1;  // Bin drained, continue at the next price
+    }
+  }
+  // Input beyond the last bin finds no liquidity and receives nothing
+
+  if (commit) {
+    updates.forEach(([id, reserves]) => state.bins.set(id, reserves));
+    state.activeBin = updates.length > 0 ? updates[updates.length - 1][0] : state.activeBin;
+    syncInfo(state);
+  }
+  return { amountOut, midPrice, priceImpact: impactOf(amountIn, amountOut, midPrice) };
+}
@@ -0,0 +1,286 @@
+import crypto from 'crypto';  // Hashes standing in for signatures and blockhashes
+import { v4 as uuidv4 } from 'uuid';  // Transaction nonces
+import { CommitmentLevel, ExecutionResult, PrioritizationFee, SignatureStatus, SignedTransaction, SwapInstruction } from '../types';  // Import type definitions
+import { Simulation } from './simulation';  // Slot length, landing latency, drop rate and congestion
+import { dexRouter } from './dex-router';  // Venues that run the swaps of landed transactions
+import { priorityFeeLamports } from './dex-adapters';  // Priority fees charged to landed transactions
+import { encodeBase58 } from './token-registry';  // Signatures and blockhashes are base58, as on Solana
+
+// Slots built on top of a transaction's block before a supermajority has voted on it
+const CONFIRMATION_SLOTS = 1;
+
+// Slots built on top of a transaction's block before it is rooted (31+ confirmations on mainnet)
+const FINALIZATION_SLOTS = 32;
+
+// Slots a landed or dropped transaction stays known after it can no longer change
+const STATUS_RETENTION_SLOTS = 1500;
+
+// Slots of prioritization fees the chain remembers (as getRecentPrioritizationFees on mainnet)
+const PRIORITIZATION_FEE_SLOTS = 150;
+
+// Priority fee (microlamports per compute unit) leaders ask for on an idle and on a fully congested network
+const IDLE_PRIORITY_FEE = 1_000;
+const CONGESTED_PRIORITY_FEE = 1_000_000;
+
+// Share of the gap to the baseline congestion closed every slot, and the largest random move per slot
+const CONGESTION_REVERSION = 0.1;
+const CONGESTION_VOLATILITY = 0.05;
+
+// Transactions the engine itself sends over the previous LOAD_WINDOW_SLOTS that saturate the network
+const LOAD_WINDOW_SLOTS = 10;
+const LOAD_CAPACITY = 500;
+
+// Extra drop probability of a transaction bidding nothing on a fully congested network
+const UNDERPRICED_DROP_RATE = 0.5;
+
+// Runs the swap of a transaction that landed
+type SwapExecutor = (instruction: SwapInstruction) => Promise<ExecutionResult>;
+
+// A transaction the chain has seen
+interface TrackedTransaction {
+  transaction: SignedTransaction;
+  state: 'pending' | 'landing' | 'landed' | 'dropped';  // Landing: its swap is running in the slot it landed in
+  landingSlot: number;         // Pending only: slot a leader includes it in
+  status?: { slot: number; result: ExecutionResult };  // Once landed
+}
+
+// Priority fee market in one slot
+interface SlotMarket extends PrioritizationFee {
+  background: number;          // Demand from the rest of the network (0-1)
+  congestion: number;          // Background plus the engine's own load (0-1)
+}
+
+// Base58 of a SHA-512 digest (the size of an ed25519 signature)
+function digest(value: string): string {
+  return encodeBase58(crypto.createHash('sha512').update(value).digest());
+}
+
+// Simulated Solana cluster. Sent transactions reach a leader after the simulation's landing latency
+// (or are dropped on the way) and land in a slot, where their swap runs. A landed transaction is
+// processed, confirmed one slot later and finalized once 32 slots are built on top of it. A transaction
+// that hasn't landed by its blockhash's lastValidBlockHeight never will, so it is safe to rebuild.
+// Congestion drifts around the simulation's baseline; leaders ask for a priority fee that rises with it,
+// and a transaction bidding less is dropped more often and lands later. Landed transactions pay their
+// priority fee (compute unit price times compute unit limit) on top of the venue's base fee.
+export class SimulatedChain {
+  private readonly genesis = Date.now();  // Slot 0
+  private transactions: Map<string, TrackedTransaction> = new Map();  // Key: signature
+  private clock?: NodeJS.Timeout;  // Runs while there are transactions to track
+  private market: SlotMarket[] = [];  // Recent slots, oldest first
+  private sends: Map<number, number> = new Map();  // Transactions sent per slot (recent slots only)
+
+  constructor(
+    private readonly simulation: Simulation,
+    private readonly execute: SwapExecutor
+  ) {}
+
+  // Current slot
+  getSlot(): number {
+    return Math.floor((Date.now() - this.genesis) / this.simulation.config.slotMs);
+  }
+
+  // Current block height (no slot is ever skipped in the simulation)
+  getBlockHeight(): number {
+    return this.getSlot();
+  }
+
+  // Blockhash of the current slot and the last block height a transaction signed against it can land at
+  getLatestBlockhash(): { blockhash: string; lastValidBlockHeight: number } {
+    const slot = this.getSlot();
+    return {
+      blockhash: digest(`blockhash:${this.genesis}:${slot}`).slice(0, 44),
+      lastValidBlockHeight: slot + this.simulation.config.blockhashValiditySlots
+    };
+  }
+
+  // Lowest priority fee that landed in each recent slot, oldest first
+  getRecentPrioritizationFees(): PrioritizationFee[] {
+    return this.advanceMarket().map(({ slot, prioritizationFee }) => ({ slot, prioritizationFee }));
+  }
+
+  // Congestion (0-1) of the current slot
+  getCongestion(): number {
+    const market = this.advanceMarket();
+    return market[market.length - 1].congestion;
+  }
+
+  // Extend the fee market up to the current slot. Slots are drawn once, in order, when first needed;
+  // after an idle gap only the slots still remembered are drawn.
+  private advanceMarket(): SlotMarket[] {
+    const slot = this.getSlot();
+    const last = this.market[this.market.length - 1];
+    if (last && last.slot >= slot) {
+      return this.market;
+    }
+
+    const { congestion: baseline } = this.simulation.config;
+    let background = last?.background ?? baseline;
+    for (let next = Math.max(last ? last.slot + 1 : 0, slot - PRIORITIZATION_FEE_SLOTS + 1); next <= slot; next++) {
+      background += (baseline - background) * CONGESTION_REVERSION +
+        this.simulation.between([-CONGESTION_VOLATILITY, CONGESTION_VOLATILITY], 'chain:congestion');
+      background = Math.min(1, Math.max(0, background));
+
+      let load = 0;  // Engine's own transactions in the slots before this one
+      for (let earlier = next - LOAD_WINDOW_SLOTS; earlier < next; earlier++) {
+        load += this.sends.get(earlier) ?? 0;
+      }
+      const congestion = Math.min(1, background + load / LOAD_CAPACITY);
+
+      // Asked fee rises exponentially from idle to congested, with per-slot noise
+      const asked = IDLE_PRIORITY_FEE * Math.pow(CONGESTED_PRIORITY_FEE / IDLE_PRIORITY_FEE, congestion);
+      const prioritizationFee = Math.round(asked * this.simulation.between([0.5, 1.5], 'chain:fees'));
+      this.market.push({ slot: next, prioritizationFee, background, congestion });
+    }
+
+    this.market = this.market.slice(-PRIORITIZATION_FEE_SLOTS);
+    for (const sent of this.sends.keys()) {
+      if (sent < slot - LOAD_WINDOW_SLOTS) {
+        this.sends.delete(sent);
+      }
+    }
+    return this.market;
+  }
+
+  // Sign a swap for a fee payer against a blockhash. The signature covers the whole message,
+  // so a rebuilt transaction (new blockhash) is a different transaction.
+  signTransaction(
+    feePayer: string,
+    instruction: SwapInstruction,
+    blockhash: { blockhash: string; lastValidBlockHeight: number }
+  ): SignedTransaction {
+    const message = {
+      feePayer,
+      recentBlockhash: blockhash.blockhash,
+      lastValidBlockHeight: blockhash.lastValidBlockHeight,
+      nonce: uuidv4(),
+      instruction
+    };
+    return { signature: digest(JSON.stringify(message)), ...message };
+  }
+
+  // Send a signed transaction to the cluster. Sending one that is already on its way or landed does
+  // nothing (transactions are identified by signature), so rebroadcasting is always safe; a dropped one
+  // gets another chance to reach a leader. Fails once its blockhash has expired. A transaction bidding
+  // less than the current slot's fee is dropped more often and lands later, the more so the busier the network.
+  sendTransaction(transaction: SignedTransaction): string {
+    const known = this.transactions.get(transaction.signature);
+    if (known && known.state !== 'dropped') {
+      return transaction.signature;  // Duplicate
+    }
+    if (this.getBlockHeight() > transaction.lastValidBlockHeight) {
+      throw new Error(`Blockhash not found: ${transaction.recentBlockhash} expired at block height ${transaction.lastValidBlockHeight}`);
+    }
+
+    const { dropRate, executionLatencyMs, slotMs } = this.simulation.config;
+    const market = this.advanceMarket();
+    const { slot, prioritizationFee, congestion } = market[market.length - 1];
+    this.sends.set(slot, (this.sends.get(slot) ?? 0) + 1);
+
+    const shortfall = Math.max(0, 1 - transaction.instruction.computeUnitPrice / prioritizationFee);  // 0 when the bid covers the asked fee
+    const dropped = this.simulation.random('chain:drops') < dropRate + congestion * shortfall * UNDERPRICED_DROP_RATE;  // Lost between RPC node and leader
+    const latency = this.simulation.between(executionLatencyMs, 'chain:latency') * (1 + congestion * shortfall);  // Waits behind better bids
+    this.transactions.set(transaction.signature, {
+      transaction,
+      state: dropped ? 'dropped' : 'pending',
+      landingSlot: slot + Math.max(1, Math.ceil(latency / slotMs))  // Never in the slot it was sent in
+    });
+    if (dropped) {
+      console.log(`🕳️  Transaction ${transaction.signature.slice(0, 12)}... dropped before reaching a leader`);
+    }
+    this.startClock();
+    return transaction.signature;
+  }
+
+  // Status of a landed transaction, or null if it hasn't landed (yet, or ever)
+  getSignatureStatus(signature: string): SignatureStatus | null {
+    const tracked = this.transactions.get(signature);
+    if (!tracked?.status) {
+      return null;
+    }
+
+    const depth = this.getSlot() - tracked.status.slot;  // Slots built on top of it
+    const commitment: CommitmentLevel = depth >= FINALIZATION_SLOTS ? 'finalized' : depth >= CONFIRMATION_SLOTS ? 'confirmed' : 'processed';
+    return {
+      slot: tracked.status.slot,
+      confirmations: commitment === 'finalized' ? null : depth,
+      commitment,
+      result: tracked.status.result
+    };
+  }
+
+  // Whether a transaction can no longer land: its blockhash expired and it isn't landing or landed
+  isExpired(transaction: SignedTransaction): boolean {
+    const tracked = this.transactions.get(transaction.signature);
+    if (tracked && (tracked.state === 'landing' || tracked.state === 'landed')) {
+      return false;
+    }
+    return this.getBlockHeight() > transaction.lastValidBlockHeight;
+  }
+
+  // Advance the slot clock while there is anything to track
+  private startClock(): void {
+    if (this.clock) {
+      return;
+    }
+    this.clock = setInterval(() => this.produceSlot(), this.simulation.config.slotMs);
+    this.clock.unref();  // Never keeps the process alive on its own
+  }
+
+  // Land every pending transaction due by the current slot and forget those that can't change any more
+  private produceSlot(): void {
+    const slot = this.getSlot();
+
+    for (const [signature, tracked] of this.transactions) {
+      const { transaction } = tracked;
+      if (tracked.state === 'pending' && tracked.landingSlot <= slot) {
+        if (slot > transaction.lastValidBlockHeight) {
+          tracked.state = 'dropped';  // Leaders refuse an expired blockhash
+          continue;
+        }
+        tracked.state = 'landing';
+        this.land(tracked, slot);
+      } else if (
+        (tracked.state === 'landed' && slot - (tracked.status as { slot: number }).slot > FINALIZATION_SLOTS + STATUS_RETENTION_SLOTS) ||
+        (tracked.state === 'dropped' && slot > transaction.lastValidBlockHeight + STATUS_RETENTION_SLOTS)
+      ) {
+        this.transactions.delete(signature);
+      }
+    }
+
+    if (this.transactions.size === 0 && this.clock) {
+      clearInterval(this.clock);
+      this.clock = undefined;
+    }
+  }
+
+  // Run a transaction's swap in the slot it landed in; a swap that throws fails the transaction.
+  // A successful swap's fee is the venue's base fee plus the priority fee the transaction bid.
+  private land(tracked: TrackedTransaction, slot: number): void {
+    const { transaction } = tracked;
+    const { computeUnitPrice, computeUnitLimit } = transaction.instruction;
+    const priorityFee = priorityFeeLamports(computeUnitPrice, computeUnitLimit);
+    this.execute(transaction.instruction)
+      .catch((error: any): ExecutionResult => ({ success: false, error: error.message, errorCode: 'EXECUTION_FAILED' }))
+      .then(result => {
+        tracked.status = {
+          slot,
+          result: result.success ? {
+            ...result,
+            txHash: transaction.signature,  // The signature identifies the swap on chain
+            networkFee: (BigInt(result.networkFee ?? '0') + priorityFee).toString(),
+            priorityFee: priorityFee.toString()
+          } : result
+        };
+        tracked.state = 'landed';
+      });
+  }
+}
+
+// Shared chain, landing swaps on the shared router's venues
+export const chain = new SimulatedChain(dexRouter.simulation, instruction => dexRouter.executeSwap(
+  instruction.dex,
+  instruction.tokenIn,
+  instruction.tokenOut,
+  BigInt(instruction.amountIn),
+  BigInt(instruction.minAmountOut)
+));
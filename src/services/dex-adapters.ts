@@ -0,0 +1,268 @@
+import { DexAdapter, DexQuote, ExecutionResult, DexPlatform, PoolInfo, PoolModel } from '../types';  // Import type definitions
+import { PoolState, createPoolState, addLiquidity, swap } from './amm';  // Pool reserves and pricing curves
+import { Simulation } from './simulation';  // Random draws, market slots and scenario scripts
+import { TokenRegistry, tokenRegistry, WRAPPED_SOL_ADDRESS } from './token-registry';  // Token decimals for base-unit conversion
+
+export { WRAPPED_SOL_ADDRESS };
+
+// Convert native SOL to the wrapped SOL mint used by DEX pools
+export function normalizeToken(token: string): string {
+  return token === 'SOL' ? WRAPPED_SOL_ADDRESS : token;
+}
+
+// Direction-independent key for a token pair
+export function pairKey(tokenA: string, tokenB: string): string {
+  return [normalizeToken(tokenA), normalizeToken(tokenB)].sort().join(':');
+}
+
+// Reference USD prices used to derive each pool's mid price (unknown tokens default to $1)
+const REFERENCE_PRICES_USD: Record<string, number> = {
+  [WRAPPED_SOL_ADDRESS]: 100,  // SOL
+  USDC: 1,
+  USDT: 1,
+  BONK: 0.00002,
+  JUP: 0.8
+};
+
+// Reference USD price for a token
+export function referencePrice(token: string): number {
+  return REFERENCE_PRICES_USD[normalizeToken(token)] ?? 1;
+}
+
+// Lamports per SOL (network fees are paid in lamports)
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Compute units a swap requests on venues that don't configure their own
+const DEFAULT_COMPUTE_UNITS = 200_000;
+
+// Priority fee (lamports) of a transaction bidding computeUnitPrice microlamports on each of its
+// requested compute units, rounded up as the runtime does
+export function priorityFeeLamports(computeUnitPrice: number, computeUnits: number): bigint {
+  return (BigInt(Math.round(computeUnitPrice)) * BigInt(computeUnits) + 999_999n) / 1_000_000n;
+}
+
+// Lamports a quoted swap's transaction is expected to pay: the venue's base fee plus the priority fee
+export function estimateNetworkFee(quote: DexQuote, computeUnitPrice: number): bigint {
+  return BigInt(Math.round(quote.estimatedGas * LAMPORTS_PER_SOL)) + priorityFeeLamports(computeUnitPrice, quote.computeUnits);
+}
+
+// Helper function to simulate network delay
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));  // Returns promise that resolves after ms milliseconds
+
+// Generate mock transaction hash for simulation
+function generateMockTxHash(simulation: Simulation, dex: DexPlatform, execution: number): string {
+  const timestamp = simulation.deterministic ? execution : Date.now();  // Stable across seeded runs
+  const random = simulation.random(`txhash:${dex}`).toString(36).substring(2, 15);  // Random alphanumeric string
+  return `mock_tx_${timestamp}_${random}`;  // Combine into realistic-looking hash
+}
+
+// Settings for a simulated venue
+export interface MockDexConfig {
+  id: DexPlatform;             // Venue ID
+  name: string;                // Display name for logs
+  fee: number;                 // Trading fee (0.003 = 0.3%)
+  priceVariance: [number, number];  // Min/max multiplier applied to the base price
+  estimatedGas: number;        // Mock gas cost in SOL
+  computeUnits?: number;       // Compute units a swap requests (default 200,000)
+  poolModel?: PoolModel;       // Pricing curve for this venue's pools (default constant-product)
+  binStepBps?: number;         // Bin pools only: price step between bins
+  pools: Array<{ tokenA: string; tokenB: string; liquidity: number }>;  // Pools listed at startup
+}
+
+// Simulated venue: quotes from per-pool reserves and settles swaps when their transaction lands.
+// Pools keep floating-point token balances; amounts cross the adapter boundary in integer base units.
+export class MockDexAdapter implements DexAdapter {
+  readonly id: DexPlatform;
+  readonly name: string;
+  private pools: Map<string, PoolState> = new Map();  // Key: pairKey
+  private market = { slot: -1, variance: 1 };  // Price variance drawn for the current slot
+
+  constructor(
+    private config: MockDexConfig,
+    private simulation: Simulation = new Simulation(),
+    private tokens: TokenRegistry = tokenRegistry
+  ) {
+    this.id = config.id;
+    this.name = config.name;
+
+    for (const { tokenA, tokenB, liquidity } of config.pools) {
+      this.listPool(tokenA, tokenB, liquidity);
+    }
+  }
+
+  // Pools this venue can trade (snapshots of the current reserves)
+  getSupportedPairs(): PoolInfo[] {
+    return Array.from(this.pools.values()).map(pool => ({ ...pool.info }));
+  }
+
+  // List a new pool, or add liquidity to an existing one
+  listPool(tokenA: string, tokenB: string, liquidity: number): PoolInfo {
+    const key = pairKey(tokenA, tokenB);
+    const existing = this.pools.get(key);
+    if (existing) {
+      addLiquidity(existing, liquidity);  // Liquidity added to a known pool
+      return { ...existing.info };
+    }
+
+    // Brand new listing, priced at the reference prices
+    const pool = createPoolState(
+      this.id,
+      this.config.poolModel || 'constant-product',
+      tokenA,
+      tokenB,
+      liquidity,
+      referencePrice(tokenA),
+      referencePrice(tokenB),
+      this.config.binStepBps
+    );
+    this.pools.set(key, pool);
+    return { ...pool.info };
+  }
+
+  // Pool for a pair plus the swap direction through it
+  private findPool(tokenIn: string, tokenOut: string): { pool: PoolState; aToB: boolean } {
+    const pool = this.pools.get(pairKey(tokenIn, tokenOut));
+    if (!pool) {
+      throw new Error(`${this.name} has no ${tokenIn}/${tokenOut} pool`);
+    }
+    return { pool, aToB: normalizeToken(pool.info.tokenA) === normalizeToken(tokenIn) };
+  }
+
+  // Price variance for the current slot, so differently sized quotes taken together are comparable
+  private currentVariance(): number {
+    const slot = this.simulation.currentSlot();
+    if (slot !== this.market.slot) {
+      const scripted = this.simulation.nextScriptedQuote(this.id);  // Scenario quotes take precedence
+      const variance = scripted ?? this.simulation.between(this.config.priceVariance, `market:${this.id}`);  // Price varies within the venue's range
+      this.market = { slot, variance };
+    }
+    return this.market.variance;
+  }
+
+  // Quote a swap on this venue
+  async getQuote(tokenIn: string, tokenOut: string, amountIn: bigint): Promise<DexQuote> {
+    const uiAmountIn = this.tokens.toUiAmount(tokenIn, amountIn);  // Pool curves work in whole tokens
+    console.log(`📊 Fetching ${this.name} quote for ${uiAmountIn} ${tokenIn} -> ${tokenOut}`);  // Log quote request
+
+    const { pool, aToB } = this.findPool(tokenIn, tokenOut);
+    const variance = this.currentVariance();  // Market drift on top of the pool's own price
+    await sleep(this.simulation.between(this.simulation.config.quoteLatencyMs, `latency:${this.id}`));  // Simulate network latency
+
+    // Walk the pool's curve with the input left after fees; larger trades move the price further
+    const fee = this.simulation.fee(this.id, this.config.fee);  // Venue trading fee (fee table may override)
+    const result = swap(pool, aToB, uiAmountIn * (1 - fee), false);  // Quote only, reserves untouched
+
+    return {
+      dex: this.id,  // Identify which venue quoted
+      price: result.midPrice * variance,  // Price per token before impact
+      amountOut: this.tokens.toBaseUnits(tokenOut, result.amountOut * variance).toString(),  // Expected output after fees and impact
+      fee,  // Trading fee
+      estimatedGas: this.config.estimatedGas,  // Mock gas cost in SOL
+      computeUnits: this.config.computeUnits ?? DEFAULT_COMPUTE_UNITS,  // Priority fees are bid per unit
+      priceImpact: result.priceImpact  // Fraction lost to moving the pool
+    };
+  }
+
+  // Execute swap on this venue (mocked) at the market price. The simulated chain calls this when the
+  // swap's transaction lands, so the time it took to get there is the chain's, not the venue's.
+  async executeSwap(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    minAmountOut: bigint
+  ): Promise<ExecutionResult> {
+    // Draw everything up front so seeded runs don't depend on which swap lands first
+    const { index, forcedFailure, move } = this.simulation.nextExecution(this.id);
+    const { executionDrift, failureRate } = this.simulation.config;
+    const failureChance = this.simulation.random(`execution:${this.id}`);  // Random number 0-1
+    const drift = 1 + this.simulation.between([-executionDrift, executionDrift], `execution:${this.id}`);  // Market move while landing
+
+    // Simulate occasional failure (5% by default, realistic for blockchain) or a scripted one
+    if (forcedFailure || failureChance < failureRate) {
+      console.error(`❌ Swap failed on ${this.id}${forcedFailure ? ' (scenario)' : ''}`);  // Log failure
+      return {
+        success: false,  // Indicate failure
+        error: 'Simulation: Transaction failed due to network congestion',  // Mock error message
+        errorCode: 'EXECUTION_FAILED'
+      };
+    }
+
+    // Price the swap against the pool as it is now (other fills may have moved it) plus the market move
+    const { pool, aToB } = this.findPool(tokenIn, tokenOut);
+    const fee = this.simulation.fee(this.id, this.config.fee);
+    const uiAmountIn = this.tokens.toUiAmount(tokenIn, amountIn);
+    const market = swap(pool, aToB, uiAmountIn * (1 - fee), false);
+    const actualAmountOut = this.tokens.toBaseUnits(tokenOut, market.amountOut * this.market.variance * (move ?? drift));
+
+    // Protect the trader: revert rather than fill below minAmountOut
+    if (actualAmountOut < minAmountOut) {
+      const [actual, minimum] = [this.tokens.format(tokenOut, actualAmountOut), this.tokens.format(tokenOut, minAmountOut)];
+      console.error(`❌ Slippage exceeded on ${this.id}: ${actual} < min ${minimum}`);
+      return {
+        success: false,  // Indicate failure
+        amountOut: actualAmountOut.toString(),  // What the market would have paid
+        error: `Slippage exceeded: market output ${actual} below minimum ${minimum}`,
+        errorCode: 'SLIPPAGE_EXCEEDED'
+      };
+    }
+
+    // The swap goes through: the pool's reserves absorb it
+    swap(pool, aToB, uiAmountIn * (1 - fee), true);
+    const actualPrice = this.tokens.toUiAmount(tokenOut, actualAmountOut) / uiAmountIn;  // tokenOut per tokenIn
+    const txHash = generateMockTxHash(this.simulation, this.id, index);  // Generate mock transaction hash
+
+    return {
+      success: true,  // Indicate success
+      txHash,  // Transaction hash
+      executedPrice: actualPrice,  // Actual execution price
+      amountOut: actualAmountOut.toString(),  // Actual output amount
+      networkFee: Math.round(this.config.estimatedGas * LAMPORTS_PER_SOL).toString()  // Gas paid, in lamports
+    };
+  }
+
+}
+
+// Venues registered out of the box, all driven by the same simulation
+export function createDefaultAdapters(
+  simulation: Simulation = new Simulation(),
+  tokens: TokenRegistry = tokenRegistry
+): DexAdapter[] {
+  return [
+    // Raydium typically has 0.3% fee and slightly better liquidity
+    new MockDexAdapter({
+      id: 'raydium',
+      name: 'Raydium',
+      fee: 0.003,  // 0.3% trading fee
+      priceVariance: [0.98, 1.02],  // Price varies between 98-102% of base
+      estimatedGas: 0.00005,  // Mock gas cost in SOL
+      computeUnits: 140_000,  // Single constant-product swap
+      poolModel: 'constant-product',  // x * y = k AMM pools
+      pools: [
+        { tokenA: 'SOL', tokenB: 'USDC', liquidity: 5_000_000 },
+        { tokenA: 'SOL', tokenB: 'USDT', liquidity: 2_000_000 },
+        { tokenA: 'USDC', tokenB: 'USDT', liquidity: 10_000_000 },
+        { tokenA: 'BONK', tokenB: 'SOL', liquidity: 3_000_000 },
+        { tokenA: 'BONK', tokenB: 'USDC', liquidity: 50_000 },  // Thin direct pool, deep via SOL
+        { tokenA: 'JUP', tokenB: 'USDC', liquidity: 1_000_000 }
+      ]
+    }, simulation, tokens),
+    // Meteora typically has 0.2% fee and less liquidity, but concentrated in price bins
+    new MockDexAdapter({
+      id: 'meteora',
+      name: 'Meteora',
+      fee: 0.002,  // 0.2% trading fee
+      priceVariance: [0.97, 1.02],  // Price varies between 97-102% of base
+      estimatedGas: 0.00004,  // Mock gas cost in SOL (slightly cheaper)
+      computeUnits: 220_000,  // Crossing bins costs more compute (pricier under high priority fees)
+      poolModel: 'bins',  // DLMM-style bins
+      binStepBps: 25,  // 0.25% between bins
+      pools: [
+        { tokenA: 'SOL', tokenB: 'USDC', liquidity: 3_000_000 },
+        { tokenA: 'SOL', tokenB: 'USDT', liquidity: 1_000_000 },
+        { tokenA: 'USDC', tokenB: 'USDT', liquidity: 5_000_000 },
+        { tokenA: 'BONK', tokenB: 'SOL', liquidity: 1_000_000 },
+        { tokenA: 'JUP', tokenB: 'SOL', liquidity: 500_000 }
+      ]
+    }, simulation, tokens)
+  ];
+}
@@ -0,0 +1,57 @@
+import { DexAdapter, DexPlatform, PoolInfo } from '../types';  // Import type definitions
+import { pairKey } from './dex-adapters';  // Pair key helper shared with the adapters
+
+// Registry of venues the router can quote and execute against
+export class DexRegistry {
+  private adapters: Map<DexPlatform, DexAdapter> = new Map();  // Key: venue ID
+
+  constructor(adapters: DexAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  // Add a venue (IDs must be unique)
+  register(adapter: DexAdapter): void {
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`DEX adapter already registered: ${adapter.id}`);
+    }
+    this.adapters.set(adapter.id, adapter);
+    console.log(`🔌 Registered DEX adapter: ${adapter.id}`);
+  }
+
+  // Remove a venue
+  unregister(id: DexPlatform): boolean {
+    return this.adapters.delete(id);
+  }
+
+  // Look up a venue, failing loudly for unknown IDs
+  get(id: DexPlatform): DexAdapter {
+    const adapter = this.adapters.get(id);
+    if (!adapter) {
+      throw new Error(`Unknown DEX: ${id}`);
+    }
+    return adapter;
+  }
+
+  // Whether a venue ID is registered
+  has(id: DexPlatform): boolean {
+    return this.adapters.has(id);
+  }
+
+  // All registered venues
+  list(): DexAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  // Pool for a pair on a venue, if it lists one
+  findPool(id: DexPlatform, tokenIn: string, tokenOut: string): PoolInfo | undefined {
+    const key = pairKey(tokenIn, tokenOut);
+    return this.get(id).getSupportedPairs().find(pool => pairKey(pool.tokenA, pool.tokenB) === key);
+  }
+
+  // Pools for a pair (either direction) across all venues
+  findPools(tokenIn: string, tokenOut: string): PoolInfo[] {
+    return this.list()
+      .map(adapter => this.findPool(adapter.id, tokenIn, tokenOut))
+      .filter((pool): pool is PoolInfo => pool !== undefined);
+  }
+}
@@ -1,179 +1,428 @@
-import { DexQuote, RouteResult, ExecutionResult, DexPlatform } from '../types';  // Import type definitions
+import { EventEmitter } from 'events';  // Node event emitter for pool listing events
+import { DexQuote, RouteResult, RouteLeg, RouteQuote, ExecutionResult, DexPlatform, DexAdapter, PoolInfo, PoolListing } from '../types';  // Import type definitions
+import { DexRegistry } from './dex-registry';  // Registry of venue adapters
+import { createDefaultAdapters, normalizeToken, pairKey, referencePrice, estimateNetworkFee, LAMPORTS_PER_SOL } from './dex-adapters';  // Built-in mock venues and fee estimates
+import { Simulation, createSimulationFromEnv } from './simulation';  // Seedable market simulation
+import { TokenRegistry, tokenRegistry } from './token-registry';  // Token decimals for logs and split sizing
 
-// Helper function to simulate network delay
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));  // Returns promise that resolves after ms milliseconds
+// Granularity of split routing: orders are divided into this many equal increments
+const SPLIT_STEPS = 10;  // 10% increments
 
-// Generate mock transaction hash for simulation
-function generateMockTxHash(): string {
-  const timestamp = Date.now();  // Current timestamp for uniqueness
-  const random = Math.random().toString(36).substring(2, 15);  // Random alphanumeric string
-  return `mock_tx_${timestamp}_${random}`;  // Combine into realistic-looking hash
+// Minimum gain (basis points over the best single venue, net of fees) before paying for extra transactions
+const SPLIT_MIN_IMPROVEMENT_BPS = parseFloat(process.env.SPLIT_MIN_IMPROVEMENT_BPS || '5');
+
+// Longest path (in swaps) considered for multi-hop routing
+const MAX_HOPS = 3;
+
+// Lowest acceptable output (base units, rounded down) for a quote at the order's slippage tolerance
+export function calculateMinAmountOut(quotedAmountOut: bigint, slippage: number): bigint {
+  const kept = BigInt(Math.round((1 - slippage) * 1_000_000));  // Tolerance to parts per million
+  return quotedAmountOut * kept / 1_000_000n;
 }
 
-export class MockDexRouter {
-  private basePrice: number = 100;  // Base price for simulation (100 USDC per SOL example)
+// Emits 'poolCreated' (PoolInfo) whenever a new pool is listed on any DEX, and 'poolListed' (PoolListing)
+// for listings made in this process rather than replicated from another one.
+// Pass the same Simulation to custom adapters so seeded runs share one market clock.
+// Amounts are integer base units throughout; the token registry only formats them for logs.
+export class MockDexRouter extends EventEmitter {
+  readonly registry: DexRegistry;
+  
+  constructor(
+    registry?: DexRegistry,
+    readonly simulation: Simulation = new Simulation(),
+    readonly tokens: TokenRegistry = tokenRegistry
+  ) {
+    super();
+    this.registry = registry || new DexRegistry(createDefaultAdapters(simulation, tokens));
+  }
+  
+  // Amount in base units as a token amount for logs and routing reasons (rounded to 4 places unless exact)
+  private display(token: string, amount: bigint, exact = false): string {
+    if (!this.tokens.find(token)) {
+      return `${amount} base units of`;  // Unregistered token: only reachable through direct router use
+    }
+    return exact ? this.tokens.format(token, amount) : this.tokens.toUiAmount(token, amount).toFixed(4);
+  }
+  
+  // Network fee (lamports) valued in a token's base units at reference prices, so it can be taken off
+  // that token's output (nothing for unregistered tokens, which have no decimals to convert to)
+  private feeIn(token: string, lamports: bigint): bigint {
+    if (!this.tokens.find(token)) {
+      return 0n;
+    }
+    const sol = Number(lamports) / LAMPORTS_PER_SOL;
+    return this.tokens.toBaseUnits(token, sol * referencePrice('SOL') / referencePrice(token));
+  }
+  
+  // Add a venue at runtime (e.g. Orca, Phoenix, or an in-house mock)
+  registerAdapter(adapter: DexAdapter): void {
+    this.registry.register(adapter);
+  }
+  
+  // List pools for a pair (either direction) across all DEXs
+  getPools(tokenIn: string, tokenOut: string): PoolInfo[] {
+    return this.registry.findPools(tokenIn, tokenOut);
+  }
+  
+  // Whether a pool trades the given pair (either direction)
+  matchesPair(pool: PoolInfo, tokenIn: string, tokenOut: string): boolean {
+    return pairKey(pool.tokenA, pool.tokenB) === pairKey(tokenIn, tokenOut);
+  }
   
-  // Wrapped SOL address on Solana (native SOL must be wrapped for DEX trading)
-  private WRAPPED_SOL_ADDRESS = 'So11111111111111111111111111111111111111112';
+  // DEXs with a pool for this pair holding at least minLiquidity
+  getListedDexes(tokenIn: string, tokenOut: string, minLiquidity: number = 0): DexPlatform[] {
+    return this.getPools(tokenIn, tokenOut)
+      .filter(pool => pool.liquidity >= minLiquidity)
+      .map(pool => pool.dex);
+  }
+  
+  // List a new pool (or top up an existing one) and announce it to listeners; `replicated` marks a listing
+  // another process made, which is applied here but not shared again
+  createPool(dex: DexPlatform, tokenA: string, tokenB: string, liquidity: number, replicated = false): PoolInfo {
+    const adapter = this.registry.get(dex);
+    if (!adapter.listPool) {
+      throw new Error(`DEX ${dex} does not support simulated pool listings`);
+    }
+    [tokenA, tokenB].forEach(token => this.tokens.get(token));  // Quotes need each token's decimals
+    
+    const pool = adapter.listPool(tokenA, tokenB, liquidity);
+    console.log(`🆕 Pool listed on ${dex}: ${tokenA}/${tokenB} with $${liquidity.toFixed(0)} liquidity`);
+    if (!replicated) {
+      const listing: PoolListing = { dex, tokenA, tokenB, liquidity };
+      this.emit('poolListed', listing);  // Share with other processes
+    }
+    this.emit('poolCreated', pool);  // Notify sniper watchers
+    return pool;
+  }
+  
+  // Simulate a pool launch for a pair after a random delay (stands in for on-chain listing events)
+  simulatePoolLaunch(tokenA: string, tokenB: string, delayMs?: number): NodeJS.Timeout {
+    const venues = this.registry.list().filter(adapter => adapter.listPool);  // Venues that can list pools
+    const delay = delayMs ?? this.simulation.between([5000, 20000], 'listings');  // 5-20s until the "launch"
+    const dex = venues[Math.floor(this.simulation.random('listings') * venues.length)].id;  // Random venue
+    const liquidity = this.simulation.between([10_000, 500_000], 'listings');  // $10k-$500k initial liquidity
+    
+    console.log(`🧪 Simulating ${tokenA}/${tokenB} pool launch on ${dex} in ${(delay / 1000).toFixed(1)}s`);
+    const timer = setTimeout(() => this.createPool(dex, tokenA, tokenB, liquidity), delay);
+    timer.unref();  // Don't keep the process alive just for a simulated launch
+    return timer;
+  }
   
-  // Get quote from Raydium DEX
-  async getRaydiumQuote(
+  // Get quote from a single registered DEX
+  async getQuote(
+    dex: DexPlatform,
     tokenIn: string,
     tokenOut: string,
-    amountIn: number
+    amountIn: bigint
   ): Promise<DexQuote> {
-    console.log(`📊 Fetching Raydium quote for ${amountIn} ${tokenIn} -> ${tokenOut}`);  // Log quote request
-    
-    await sleep(150 + Math.random() * 100);  // Simulate 150-250ms network latency
+    return this.registry.get(dex).getQuote(normalizeToken(tokenIn), normalizeToken(tokenOut), amountIn);
+  }
+  
+  // Find the direct pair plus 2-3 hop paths through the graph of listed pools
+  findPaths(tokenIn: string, tokenOut: string): string[][] {
+    // Build an adjacency list keyed by normalized token, remembering a display label per token
+    const labels: Map<string, string> = new Map();
+    const graph: Map<string, Set<string>> = new Map();
+    for (const pool of this.registry.list().flatMap(adapter => adapter.getSupportedPairs())) {
+      const [a, b] = [normalizeToken(pool.tokenA), normalizeToken(pool.tokenB)];
+      if (!labels.has(a)) labels.set(a, pool.tokenA);
+      if (!labels.has(b)) labels.set(b, pool.tokenB);
+      graph.set(a, (graph.get(a) || new Set()).add(b));
+      graph.set(b, (graph.get(b) || new Set()).add(a));
+    }
     
-    // Raydium typically has 0.3% fee and slightly better liquidity
-    const priceVariance = 0.98 + Math.random() * 0.04;  // Price varies between 98-102% of base
-    const price = this.basePrice * priceVariance;  // Calculate final price with variance
-    const fee = 0.003;  // 0.3% trading fee
-    const amountOut = amountIn * price * (1 - fee);  // Calculate output amount after fees
+    const start = normalizeToken(tokenIn);
+    const target = normalizeToken(tokenOut);
+    const paths: string[][] = [];
     
-    return {
-      dex: 'raydium',  // Identify this quote as from Raydium
-      price,  // Price per token
-      amountOut,  // Expected output amount
-      fee,  // Trading fee
-      estimatedGas: 0.00005  // Mock gas cost in SOL
+    // Depth-first search over simple paths of at most MAX_HOPS swaps
+    const visit = (node: string, path: string[]) => {
+      for (const next of graph.get(node) || []) {
+        if (path.includes(next)) continue;  // No cycles
+        if (next === target) {
+          paths.push([...path, next]);
+        } else if (path.length < MAX_HOPS) {
+          visit(next, [...path, next]);
+        }
+      }
     };
+    visit(start, [start]);
+    
+    // Use the caller's spelling for the endpoints and pool labels for intermediate tokens
+    return paths
+      .sort((a, b) => a.length - b.length)  // Direct pair first
+      .map(path => path.map((token, i) =>
+        i === 0 ? tokenIn : i === path.length - 1 ? tokenOut : labels.get(token) as string
+      ));
   }
   
-  // Get quote from Meteora DEX
-  async getMeteorQuote(
+  // Route a single hop: quote every venue and split across them when that pays off. Venues are compared
+  // by output net of the network and priority fees of their transactions, valued in tokenOut.
+  private async routeHop(
+    hop: number,
     tokenIn: string,
     tokenOut: string,
-    amountIn: number
-  ): Promise<DexQuote> {
-    console.log(`📊 Fetching Meteora quote for ${amountIn} ${tokenIn} -> ${tokenOut}`);  // Log quote request
+    amountIn: bigint,
+    dexes: DexPlatform[],
+    computeUnitPrice: number
+  ): Promise<{ legs: RouteLeg[]; amountOut: bigint; fee: bigint; reason: string; quotes: RouteQuote[] }> {
+    const actualTokenIn = normalizeToken(tokenIn);
+    const actualTokenOut = normalizeToken(tokenOut);
+    
+    // Quote each venue at every split increment so legs can be sized against price impact
+    const steps = dexes.length > 1 ? SPLIT_STEPS : 1;  // No split search with a single venue
+    const ladders = await Promise.all(dexes.map(dex =>
+      Promise.all(Array.from({ length: steps }, (_, i) =>
+        this.registry.get(dex).getQuote(actualTokenIn, actualTokenOut, amountIn * BigInt(i + 1) / BigInt(steps))
+      ))
+    ));
+    const quotes = ladders.map(ladder => ladder[steps - 1]);  // Full-size quote per venue
+    const compared: RouteQuote[] = quotes.map(quote => ({ ...quote, hop }));  // Kept for the order's event history
+    const fees = quotes.map(quote => estimateNetworkFee(quote, computeUnitPrice));  // Lamports per venue transaction
+    const net = (i: number, amountOut: bigint) => amountOut - this.feeIn(tokenOut, fees[i]);  // Output net of that transaction's fees
+    
+    // Log venue quotes for transparency (CORE REQUIREMENT)
+    console.log(`🔹 Hop ${hop + 1}: ${this.display(tokenIn, amountIn, true)} ${tokenIn} -> ${tokenOut}`);
+    quotes.forEach((quote, i) => {
+      const name = this.registry.get(quote.dex).name;
+      console.log(`💰 ${name}: ${this.display(tokenOut, BigInt(quote.amountOut))} ${tokenOut} (${this.display(tokenOut, net(i, BigInt(quote.amountOut)))} net of fees)`);
+      console.log(`   Price: ${quote.price.toFixed(2)}, Fee: ${(quote.fee * 100).toFixed(2)}%, Impact: ${(quote.priceImpact * 100).toFixed(2)}%, Network fee: ${fees[i]} lamports`);
+    });
+    
+    // Select DEX with higher output net of fees (better deal for user)
+    const selected = quotes.reduce((best, quote, i) => net(i, BigInt(quote.amountOut)) > net(best, BigInt(quotes[best].amountOut)) ? i : best, 0);
+    const selectedQuote = quotes[selected];
+    const selectedAmountOut = BigInt(selectedQuote.amountOut);
+    const selectedNet = net(selected, selectedAmountOut);
     
-    await sleep(150 + Math.random() * 100);  // Simulate 150-250ms network latency
+    // Hand out the order one increment at a time to whichever venue adds the most output.
+    // Output is concave in size (price impact), so this greedy fill finds the best split.
+    const allocation: number[] = dexes.map(() => 0);  // Increments assigned per venue
+    const filledOut = (i: number) => allocation[i] > 0 ? BigInt(ladders[i][allocation[i] - 1].amountOut) : 0n;
+    for (let step = 0; step < steps; step++) {
+      let bestVenue = -1;
+      let bestGain = 0n;
+      ladders.forEach((ladder, i) => {
+        const gain = BigInt(ladder[allocation[i]].amountOut) - filledOut(i);  // Marginal output of one more increment
+        if (bestVenue < 0 || gain > bestGain) {
+          bestGain = gain;
+          bestVenue = i;
+        }
+      });
+      allocation[bestVenue]++;
+    }
+    const splitAmountOut = allocation.reduce((sum, _, i) => sum + filledOut(i), 0n);
+    const splitFee = allocation.reduce((sum, n, i) => n > 0 ? sum + fees[i] : sum, 0n);  // One transaction per venue used
+    const splitNet = splitAmountOut - this.feeIn(tokenOut, splitFee);
+    const improvementBps = (Number(splitNet) / Number(selectedNet) - 1) * 10000;
+    const isSplit = allocation.filter(n => n > 0).length > 1 && selectedNet > 0n && improvementBps >= SPLIT_MIN_IMPROVEMENT_BPS;
     
-    // Meteora typically has 0.2% fee but slightly less liquidity
-    const priceVariance = 0.97 + Math.random() * 0.05;  // Price varies between 97-102% of base
-    const price = this.basePrice * priceVariance;  // Calculate final price with variance
-    const fee = 0.002;  // 0.2% trading fee
-    const amountOut = amountIn * price * (1 - fee);  // Calculate output amount after fees
+    if (isSplit) {
+      // Build one leg per venue that received increments, largest first
+      const legs: RouteLeg[] = allocation
+        .map((n, i) => ({ n, i }))
+        .filter(({ n }) => n > 0)
+        .sort((a, b) => b.n - a.n)
+        .map(({ n, i }) => ({
+          hop,
+          dex: dexes[i],
+          tokenIn,
+          tokenOut,
+          amountIn: (amountIn * BigInt(n) / BigInt(steps)).toString(),
+          share: n / steps,
+          quote: ladders[i][n - 1]
+        }));
+      
+      // Give the last leg whatever rounding left over so the legs add up exactly
+      const routed = legs.slice(0, -1).reduce((sum, leg) => sum + BigInt(leg.amountIn), 0n);
+      legs[legs.length - 1].amountIn = (amountIn - routed).toString();
+      
+      const split = legs.map(leg => `${Math.round(leg.share * 100)}% ${leg.dex.toUpperCase()}`).join(' + ');
+      return {
+        legs,
+        amountOut: splitAmountOut,
+        fee: splitFee,
+        reason: `SPLIT selected: ${split}: ${this.display(tokenOut, splitAmountOut)} ${tokenOut} output (${this.display(tokenOut, splitNet - selectedNet)} better than best single venue, net of fees)`,
+        quotes: compared
+      };
+    }
     
+    const alternatives = quotes.map((quote, i) => net(i, BigInt(quote.amountOut))).filter((_, i) => i !== selected);
+    const runnerUp = alternatives.reduce((best, amount) => amount > best ? amount : best, alternatives[0]);
     return {
-      dex: 'meteora',  // Identify this quote as from Meteora
-      price,  // Price per token
-      amountOut,  // Expected output amount
-      fee,  // Trading fee
-      estimatedGas: 0.00004  // Mock gas cost in SOL (slightly cheaper)
+      legs: [{ hop, dex: selectedQuote.dex, tokenIn, tokenOut, amountIn: amountIn.toString(), share: 1, quote: selectedQuote }],
+      amountOut: selectedAmountOut,
+      fee: fees[selected],
+      reason: runnerUp === undefined
+        ? `${selectedQuote.dex.toUpperCase()} selected: ${this.display(tokenOut, selectedAmountOut)} ${tokenOut} output (only venue quoted)`
+        : `${selectedQuote.dex.toUpperCase()} selected: ${this.display(tokenOut, selectedAmountOut)} ${tokenOut} output (${this.display(tokenOut, selectedNet - runnerUp)} better than alternative, net of fees)`,
+      quotes: compared
     };
   }
   
-  // Compare quotes from both DEXs and select best route
+  // Quote a full path hop by hop, feeding each hop's expected output into the next
+  private async routePath(
+    path: string[],
+    amountIn: bigint,
+    computeUnitPrice: number,
+    dexes?: DexPlatform[]
+  ): Promise<{ path: string[]; legs: RouteLeg[]; amountOut: bigint; fee: bigint; netAmountOut: bigint; reasons: string[]; quotes: RouteQuote[] }> {
+    const legs: RouteLeg[] = [];
+    const reasons: string[] = [];
+    const quotes: RouteQuote[] = [];
+    let amount = amountIn;
+    let fee = 0n;  // Lamports across every leg's transaction
+    
+    for (let hop = 0; hop < path.length - 1; hop++) {
+      const hopDexes = dexes || this.getListedDexes(path[hop], path[hop + 1]);
+      const result = await this.routeHop(hop, path[hop], path[hop + 1], amount, hopDexes, computeUnitPrice);
+      legs.push(...result.legs);
+      reasons.push(result.reason);
+      quotes.push(...result.quotes);
+      amount = result.amountOut;  // Next hop swaps what this one produces
+      fee += result.fee;
+    }
+    
+    const netAmountOut = amount - this.feeIn(path[path.length - 1], fee);  // Longer paths pay for more transactions
+    return { path, legs, amountOut: amount, fee, netAmountOut, reasons, quotes };
+  }
+  
+  // Compare the direct pair and multi-hop paths across every listed DEX and select the route with the
+  // highest output net of fees, its transactions bidding computeUnitPrice (microlamports per compute unit).
+  // Passing dexes pins the route to the direct pair on those venues only.
   async getBestRoute(
     tokenIn: string,
     tokenOut: string,
-    amountIn: number
+    amountIn: bigint,
+    dexes?: DexPlatform[],
+    computeUnitPrice: number = 0
   ): Promise<RouteResult> {
-    console.log(`🔀 Routing order: ${amountIn} ${tokenIn} -> ${tokenOut}`);  // Log routing start
+    console.log(`🔀 Routing order: ${this.display(tokenIn, amountIn, true)} ${tokenIn} -> ${tokenOut}`);  // Log routing start
     
     // Handle wrapped SOL conversion for native SOL swaps
     // Solana native SOL must be wrapped to SPL token for DEX trading
     // This is a CORE REQUIREMENT from the assignment
-    const actualTokenIn = tokenIn === 'SOL' 
-      ? this.WRAPPED_SOL_ADDRESS  // Convert to wrapped SOL address
-      : tokenIn;  // Use token address as-is
-    
-    const actualTokenOut = tokenOut === 'SOL'
-      ? this.WRAPPED_SOL_ADDRESS  // Convert to wrapped SOL address
-      : tokenOut;  // Use token address as-is
+    const actualTokenIn = normalizeToken(tokenIn);  // Convert to wrapped SOL address if needed
+    const actualTokenOut = normalizeToken(tokenOut);  // Convert to wrapped SOL address if needed
     
     if (actualTokenIn !== tokenIn || actualTokenOut !== tokenOut) {
       console.log(`💱 Wrapped SOL handling: ${tokenIn} -> ${actualTokenIn}`);  // Log conversion
       console.log(`   Native SOL converted to wrapped SOL for DEX compatibility`);
     }
     
-    // Fetch quotes from both DEXs concurrently for speed
-    const [raydiumQuote, meteoraQuote] = await Promise.all([
-      this.getRaydiumQuote(actualTokenIn, actualTokenOut, amountIn),  // Get Raydium quote
-      this.getMeteorQuote(actualTokenIn, actualTokenOut, amountIn)    // Get Meteora quote
-    ]);
+    this.simulation.nextSlot();  // Each routing pass sees a fresh market (seeded mode)
+    
+    const paths = dexes ? [[tokenIn, tokenOut]] : this.findPaths(tokenIn, tokenOut);
+    if (paths.length === 0 || (dexes && dexes.length === 0)) {
+      throw new Error(`No DEX available for ${tokenIn} -> ${tokenOut}`);
+    }
     
     // Log routing decisions for transparency (CORE REQUIREMENT)
     console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
     console.log(`📊 DEX ROUTING DECISION (Transparency Log):`);
     console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-    console.log(`💰 Raydium: ${raydiumQuote.amountOut.toFixed(4)} ${tokenOut}`);
-    console.log(`   Price: ${raydiumQuote.price.toFixed(2)}, Fee: ${(raydiumQuote.fee * 100).toFixed(2)}%`);
-    console.log(`💰 Meteora: ${meteoraQuote.amountOut.toFixed(4)} ${tokenOut}`);
-    console.log(`   Price: ${meteoraQuote.price.toFixed(2)}, Fee: ${(meteoraQuote.fee * 100).toFixed(2)}%`);
     
-    // Select DEX with higher output amount (better deal for user)
-    const selectedQuote = raydiumQuote.amountOut > meteoraQuote.amountOut 
-      ? raydiumQuote  // Raydium gives more output
-      : meteoraQuote;  // Meteora gives more output
+    // Quote every candidate path concurrently
+    const candidates = await Promise.all(paths.map(path => this.routePath(path, amountIn, computeUnitPrice, dexes)));
+    for (const candidate of candidates) {
+      console.log(`🛣️  ${candidate.path.join(' -> ')}: ${this.display(tokenOut, candidate.amountOut)} ${tokenOut} (${this.display(tokenOut, candidate.netAmountOut)} net of ${candidate.fee} lamports in fees)`);
+    }
+    
+    // Select the path with the highest net output
+    const best = candidates.reduce((winner, candidate) => candidate.netAmountOut > winner.netAmountOut ? candidate : winner);
+    const pathLabel = best.path.join(' -> ');
     
-    const difference = Math.abs(raydiumQuote.amountOut - meteoraQuote.amountOut);
-    const reason = `${selectedQuote.dex.toUpperCase()} selected: ${selectedQuote.amountOut.toFixed(4)} ${tokenOut} output (${difference.toFixed(4)} better than alternative)`;
+    let reason: string;
+    if (best.path.length === 2) {
+      reason = `${best.reasons[0]} [path: ${pathLabel}]`;  // Direct swap, reason from the venue comparison
+    } else {
+      const alternatives = candidates.filter(candidate => candidate !== best).map(candidate => candidate.netAmountOut);
+      const runnerUp = alternatives.reduce((top, amount) => amount > top ? amount : top, alternatives[0]);
+      const venues = Array.from(new Set(best.legs.map(leg => leg.dex.toUpperCase()))).join(', ');
+      reason = `${pathLabel} selected via ${venues}: ${this.display(tokenOut, best.amountOut)} ${tokenOut} output` +
+        (runnerUp === undefined ? ' (only path available)' : ` (${this.display(tokenOut, best.netAmountOut - runnerUp)} better than next best path, net of fees)`);
+    }
     
     console.log(`\n✅ ROUTING DECISION: ${reason}`);  // Log final routing decision
     console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
     
     return {
-      selectedDex: selectedQuote.dex,  // Which DEX won
-      quote: selectedQuote,  // The winning quote
-      reason  // Explanation of decision (logged for transparency)
+      selectedDex: best.legs[0].dex,  // Which DEX won (largest leg of the first hop)
+      quote: best.legs[0].quote,  // The winning quote (largest leg of the first hop)
+      reason,  // Explanation of decision (logged for transparency)
+      path: best.path,  // Tokens traversed
+      legs: best.legs,  // Legs to execute, hop by hop
+      amountOut: best.amountOut.toString(),  // Expected output of the final hop
+      computeUnitPrice,  // Priority fee the fees were estimated with
+      estimatedFee: best.fee.toString(),  // Lamports across every leg's transaction
+      netAmountOut: (best.netAmountOut > 0n ? best.netAmountOut : 0n).toString(),  // Fees can outweigh a dust-sized order's output
+      quotes: best.quotes  // Every venue quote compared along the path
     };
   }
   
-  // Execute swap on selected DEX (mocked)
+  // Expected output of an earlier route at current prices: the same legs on the same venues,
+  // each later hop splitting the previous hop's output by share (as the worker executes it)
+  async repriceRoute(route: RouteResult): Promise<bigint> {
+    this.simulation.nextSlot();  // Fresh market, as for a routing pass
+    
+    let hopInput = 0n;  // What the previous hop would produce now
+    for (let hop = 0; hop < route.path.length - 1; hop++) {
+      const legs = route.legs.filter(leg => leg.hop === hop);
+      let unassigned = hopInput;
+      const amounts = legs.map((leg, i) => {
+        if (hop === 0) {
+          return BigInt(leg.amountIn);
+        }
+        const amount = i === legs.length - 1 ? unassigned : hopInput * BigInt(Math.round(leg.share * 10000)) / 10000n;
+        unassigned -= amount;
+        return amount;
+      });
+      const quotes = await Promise.all(legs.map((leg, i) => this.getQuote(leg.dex, leg.tokenIn, leg.tokenOut, amounts[i])));
+      hopInput = quotes.reduce((sum, quote) => sum + BigInt(quote.amountOut), 0n);
+    }
+    
+    const tokenOut = route.path[route.path.length - 1];
+    console.log(`🔎 Re-priced ${route.path.join(' -> ')}: ${this.display(tokenOut, hopInput)} ${tokenOut} (quoted ${this.display(tokenOut, BigInt(route.amountOut))})`);
+    return hopInput;
+  }
+  
+  // Execute swap on selected DEX; fails with SLIPPAGE_EXCEEDED rather than fill below minAmountOut
   async executeSwap(
     dex: DexPlatform,
     tokenIn: string,
     tokenOut: string,
-    amountIn: number,
-    expectedAmountOut: number,
-    slippage: number
+    amountIn: bigint,
+    minAmountOut: bigint
   ): Promise<ExecutionResult> {
-    console.log(`⚡ Executing swap on ${dex}: ${amountIn} ${tokenIn} -> ${tokenOut}`);  // Log execution start
+    console.log(`⚡ Executing swap on ${dex}: ${this.display(tokenIn, amountIn, true)} ${tokenIn} -> ${tokenOut} (min ${this.display(tokenOut, minAmountOut, true)})`);  // Log execution start
     
     // Handle wrapped SOL for execution
-    const actualTokenIn = tokenIn === 'SOL' ? this.WRAPPED_SOL_ADDRESS : tokenIn;
-    const actualTokenOut = tokenOut === 'SOL' ? this.WRAPPED_SOL_ADDRESS : tokenOut;
+    const actualTokenIn = normalizeToken(tokenIn);
+    const actualTokenOut = normalizeToken(tokenOut);
     
     if (actualTokenIn !== tokenIn) {
       console.log(`   Wrapping native SOL before swap...`);
     }
     
-    // Simulate realistic execution time (2-3 seconds for blockchain confirmation)
-    const executionTime = 2000 + Math.random() * 1000;  // 2000-3000ms
-    await sleep(executionTime);  // Wait for "confirmation"
+    const result = await this.registry.get(dex).executeSwap(
+      actualTokenIn, actualTokenOut, amountIn, minAmountOut
+    );
     
-    // Simulate 5% chance of failure (realistic for blockchain)
-    const failureChance = Math.random();  // Random number 0-1
-    if (failureChance < 0.05) {  // 5% chance
-      console.error(`❌ Swap failed on ${dex}`);  // Log failure
-      return {
-        success: false,  // Indicate failure
-        error: 'Simulation: Transaction failed due to network congestion'  // Mock error message
-      };
+    if (!result.success) {
+      return result;  // Adapter already logged the failure
     }
     
-    // Simulate successful execution with slight price slippage
-    const actualSlippage = Math.random() * slippage;  // Random slippage up to max
-    const actualAmountOut = expectedAmountOut * (1 - actualSlippage);  // Apply slippage to output
-    const actualPrice = actualAmountOut / amountIn;  // Calculate actual execution price
-    const txHash = generateMockTxHash();  // Generate mock transaction hash
-    
     if (actualTokenOut !== tokenOut) {
       console.log(`   Unwrapping to native SOL after swap...`);
     }
     
-    console.log(`✅ Swap executed: ${actualAmountOut.toFixed(4)} ${tokenOut} received`);  // Log success
-    console.log(`📝 Transaction hash: ${txHash}`);  // Log transaction hash
+    console.log(`✅ Swap executed: ${this.display(tokenOut, BigInt(result.amountOut as string))} ${tokenOut} received`);  // Log success
+    console.log(`📝 Transaction hash: ${result.txHash}`);  // Log transaction hash
     
-    return {
-      success: true,  // Indicate success
-      txHash,  // Transaction hash
-      executedPrice: actualPrice,  // Actual execution price
-      amountOut: actualAmountOut  // Actual output amount
-    };
+    return result;
   }
-}
\ No newline at end of file
+}
+
+// Export singleton instance so quoting, sniping and execution in this process share one pool state.
+// Pool listings reach other processes through the pool listing log (pool-listings.ts); reserves move only with local swaps.
+export const dexRouter = new MockDexRouter(undefined, createSimulationFromEnv());  // Single shared instance
@@ -0,0 +1,59 @@
+import { PriorityFeeEstimate, PriorityFeeLevel, PriorityFeeSetting } from '../types';  // Import type definitions
+import { SimulatedChain, chain } from './chain';  // Recent prioritization fees and congestion
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Recent slots an estimate is drawn from (~20s): long enough to smooth per-slot noise, short enough to follow congestion
+const ESTIMATE_WINDOW_SLOTS = 50;
+
+// Percentile of the recent fees each level bids
+const LEVEL_PERCENTILES: Record<PriorityFeeLevel, number> = {
+  low: 25,  // Cheap; may wait or be dropped when the network is busy
+  normal: 50,  // What a typical slot asked for
+  turbo: 90  // Outbids nearly every recent slot
+};
+
+// Named levels, in the order they are listed
+export const PRIORITY_FEE_LEVELS = Object.keys(LEVEL_PERCENTILES) as PriorityFeeLevel[];
+
+// Highest explicit priority fee an order may bid (microlamports per compute unit)
+export const MAX_PRIORITY_FEE = parseInt(process.env.MAX_PRIORITY_FEE_MICROLAMPORTS || '10000000');
+
+// Nearest-rank percentile of a sorted list
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+// Whether a value is a priority fee setting an order may use: a named level or a whole number of
+// microlamports per compute unit up to MAX_PRIORITY_FEE
+export function isPriorityFeeSetting(value: unknown): value is PriorityFeeSetting {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= MAX_PRIORITY_FEE;
+  }
+  return PRIORITY_FEE_LEVELS.includes(value as PriorityFeeLevel);
+}
+
+// Priority fee estimates from the chain's recent prioritization fees
+export class PriorityFeeEstimator {
+  constructor(private readonly chain: SimulatedChain) {}
+
+  // Current estimate for every level
+  estimate(): PriorityFeeEstimate {
+    const fees = this.chain.getRecentPrioritizationFees().slice(-ESTIMATE_WINDOW_SLOTS);
+    const sorted = fees.map(fee => fee.prioritizationFee).sort((a, b) => a - b);
+    const levels = {} as Record<PriorityFeeLevel, number>;
+    for (const level of PRIORITY_FEE_LEVELS) {
+      levels[level] = percentile(sorted, LEVEL_PERCENTILES[level]);
+    }
+    return { slot: fees[fees.length - 1].slot, congestion: this.chain.getCongestion(), levels };
+  }
+
+  // Compute unit price (microlamports) a setting bids right now: explicit prices as given, levels as estimated
+  resolve(setting: PriorityFeeSetting = 'normal'): number {
+    return typeof setting === 'number' ? setting : this.estimate().levels[setting];
+  }
+}
+
+// Shared estimator on the shared chain
+export const priorityFees = new PriorityFeeEstimator(chain);
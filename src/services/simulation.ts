@@ -0,0 +1,156 @@
+import fs from 'fs';  // Scenario files are read from disk
+import path from 'path';  // Resolve scenario paths relative to the working directory
+import { DexPlatform, SimulationConfig, SimulationScenario } from '../types';  // Import type definitions
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Defaults reproduce the original mock behaviour
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  quoteLatencyMs: [150, 250],  // 150-250ms quote latency
+  executionLatencyMs: [2000, 3000],  // 2-3s until a sent transaction lands
+  failureRate: 0.05,  // 5% of swaps fail
+  executionDrift: 0.012,  // Market moves up to ±1.2% between quote and fill
+  fees: {},  // Venues keep their own fees
+  slotMs: 400,  // Solana's target slot time; quotes within one slot see the same market
+  dropRate: 0.02,  // 2% of sent transactions are dropped before reaching a leader
+  blockhashValiditySlots: 150,  // A blockhash expires 150 slots (~60s) after it was produced
+  congestion: 0.3  // Moderately busy network
+};
+
+// Seedable PRNG (mulberry32) returning floats in [0, 1)
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 32-bit FNV-1a hash, used to give every stream its own seed
+function hashString(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Source of every random draw, market slot and scripted event in the mock environment.
+// Unseeded it behaves like Math.random() and the wall clock; seeded it replays exactly.
+export class Simulation {
+  readonly config: SimulationConfig;
+  private streams: Map<string, () => number> = new Map();  // Key: stream name, e.g. 'market:raydium'
+  private slot = 0;  // Market slot counter (seeded mode)
+  private quoteCursor: Map<DexPlatform, number> = new Map();  // Next scripted quote per venue
+  private executions: Map<DexPlatform, number> = new Map();  // Executions seen per venue
+
+  constructor(config: Partial<SimulationConfig> = {}, readonly scenario?: SimulationScenario) {
+    this.config = { ...DEFAULT_SIMULATION_CONFIG, ...scenario?.config, ...config };  // Explicit config wins over the scenario
+  }
+
+  // Whether draws are reproducible
+  get deterministic(): boolean {
+    return this.config.seed !== undefined;
+  }
+
+  // Next draw in [0, 1) from a named stream. Each venue and purpose gets its own stream,
+  // so concurrent quotes on one venue never shift the draws seen by another.
+  random(stream: string): number {
+    if (!this.deterministic) {
+      return Math.random();
+    }
+
+    let rng = this.streams.get(stream);
+    if (!rng) {
+      rng = createRng(((this.config.seed as number) ^ hashString(stream)) >>> 0);
+      this.streams.set(stream, rng);
+    }
+    return rng();
+  }
+
+  // Draw uniformly from a [min, max] range
+  between([min, max]: [number, number], stream: string): number {
+    return min + this.random(stream) * (max - min);
+  }
+
+  // Current market slot: follows the wall clock live, advanced once per routing pass when seeded
+  currentSlot(): number {
+    return this.deterministic ? this.slot : Math.floor(Date.now() / this.config.slotMs);
+  }
+
+  // Start a new market slot (no effect on live slots, which follow the clock)
+  nextSlot(): void {
+    this.slot++;
+  }
+
+  // Fee for a venue, honouring the configured fee table
+  fee(dex: DexPlatform, defaultFee: number): number {
+    return this.config.fees[dex] ?? defaultFee;
+  }
+
+  // Next scripted price multiplier for a venue, or undefined once its script runs out
+  nextScriptedQuote(dex: DexPlatform): number | undefined {
+    const quotes = this.scenario?.venues?.[dex]?.quotes;
+    const cursor = this.quoteCursor.get(dex) || 0;
+    if (!quotes || cursor >= quotes.length) {
+      return undefined;
+    }
+    this.quoteCursor.set(dex, cursor + 1);
+    return quotes[cursor];
+  }
+
+  // Count an execution on a venue and report what the scenario scripts for it
+  nextExecution(dex: DexPlatform): { index: number; forcedFailure: boolean; move?: number } {
+    const index = (this.executions.get(dex) || 0) + 1;  // 1-based, matching scenario files
+    this.executions.set(dex, index);
+    const script = this.scenario?.venues?.[dex];
+    return {
+      index,
+      forcedFailure: script?.failures?.includes(index) ?? false,
+      move: script?.moves?.[index - 1]  // Undefined once the script runs out
+    };
+  }
+}
+
+// Read and sanity-check a scenario file
+export function loadScenario(file: string): SimulationScenario {
+  const fullPath = path.resolve(file);
+  const scenario = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+
+  if (typeof scenario.name !== 'string') {
+    throw new Error(`Invalid scenario file ${file}: missing name`);
+  }
+  for (const [dex, script] of Object.entries<any>(scenario.venues || {})) {
+    if (script.quotes && !script.quotes.every((quote: unknown) => typeof quote === 'number' && quote > 0)) {
+      throw new Error(`Invalid scenario file ${file}: quotes for ${dex} must be positive numbers`);
+    }
+    if (script.failures && !script.failures.every((n: unknown) => Number.isInteger(n) && (n as number) > 0)) {
+      throw new Error(`Invalid scenario file ${file}: failures for ${dex} must be positive integers`);
+    }
+    if (script.moves && !script.moves.every((move: unknown) => typeof move === 'number' && move > 0)) {
+      throw new Error(`Invalid scenario file ${file}: moves for ${dex} must be positive numbers`);
+    }
+  }
+
+  return scenario;
+}
+
+// Build the simulation for this process from SIM_SEED / SIM_SCENARIO
+export function createSimulationFromEnv(): Simulation {
+  const scenario = process.env.SIM_SCENARIO ? loadScenario(process.env.SIM_SCENARIO) : undefined;
+  const config: Partial<SimulationConfig> = process.env.SIM_SEED ? { seed: parseInt(process.env.SIM_SEED) } : {};
+  const simulation = new Simulation(config, scenario);
+
+  if (scenario) {
+    console.log(`🧪 Simulation scenario loaded: ${scenario.name}`);
+  }
+  if (simulation.deterministic) {
+    console.log(`🧪 Deterministic simulation, seed ${simulation.config.seed}`);
+  }
+  return simulation;
+}
@@ -0,0 +1,194 @@
+import fs from 'fs';  // Token lists are read from disk
+import path from 'path';  // Resolve token list paths relative to the working directory
+import { BaseUnits, TokenInfo } from '../types';  // Import type definitions
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Wrapped SOL address on Solana (native SOL must be wrapped for DEX trading)
+export const WRAPPED_SOL_ADDRESS = 'So11111111111111111111111111111111111111112';
+
+// Tokens the engine trades out of the box (mainnet mints)
+export const DEFAULT_TOKENS: TokenInfo[] = [
+  { symbol: 'SOL', mint: WRAPPED_SOL_ADDRESS, decimals: 9, enabled: true },
+  { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6, enabled: true },
+  { symbol: 'USDT', mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', decimals: 6, enabled: true },
+  { symbol: 'BONK', mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5, enabled: true },
+  { symbol: 'JUP', mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', decimals: 6, enabled: true }
+];
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Whether a string is a base58-encoded 32-byte public key, the form of every SPL mint address
+export function isValidMint(address: string): boolean {
+  if (address.length < 32 || address.length > 44) {
+    return false;
+  }
+  let value = 0n;
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      return false;  // 0, O, I and l are not base58
+    }
+    value = value * 58n + BigInt(digit);
+  }
+  const leadingZeros = address.length - address.replace(/^1+/, '').length;  // Each leading '1' is a zero byte
+  const bytes = value === 0n ? 0 : Math.ceil(value.toString(16).length / 2);
+  return leadingZeros + bytes === 32;
+}
+
+// Base58 encoding of raw bytes (signatures, blockhashes)
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = value * 256n + BigInt(byte);
+  }
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  const leadingZeros = bytes.findIndex(byte => byte !== 0);
+  return '1'.repeat(leadingZeros < 0 ? bytes.length : leadingZeros) + encoded;  // Each zero byte is a leading '1'
+}
+
+// Decimal string (e.g. '1.5') to integer base units; refuses more decimal places than the token has
+export function parseUnits(amount: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+  if (!match) {
+    throw new Error(`Invalid amount '${amount}': expected a plain decimal number`);
+  }
+  const [, whole, fraction = ''] = match;
+  if (/[1-9]/.test(fraction.slice(decimals))) {
+    throw new Error(`Amount ${amount} has more than ${decimals} decimal places`);
+  }
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+}
+
+// Integer base units to an exact decimal string (e.g. 1500000000n with 9 decimals -> '1.5')
+export function formatUnits(amount: bigint, decimals: number): string {
+  const sign = amount < 0n ? '-' : '';
+  const digits = (amount < 0n ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// Tokens the engine knows, by symbol and by mint. Orders may name a token either way;
+// everything downstream (orders, fills, pools) uses the symbol.
+export class TokenRegistry {
+  private tokens: Map<string, TokenInfo> = new Map();  // Key: symbol
+  private mints: Map<string, string> = new Map();  // Mint -> symbol
+
+  constructor(tokens: TokenInfo[] = DEFAULT_TOKENS) {
+    tokens.forEach(token => this.register(token));
+  }
+
+  // Add a token (symbols and mints must be unique)
+  register(token: TokenInfo): void {
+    if (!/^[A-Za-z0-9]{1,16}$/.test(token.symbol)) {
+      throw new Error(`Invalid token symbol: ${token.symbol}`);
+    }
+    if (!isValidMint(token.mint)) {
+      throw new Error(`Invalid mint for ${token.symbol}: ${token.mint} is not a base58 address`);
+    }
+    if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 18) {
+      throw new Error(`Invalid decimals for ${token.symbol}: ${token.decimals}`);
+    }
+    if (this.tokens.has(token.symbol) || this.mints.has(token.mint)) {
+      throw new Error(`Token already registered: ${token.symbol} (${token.mint})`);
+    }
+    this.tokens.set(token.symbol, { ...token });
+    this.mints.set(token.mint, token.symbol);
+  }
+
+  // Token by symbol or mint, if known
+  find(symbolOrMint: string): TokenInfo | undefined {
+    return this.tokens.get(symbolOrMint) ?? this.tokens.get(this.mints.get(symbolOrMint) ?? '');
+  }
+
+  // Token by symbol or mint, failing loudly for unknown tokens
+  get(symbolOrMint: string): TokenInfo {
+    const token = this.find(symbolOrMint);
+    if (!token) {
+      throw new Error(`Unknown token: ${symbolOrMint}`);
+    }
+    return token;
+  }
+
+  // Token an order may trade: a known symbol or mint that is enabled
+  resolve(symbolOrMint: string): TokenInfo {
+    const token = this.find(symbolOrMint);
+    if (!token) {
+      if (isValidMint(symbolOrMint)) {
+        throw new Error(`Unknown token mint: ${symbolOrMint}`);
+      }
+      throw new Error(/^[A-Za-z0-9]{1,16}$/.test(symbolOrMint)
+        ? `Unknown token: ${symbolOrMint}`
+        : `${symbolOrMint} is neither a known token symbol nor a valid base58 mint address`);
+    }
+    if (!token.enabled) {
+      throw new Error(`Token ${token.symbol} is disabled`);
+    }
+    return token;
+  }
+
+  // Turn trading of a token on or off
+  setEnabled(symbolOrMint: string, enabled: boolean): void {
+    this.get(symbolOrMint).enabled = enabled;
+  }
+
+  // All registered tokens
+  list(): TokenInfo[] {
+    return Array.from(this.tokens.values()).map(token => ({ ...token }));
+  }
+
+  // Base units as a (possibly rounded) token amount, for prices, USD values and logs
+  toUiAmount(token: string, amount: bigint | BaseUnits): number {
+    return Number(formatUnits(BigInt(amount), this.get(token).decimals));
+  }
+
+  // Token amount from floating-point math (pool curves) to base units, rounded down
+  toBaseUnits(token: string, uiAmount: number): bigint {
+    if (!Number.isFinite(uiAmount) || uiAmount <= 0) {
+      return 0n;
+    }
+    return BigInt(Math.floor(uiAmount * 10 ** this.get(token).decimals));
+  }
+
+  // Exact decimal string of an amount in base units, e.g. '1.5'
+  format(token: string, amount: bigint | BaseUnits): string {
+    return formatUnits(BigInt(amount), this.get(token).decimals);
+  }
+}
+
+// Load a token list file: a JSON array of { symbol, mint, decimals, enabled? }
+export function loadTokenList(file: string): TokenInfo[] {
+  const tokens = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+  if (!Array.isArray(tokens)) {
+    throw new Error(`Invalid token list ${file}: expected an array of tokens`);
+  }
+  return tokens.map((token: any) => ({
+    symbol: token.symbol,
+    mint: token.mint,
+    decimals: token.decimals,
+    enabled: token.enabled ?? true  // Listed tokens trade unless switched off
+  }));
+}
+
+// Build the registry from TOKEN_LIST (replaces the defaults) and DISABLED_TOKENS (comma-separated)
+export function createTokenRegistryFromEnv(): TokenRegistry {
+  const registry = new TokenRegistry(process.env.TOKEN_LIST ? loadTokenList(process.env.TOKEN_LIST) : DEFAULT_TOKENS);
+
+  for (const token of (process.env.DISABLED_TOKENS || '').split(',').map(t => t.trim()).filter(Boolean)) {
+    registry.setEnabled(token, false);
+    console.log(`🚫 Token disabled: ${token}`);
+  }
+  if (process.env.TOKEN_LIST) {
+    console.log(`🪙 Token list loaded: ${registry.list().length} token(s) from ${process.env.TOKEN_LIST}`);
+  }
+  return registry;
+}
+
+// Shared registry used for validation, pool math and amount formatting
+export const tokenRegistry = createTokenRegistryFromEnv();
@@ -4,22 +4,45 @@ export type OrderType = 'market' | 'limit' | 'sniper';
 // Status progression through order lifecycle
 export type OrderStatus = 
   | 'pending'      // Order received and queued
+  | 'waiting'      // Limit/sniper order parked until its trigger condition is met
   | 'routing'      // Comparing DEX prices
   | 'building'     // Creating transaction
   | 'submitted'    // Transaction sent to network
   | 'confirmed'    // Transaction successful
-  | 'failed';      // If any step fails
+  | 'failed'       // If any step fails
+  | 'expired'      // Limit/sniper order reached its expiry without triggering
+  | 'cancelled';   // Cancelled by the user before it was submitted
 
-// DEX platforms we support
-export type DexPlatform = 'raydium' | 'meteora';
+// ID of a registered DEX venue (e.g. 'raydium', 'meteora')
+export type DexPlatform = string;
+
+// Token amount in the token's smallest unit (lamports for SOL), as an integer string so it survives JSON
+export type BaseUnits = string;
+
+// Token the engine can trade
+export interface TokenInfo {
+  symbol: string;              // Ticker used in orders, pools and logs (e.g. 'USDC')
+  mint: string;                // SPL mint address (base58)
+  decimals: number;            // Base units per token = 10^decimals
+  enabled: boolean;            // Whether new orders may trade it
+}
 
 // Incoming order request from user
 export interface OrderRequest {
   orderType: OrderType;        // Type of order (we'll use 'market')
-  tokenIn: string;             // Input token address (e.g., SOL)
-  tokenOut: string;            // Output token address (e.g., USDC)
-  amountIn: number;            // Amount to swap
+  tokenIn: string;             // Input token symbol (e.g., SOL)
+  tokenOut: string;            // Output token symbol (e.g., USDC)
+  amountIn: BaseUnits;         // Amount to swap, in tokenIn base units
   slippage?: number;           // Optional slippage tolerance (default 0.01)
+  limitPrice?: number;         // Limit orders: minimum tokenOut received per tokenIn
+  expiresAt?: Date;            // Limit orders: optional expiry; sniper orders: createdAt + maxWaitMs
+  maxPrice?: number;           // Sniper orders: maximum tokenIn paid per tokenOut
+  maxWaitMs?: number;          // Sniper orders: how long to wait for a pool
+  minLiquidity?: number;       // Sniper orders: minimum pool liquidity (USD) required to fire
+  idempotencyKey?: string;     // Idempotency-Key header the order was submitted with
+  accountId?: string;          // Account the order belongs to (taken from the API key)
+  quoteId?: string;            // Market orders: firm quote the order executes against
+  priorityFee?: PriorityFeeSetting;  // Priority fee its transactions bid (default 'normal')
 }
 
 // Complete order with metadata
@@ -28,26 +51,362 @@ export interface Order extends OrderRequest {
   status: OrderStatus;         // Current status
   dexUsed?: DexPlatform;       // Which DEX was selected
   executedPrice?: number;      // Final execution price
+  amountOut?: BaseUnits;       // Output amount actually received (tokenOut base units)
   txHash?: string;             // Transaction hash
   error?: string;              // Error message if failed
+  lastQuotedPrice?: number;    // Limit orders: latest best quote seen while waiting
+  priceDistance?: number;      // Limit orders: % the quote must still move to reach limitPrice
+  routePath?: string;          // Token path of the executed route, e.g. 'BONK -> SOL -> USDC'
+  quotedAmountOut?: BaseUnits; // Output the route quotes promised for the filled legs
+  slippageBps?: number;        // Fill vs. quote shortfall in basis points (positive = worse than quoted)
+  failureReason?: ExecutionErrorCode;  // Code of the most recent execution failure
+  fills?: OrderFill[];         // Executed route legs (several when the order was split or multi-hop)
+  forcedDex?: DexPlatform;     // Requeued orders: venue an admin pinned the route to
+  networkFee?: BaseUnits;      // Lamports paid for every filled leg's transaction, priority fees included
+  priorityFeePaid?: BaseUnits; // Part of networkFee paid as priority fees
   createdAt: Date;             // Timestamp
   updatedAt: Date;             // Last update timestamp
 }
 
+// Order fields that change after submission
+type MutableOrderField =
+  | 'slippage' | 'dexUsed' | 'executedPrice' | 'amountOut' | 'txHash' | 'error' | 'routePath'
+  | 'lastQuotedPrice' | 'priceDistance' | 'quotedAmountOut' | 'slippageBps' | 'failureReason'
+  | 'networkFee' | 'priorityFeePaid';
+
+// Changes to a stored order: omitted (or undefined) fields keep their value, null clears them
+export type OrderUpdate = { status?: OrderStatus } & { [K in MutableOrderField]?: NonNullable<Order[K]> | null };
+
+// Pricing curve of a simulated pool
+export type PoolModel =
+  | 'constant-product'  // x * y = k across the whole price range (Raydium-style)
+  | 'bins';             // Liquidity concentrated in discrete price bins (Meteora DLMM-style)
+
+// Fields the order listing can be sorted by
+export type OrderSortField = 'createdAt' | 'updatedAt' | 'amountIn';
+
+// Filters, sort and page position for listing orders
+export interface OrderListQuery {
+  statuses?: OrderStatus[];    // Any of these statuses
+  tokenIn?: string;            // Exact input token
+  tokenOut?: string;           // Exact output token
+  dexUsed?: DexPlatform;       // Venue that appears in dex_used (split orders list several)
+  orderType?: OrderType;       // Exact order type
+  createdFrom?: Date;          // createdAt >= createdFrom
+  createdTo?: Date;            // createdAt < createdTo
+  accountId?: string;          // Only this account's orders
+  sort: OrderSortField;        // Sort field
+  direction: 'asc' | 'desc';   // Sort direction
+  limit: number;               // Page size
+  after?: OrderCursor;         // Continue after this position
+}
+
+// Position in a sorted order listing (the last row of the previous page)
+export interface OrderCursor {
+  value: string;               // Sort field value of the last row, as text
+  orderId: string;             // Tie-breaker for rows with the same sort value
+}
+
+// One page of orders
+export interface OrderPage {
+  orders: Order[];
+  nextCursor: string | null;   // Pass as ?cursor= to fetch the next page; null on the last page
+}
+
+// Liquidity pool listed on a DEX
+export interface PoolInfo {
+  dex: DexPlatform;            // Which DEX hosts the pool
+  model: PoolModel;            // Pricing curve
+  tokenA: string;              // First token of the pair
+  tokenB: string;              // Second token of the pair
+  reserveA: number;            // tokenA held by the pool
+  reserveB: number;            // tokenB held by the pool
+  liquidity: number;           // Total pool liquidity (USD)
+  createdAt: Date;             // When the pool was listed
+}
+
+// Liquidity added to a pair on a DEX, as shared between processes
+export interface PoolListing {
+  dex: DexPlatform;            // Venue of the pool
+  tokenA: string;              // First token of the pair
+  tokenB: string;              // Second token of the pair
+  liquidity: number;           // Liquidity added (USD)
+}
+
 // Quote from a DEX
 export interface DexQuote {
   dex: DexPlatform;            // Which DEX provided this quote
   price: number;               // Price per token
-  amountOut: number;           // Expected output amount
+  amountOut: BaseUnits;        // Expected output amount
   fee: number;                 // Trading fee percentage
-  estimatedGas: number;        // Estimated gas cost
+  estimatedGas: number;        // Estimated gas cost (base network fee, in SOL)
+  computeUnits: number;        // Compute units the swap's transaction requests (priority fees are paid per unit)
+  priceImpact: number;         // Fraction lost to moving the pool's price (0.01 = 1%)
+}
+
+// Venue integration registered with the DEX registry
+export interface DexAdapter {
+  id: DexPlatform;             // Venue ID stored in dex_used and sent over WebSocket
+  name: string;                // Display name for logs
+  getQuote(tokenIn: string, tokenOut: string, amountIn: bigint): Promise<DexQuote>;  // Quote a swap (amounts in base units)
+  executeSwap(                 // Execute a swap against this venue, failing if it would return less than minAmountOut
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    minAmountOut: bigint
+  ): Promise<ExecutionResult>;
+  getSupportedPairs(): PoolInfo[];  // Pools this venue can trade
+  listPool?(tokenA: string, tokenB: string, liquidity: number): PoolInfo;  // Simulated venues only: add liquidity
+}
+
+// Portion of a route sent to a single DEX
+export interface RouteLeg {
+  hop: number;                 // Position in the path (0 for the first swap)
+  dex: DexPlatform;            // Venue for this leg
+  tokenIn: string;             // Input token
+  tokenOut: string;            // Output token
+  amountIn: BaseUnits;         // Input amount routed to this venue
+  share: number;               // Fraction of this hop's input (0-1)
+  quote: DexQuote;             // Quote for exactly this leg's amountIn
 }
 
 // Result of routing decision
 export interface RouteResult {
-  selectedDex: DexPlatform;    // Which DEX we chose
-  quote: DexQuote;             // The winning quote
-  reason: string;              // Why we chose this DEX
+  selectedDex: DexPlatform;    // Which DEX we chose (largest leg when split)
+  quote: DexQuote;             // The winning quote (largest leg when split)
+  reason: string;              // Why we chose this DEX and path
+  path: string[];              // Tokens traversed, e.g. ['BONK', 'SOL', 'USDC']
+  legs: RouteLeg[];            // Legs of every hop; several per hop when split
+  amountOut: BaseUnits;        // Expected output of the final hop
+  computeUnitPrice: number;    // Priority fee the route was priced with (microlamports per compute unit)
+  estimatedFee: BaseUnits;     // Lamports the legs' transactions are expected to pay, priority fees included
+  netAmountOut: BaseUnits;     // amountOut less estimatedFee converted into tokenOut (what routes are ranked by)
+  quotes: RouteQuote[];        // Full-size quote from every venue compared on each hop of the path
+}
+
+// Venue quote compared while routing one hop
+export interface RouteQuote extends DexQuote {
+  hop: number;                 // Position in the path the quote was for
+}
+
+// Firm quote from POST /api/quotes: a route an order can execute against until expiresAt
+export interface Quote {
+  quoteId: string;             // Unique identifier, passed as quoteId when executing
+  accountId: string;           // Account that requested it (only its orders may use it)
+  tokenIn: string;             // Input token symbol
+  tokenOut: string;            // Output token symbol
+  amountIn: BaseUnits;         // Amount quoted, in tokenIn base units
+  slippage: number;            // Tolerance vs. amountOut the order will accept
+  priorityFee: PriorityFeeSetting;  // Priority fee the route was priced with (orders using the quote default to it)
+  route: RouteResult;          // Chosen route, with every venue quote that was compared
+  amountOut: BaseUnits;        // Expected output of the route
+  minAmountOut: BaseUnits;     // Least the order will accept (amountOut minus slippage)
+  createdAt: Date;
+  expiresAt: Date;             // After this, orders using the quote fail with QUOTE_EXPIRED
+}
+
+// Executed leg of an order
+export interface OrderFill {
+  legIndex: number;            // Position of this fill within the order
+  hop: number;                 // Position of the swap within its route path
+  dex: DexPlatform;            // Venue that filled the leg
+  tokenIn: string;             // Input token
+  tokenOut: string;            // Output token
+  amountIn: BaseUnits;         // Input amount swapped
+  amountOut: BaseUnits;        // Output amount received
+  quotedAmountOut: BaseUnits;  // Output the route quote promised for this leg
+  executedPrice: number;       // tokenOut received per tokenIn for this leg
+  txHash: string;              // Transaction hash for this leg
+  networkFee: BaseUnits;       // Lamports paid for this leg's transaction, priority fee included
+  priorityFee: BaseUnits;      // Part of networkFee paid as priority fee
+}
+
+// Tunables for the simulated market
+export interface SimulationConfig {
+  seed?: number;                         // Set to make every random draw reproducible
+  quoteLatencyMs: [number, number];      // Min/max simulated quote latency
+  executionLatencyMs: [number, number];  // Min/max time until a sent transaction lands in a slot
+  failureRate: number;                   // Probability (0-1) that a swap fails
+  executionDrift: number;                // Max fractional market move between quote and fill (0.012 = ±1.2%)
+  fees: Record<DexPlatform, number>;     // Per-venue fee overrides (0.003 = 0.3%)
+  slotMs: number;                        // Length of a slot (market and chain)
+  dropRate: number;                      // Probability (0-1) that a sent transaction never reaches a leader
+  blockhashValiditySlots: number;        // Slots a blockhash can be used for (150 on mainnet)
+  congestion: number;                    // Baseline network congestion (0-1) the priority fee market drifts around
+}
+
+// Scripted behaviour for one venue within a scenario
+export interface VenueScript {
+  quotes?: number[];           // Price multipliers (vs. reference price), one per market slot, in order
+  failures?: number[];         // Executions (1-based, counted per venue) that are forced to fail
+  moves?: number[];            // Market move applied to each execution, in order (0.98 = 2% against the trade)
+}
+
+// Scenario file: simulation settings plus per-venue scripts, replayed identically every run
+export interface SimulationScenario {
+  name: string;                // Scenario name for logs
+  description?: string;        // What the scenario demonstrates
+  config?: Partial<SimulationConfig>;  // Overrides applied on top of the defaults
+  venues?: Record<DexPlatform, VenueScript>;  // Scripts keyed by venue ID
+}
+
+// Why a swap failed
+export type ExecutionErrorCode =
+  | 'SLIPPAGE_EXCEEDED'   // Market moved so the output would fall below minAmountOut
+  | 'EXECUTION_FAILED'    // Transaction failed on-chain (network congestion, etc.)
+  | 'QUOTE_EXPIRED'       // Firm quote expired before the order could be submitted
+  | 'TRANSACTION_EXPIRED'; // Blockhash expired before the transaction landed, on every rebuild
+
+// Category a final failure is counted under in post-mortems
+export type FailureErrorType =
+  | ExecutionErrorCode     // Swap-level failure reported by the venue
+  | 'ROUTING_FAILED'       // No route could be quoted (e.g. no pool for the pair)
+  | 'INTERNAL_ERROR';      // Anything else (database, queue, bug)
+
+// Route the failing attempt was executing, as stored with the failure
+export interface FailureRouteSnapshot {
+  reason: string;              // Routing decision
+  routePath: string;           // Token path(s)
+  quotes: RouteQuote[];        // Every venue quote compared
+  legs: Array<Pick<RouteLeg, 'hop' | 'dex' | 'tokenIn' | 'tokenOut' | 'amountIn' | 'share'> & { quotedAmountOut: BaseUnits }>;  // Planned legs
+}
+
+// Structured post-mortem of an order that exhausted its attempts
+export interface OrderFailure {
+  failureId: number;           // Failure identifier
+  orderId: string;             // Failed order
+  orderType: OrderType;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: BaseUnits;
+  errorType: FailureErrorType; // Post-mortem category
+  errorClass: string;          // Class of the thrown error (e.g. 'Error', 'TypeError')
+  errorMessage: string;        // Message of the thrown error
+  stack: string | null;        // Stack trace
+  attempt: number;             // Attempt that failed for good (1-based)
+  maxAttempts: number;         // Attempts allowed
+  failedStep: OrderStatus;     // Last step the attempt reached (routing, building, submitted, ...)
+  dexUsed: DexPlatform | null; // Venue(s) of the failing route, '+'-joined when split
+  routeQuote: FailureRouteSnapshot | null;  // Route the attempt was executing, if it got that far
+  createdAt: Date;             // When the order failed
+}
+
+// Filters for the failure listing
+export interface FailureQuery {
+  errorType?: FailureErrorType;
+  dexUsed?: DexPlatform;       // Venue that appears in dex_used
+  failedStep?: OrderStatus;
+  orderType?: OrderType;
+  createdFrom?: Date;          // createdAt >= createdFrom
+  createdTo?: Date;            // createdAt < createdTo
+  limit: number;               // Page size
+  before?: number;             // Only failures with a smaller failureId (next page)
+}
+
+// Failure counts over every failure matching the filters
+export interface FailureSummary {
+  total: number;
+  byErrorType: Record<string, number>;
+  byDex: Record<string, number>;
+}
+
+// Order parked in the dead-letter queue after exhausting its attempts
+export interface DeadLetterEntry {
+  order: Order;                // Job data at the time of the final failure (includes fills so far)
+  error: string;               // Error of the final attempt
+  attempts: number;            // Attempts made
+  deadLetteredAt: Date;        // When the order was moved to the dead-letter queue
+}
+
+// What an API key may do: 'user' keys see their own account's orders, 'admin' keys see everything
+export type ApiKeyScope = 'user' | 'admin';
+
+// Account that owns orders and API keys
+export interface Account {
+  accountId: string;           // Unique identifier
+  name: string;                // Display name
+  createdAt: Date;             // Timestamp
+}
+
+// API key as shown to admins (the key itself is only returned once, at creation)
+export interface ApiKeyInfo {
+  keyId: string;               // Public identifier of the key
+  accountId: string;           // Account the key acts for
+  scope: ApiKeyScope;          // What the key may do
+  label: string | null;        // Free-form note, e.g. 'trading bot'
+  createdAt: Date;             // Timestamp
+  revokedAt: Date | null;      // Set once the key stops working
+}
+
+// Per-account limit overrides as stored (null means the server default applies)
+export interface AccountLimitSettings {
+  ordersPerMinute: number | null;                   // Order submissions per minute
+  dailyNotionalUsd: number | null;                  // USD notional submitted per UTC day
+  tokenDailyNotionalUsd: Record<string, number>;    // USD notional per UTC day of orders trading each token
+}
+
+// Limits in force for an account (overrides applied over the defaults)
+export interface AccountLimits {
+  ordersPerMinute: number;
+  dailyNotionalUsd: number;
+  tokenDailyNotionalUsd: Record<string, number>;    // Tokens without an entry are only bound by dailyNotionalUsd
+}
+
+// Simulated wallet balance of one token in an account (base units)
+export interface TokenBalance {
+  token: string;               // Token symbol
+  available: BaseUnits;        // Free to reserve for new orders
+  reserved: BaseUnits;         // Held by open orders (including what their filled legs produced so far)
+  updatedAt: Date;
+}
+
+// Token an account can't cover when reserving funds for an order
+export interface FundsShortfall {
+  token: string;
+  available: BaseUnits;        // What the account has free
+  required: BaseUnits;         // What the order needs held (input plus network fee allowance)
+}
+
+// Kind of ledger entry
+export type LedgerEntryType =
+  | 'deposit'   // Funds added (starting balances or an admin deposit)
+  | 'reserve'   // Available -> reserved when an order is accepted (or requeued)
+  | 'debit'     // Reserved tokens an executed leg swapped away
+  | 'credit'    // Tokens an executed leg produced, held for the order until it finishes
+  | 'fee'       // Network fee (SOL) of an executed leg
+  | 'settle'    // Reserved -> available when the order is confirmed
+  | 'release';  // Reserved -> available when the order fails, expires or is cancelled
+
+// Change to one token balance of an account (the ledger is append-only)
+export interface LedgerEntry {
+  entryId: number;             // Increasing entry identifier
+  accountId: string;
+  token: string;
+  orderId: string | null;      // Order the entry belongs to (null for deposits)
+  legIndex: number | null;     // Fill behind debit/credit/fee entries
+  type: LedgerEntryType;
+  availableChange: string;     // Signed change to available (base units)
+  reservedChange: string;      // Signed change to reserved (base units)
+  availableAfter: BaseUnits;   // Balance after the entry
+  reservedAfter: BaseUnits;
+  note: string | null;         // Free-form reason (deposits)
+  createdAt: Date;
+}
+
+// Filters for an account's ledger
+export interface LedgerQuery {
+  accountId: string;
+  orderId?: string;            // Entries of one order
+  token?: string;              // Entries of one token
+  limit: number;               // Page size
+  before?: number;             // entryId of the last entry on the previous page
+}
+
+// Caller identity attached to an authenticated request
+export interface AuthContext {
+  keyId: string;               // Key that authenticated the request
+  accountId: string;           // Account the request acts for
+  scope: ApiKeyScope;          // What the key may do
 }
 
 // Result after execution
@@ -55,8 +414,82 @@ export interface ExecutionResult {
   success: boolean;            // Whether execution succeeded
   txHash?: string;             // Transaction hash if successful
   executedPrice?: number;      // Actual execution price
-  amountOut?: number;          // Actual output amount
+  amountOut?: BaseUnits;       // Actual output amount (market output when slippage was exceeded)
+  networkFee?: BaseUnits;      // Lamports paid for the transaction, priority fee included (successful swaps)
+  priorityFee?: BaseUnits;     // Part of networkFee paid as priority fee (set by the chain)
   error?: string;              // Error message if failed
+  errorCode?: ExecutionErrorCode;  // Machine-readable failure reason
+}
+
+// Named priority fee level: a percentile of the fees recently paid on the chain
+export type PriorityFeeLevel = 'low' | 'normal' | 'turbo';
+
+// Priority fee an order bids: a level re-estimated for every transaction, or a fixed microlamports-per-compute-unit price
+export type PriorityFeeSetting = PriorityFeeLevel | number;
+
+// Lowest priority fee that landed in a recent slot
+export interface PrioritizationFee {
+  slot: number;
+  prioritizationFee: number;   // Microlamports per compute unit
+}
+
+// Current priority fee estimate for each level
+export interface PriorityFeeEstimate {
+  slot: number;                // Slot the estimate was made at
+  congestion: number;          // Network congestion (0-1) in that slot
+  levels: Record<PriorityFeeLevel, number>;  // Microlamports per compute unit
+}
+
+// How settled a landed transaction is: in a block (processed), voted on by a supermajority
+// (confirmed), or rooted and irreversible (finalized)
+export type CommitmentLevel = 'processed' | 'confirmed' | 'finalized';
+
+// Swap a transaction carries (amounts in base units)
+export interface SwapInstruction {
+  dex: DexPlatform;            // Venue the swap runs on
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: BaseUnits;
+  minAmountOut: BaseUnits;     // The swap fails on-chain below this
+  computeUnitLimit: number;    // Compute units requested (the priority fee is paid on all of them)
+  computeUnitPrice: number;    // Priority fee bid, in microlamports per compute unit
+}
+
+// Signed transaction for the simulated chain
+export interface SignedTransaction {
+  signature: string;           // Base58 signature of the message; identifies the transaction
+  feePayer: string;            // Order paying for it
+  recentBlockhash: string;     // Blockhash it was signed against
+  lastValidBlockHeight: number;  // It can't land once the chain is past this height
+  nonce: string;               // Keeps two identical swaps against one blockhash apart
+  instruction: SwapInstruction;
+}
+
+// Status of a landed transaction
+export interface SignatureStatus {
+  slot: number;                // Slot it landed in
+  confirmations: number | null;  // Slots built on top of it (null once finalized)
+  commitment: CommitmentLevel;
+  result: ExecutionResult;     // Outcome of its swap
+}
+
+// Kind of entry in an order's event history
+export type OrderEventType =
+  | 'status'    // Status transition (pending, routing, ..., confirmed/failed)
+  | 'quotes'    // Venue quotes compared while routing, with the routing decision
+  | 'retry'     // Attempt failed and was scheduled for a retry
+  | 'requeue'   // Dead-lettered order sent back to the execution queue by an admin
+  | 'transaction';  // Swap transaction sent, rebuilt, or reaching a commitment level
+
+// Entry in the append-only order_events history
+export interface OrderEvent {
+  eventId: number;             // Increasing across all orders; orders events of one order
+  orderId: string;             // Order the event belongs to
+  type: OrderEventType;        // Kind of event
+  status: OrderStatus;         // Order status when the event happened
+  attempt: number | null;      // Worker attempt (1-based); null outside the worker
+  data: WebSocketMessage['data'] | null;  // Event details, same shape as the WebSocket update
+  createdAt: Date;             // When the event happened
 }
 
 // WebSocket message format
@@ -66,8 +499,45 @@ export interface WebSocketMessage {
   data?: {                     // Optional additional data
     dexUsed?: DexPlatform;
     txHash?: string;
-    executedPrice?: number;
+    executedPrice?: number;      // Average price across all fills
+    amountOut?: BaseUnits;       // Total output across all fills
+    quotedAmountOut?: BaseUnits; // Output the route quotes promised
+    slippageBps?: number;        // Fill vs. quote shortfall in basis points
+    failureReason?: ExecutionErrorCode;  // Why execution failed
+    networkFee?: BaseUnits;      // Lamports paid across all fills, priority fees included
+    priorityFeePaid?: BaseUnits; // Part of networkFee paid as priority fees
+    requotes?: number;           // Re-quotes after slippage breaches in this attempt
+    fills?: OrderFill[];         // Per-leg fills (confirmed orders)
+    legs?: Array<Pick<RouteLeg, 'hop' | 'dex' | 'amountIn' | 'share'> & { priceImpact: number }>;  // Planned legs (building)
+    routePath?: string;          // Token path, e.g. 'BONK -> SOL -> USDC'
     error?: string;
+    limitPrice?: number;         // Limit orders: trigger price
+    currentPrice?: number;       // Limit orders: latest best quote price
+    priceDistance?: number;      // Limit orders: % away from the trigger
+    expiresAt?: Date;            // Limit/sniper orders: when the order expires
+    maxPrice?: number;           // Sniper orders: maximum price
+    pool?: PoolInfo;             // Sniper orders: pool that was detected
+    quotes?: RouteQuote[];       // Venue quotes compared while routing
+    reason?: string;             // Routing decision
+    routingMs?: number;          // How long routing took
+    attempt?: number;            // Worker attempt (1-based)
+    attempts?: number;           // Attempts made (final failures)
+    maxAttempts?: number;        // Attempts allowed
+    timestamp?: string;          // When the final failure occurred
+    retryInMs?: number;          // Backoff before the next attempt
+    slippage?: number;           // Requeues: slippage tolerance for the new run
+    forcedDex?: DexPlatform;     // Requeues: venue the route is pinned to
+    signature?: string;          // Transactions: signature of the leg's transaction
+    signatures?: string[];       // Transactions: every leg's signature (finalized orders)
+    commitment?: CommitmentLevel;  // Transactions: commitment level reached
+    slot?: number;               // Transactions: slot the transaction landed in
+    hop?: number;                // Transactions: hop of the leg
+    rebuilds?: number;           // Transactions: rebuilds after its blockhash expired
+    previousSignature?: string;  // Transactions: expired transaction this one replaces
+    computeUnitPrice?: number;   // Transactions: priority fee bid (microlamports per compute unit)
   };
+  eventId?: number;            // order_events ID when the update was recorded (for de-duplicating replays)
+  event?: OrderEventType;      // Kind of recorded event
+  replayed?: boolean;          // Sent from history to a subscriber that connected late
   timestamp: Date;             // When this update occurred
 }
\ No newline at end of file
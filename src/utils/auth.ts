@@ -0,0 +1,130 @@
+import { createHash, randomBytes } from 'crypto';  // Key generation and hashing
+import { v4 as uuidv4 } from 'uuid';  // Generate key IDs
+import { FastifyRequest, FastifyReply } from 'fastify';  // Fastify types
+import Redis from 'ioredis';  // Redis client for WebSocket tokens
+import { AuthContext, ApiKeyInfo, ApiKeyScope, Order } from '../types';  // Import type definitions
+import { createAccount, saveApiKey, findApiKey } from '../db/database';  // Database functions
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth: AuthContext | null;  // Set by authenticate() on every non-public route
+  }
+  interface FastifyContextConfig {
+    public?: boolean;  // Route needs no API key (e.g. health check)
+  }
+}
+
+// How long a WebSocket token can be redeemed after it was issued
+const WS_TOKEN_TTL_SECONDS = parseInt(process.env.WS_TOKEN_TTL_SECONDS || '60');
+
+// Account and key ID the ADMIN_API_KEY is stored under
+const BOOTSTRAP_ACCOUNT_ID = 'admin';
+const BOOTSTRAP_KEY_ID = 'bootstrap-admin';
+
+let redis: Redis | undefined;  // Opened on first WebSocket token
+
+// Redis connection for WebSocket tokens (shared by every API instance)
+function tokenStore(): Redis {
+  if (!redis) {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+      port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+    });
+  }
+  return redis;
+}
+
+// Redis key holding the identity a WebSocket token stands for
+function wsTokenKey(token: string): string {
+  return `ws-token:${hashApiKey(token)}`;
+}
+
+// New random API key; only its hash is stored, so it is shown to the caller once
+export function generateApiKey(): string {
+  return `oee_${randomBytes(24).toString('base64url')}`;
+}
+
+// SHA-256 of an API key (keys are random, so no salt or slow hash is needed)
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Create a key for an account; the returned `key` is the only time it is ever visible
+export async function issueApiKey(accountId: string, scope: ApiKeyScope, label?: string): Promise<ApiKeyInfo & { key: string }> {
+  const key = generateApiKey();
+  const info = await saveApiKey(uuidv4(), accountId, hashApiKey(key), scope, label);
+  return { ...info, key };
+}
+
+// Whether the caller may see or act on an order: its own account's, or any with an admin key
+export function canAccessOrder(auth: AuthContext | null, order: Pick<Order, 'accountId'>): boolean {
+  return !!auth && (auth.scope === 'admin' || order.accountId === auth.accountId);
+}
+
+// Issue a short-lived, single-use token for opening a WebSocket (browsers can't set headers on the upgrade)
+export async function issueWebSocketToken(auth: AuthContext): Promise<{ token: string; expiresInSeconds: number }> {
+  const token = randomBytes(24).toString('base64url');
+  await tokenStore().set(wsTokenKey(token), JSON.stringify(auth), 'EX', WS_TOKEN_TTL_SECONDS);
+  return { token, expiresInSeconds: WS_TOKEN_TTL_SECONDS };
+}
+
+// Identity behind a WebSocket token, or null if it expired or was already used
+async function redeemWebSocketToken(token: string): Promise<AuthContext | null> {
+  const stored = await tokenStore().getdel(wsTokenKey(token));
+  return stored ? JSON.parse(stored) : null;
+}
+
+// onRequest hook: identify the caller from `Authorization: Bearer <apiKey>`,
+// or `?token=<wsToken>` on WebSocket upgrades. Routes with config.public skip it.
+export async function authenticate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (request.routeOptions.config?.public) {
+    return;
+  }
+
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    request.auth = await findApiKey(hashApiKey(header.slice('Bearer '.length).trim()));
+  } else if (request.headers.upgrade?.toLowerCase() === 'websocket' && typeof (request.query as any)?.token === 'string') {
+    request.auth = await redeemWebSocketToken((request.query as any).token);
+  } else {
+    return reply.status(401).header('WWW-Authenticate', 'Bearer').send({
+      error: 'Missing API key: send Authorization: Bearer <apiKey>, or ?token=<wsToken> for WebSockets'
+    });
+  }
+
+  if (!request.auth) {
+    return reply.status(401).header('WWW-Authenticate', 'Bearer').send({
+      error: 'Invalid, revoked or expired credentials'
+    });
+  }
+}
+
+// preHandler hook for admin-only routes
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (request.auth?.scope !== 'admin') {
+    return reply.status(403).send({
+      error: 'This endpoint requires an admin API key'
+    });
+  }
+}
+
+// Store ADMIN_API_KEY (if set) as the admin account's key, so a fresh install has a way in
+export async function bootstrapAdminKey(): Promise<void> {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return;
+  }
+
+  await createAccount(BOOTSTRAP_ACCOUNT_ID, 'Administrator');
+  await saveApiKey(BOOTSTRAP_KEY_ID, BOOTSTRAP_ACCOUNT_ID, hashApiKey(adminKey), 'admin', 'ADMIN_API_KEY');
+  console.log('🔑 Admin API key from ADMIN_API_KEY is active');
+}
+
+// Close the WebSocket token store
+export async function closeAuth(): Promise<void> {
+  await redis?.quit();
+  redis = undefined;
+}
@@ -0,0 +1,21 @@
+import { createHash } from 'crypto';  // SHA-256 for request fingerprints
+
+// Longest Idempotency-Key header accepted (matches the idempotency_keys column)
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// JSON with object keys sorted, so {a, b} and {b, a} serialize identically
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Fingerprint of a request body, used to detect a key being reused for a different request
+export function hashRequestBody(body: any): string {
+  return createHash('sha256').update(canonicalJson(body ?? null)).digest('hex');
+}
@@ -0,0 +1,15 @@
+import { OrderStatus, OrderEventType, WebSocketMessage } from '../types';  // Import type definitions
+import { recordOrderEvent } from '../db/database';  // Append-only order history
+import { statusBus } from './status-bus';  // Relays live updates to every API instance
+
+// Record an event in the order's history, then push it to any live subscriber on any API instance
+export async function publishOrderEvent(
+  orderId: string,
+  status: OrderStatus,
+  data?: WebSocketMessage['data'],
+  type: OrderEventType = 'status',
+  attempt?: number
+): Promise<void> {
+  const event = await recordOrderEvent(orderId, type, status, data, attempt);  // History first, so replays never miss a live update
+  statusBus.sendUpdate(orderId, status, data, event);
+}
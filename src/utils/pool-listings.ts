@@ -0,0 +1,103 @@
+import Redis from 'ioredis';  // Redis client for the listing log and its channel
+import { v4 as uuidv4 } from 'uuid';  // Identifies this process in the log
+import { PoolListing } from '../types';  // Import type definitions
+import { MockDexRouter, dexRouter } from '../services/dex-router';  // Router whose pools are shared
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Redis list holding every simulated listing in order, replayed by processes that start later
+const LISTINGS_KEY = process.env.POOL_LISTINGS_KEY || 'pool-listings';
+
+// Redis channel announcing that the list grew
+const LISTINGS_CHANNEL = process.env.POOL_LISTINGS_CHANNEL || 'pool-listings';
+
+// One entry of the log
+interface LoggedListing {
+  origin: string;  // Process that made the listing (it applied the listing already)
+  listing: PoolListing;
+}
+
+// Create a Redis connection (a subscribed connection can't run other commands, so each side gets its own)
+function createConnection(): Redis {
+  return new Redis({
+    host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+    port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+  });
+}
+
+// Keeps the pools of every process's router in step: listings made here are appended to a Redis log and
+// announced, and listings of other processes are read back from the log in order. Only listings are
+// shared; reserves move with each process's own swaps.
+export class PoolListingLog {
+  private readonly origin = uuidv4();
+  private connection?: Redis;  // Appends and reads the log
+  private subscriber?: Redis;  // Hears that it grew
+  private applied = 0;  // Log entries this process has seen
+  private catchingUp: Promise<void> = Promise.resolve();  // Reads of the log, one after another
+
+  constructor(private router: MockDexRouter = dexRouter) {}
+
+  // Replay the listings made so far, then follow new ones and share this process's own
+  async start(): Promise<void> {
+    if (this.connection) {
+      return;  // Already sharing
+    }
+    this.connection = createConnection();
+    this.subscriber = createConnection();
+    this.subscriber.on('message', () => this.catchUp());
+    this.subscriber.on('error', (error) => {
+      console.error('❌ Pool listing subscriber error:', error);  // ioredis reconnects and resubscribes on its own
+    });
+    await this.subscriber.subscribe(LISTINGS_CHANNEL);  // Before reading, so no listing falls in between
+    this.router.on('poolListed', this.share);
+    await this.catchUp();
+    console.log(`🆕 Sharing pool listings on Redis list '${LISTINGS_KEY}' (${this.applied} replayed)`);
+  }
+
+  // Stop sharing and close both Redis connections
+  async close(): Promise<void> {
+    this.router.off('poolListed', this.share);
+    await this.catchingUp;
+    await Promise.all([this.connection?.quit(), this.subscriber?.quit()]);
+    this.connection = undefined;
+    this.subscriber = undefined;
+  }
+
+  // Append a listing made here to the log and tell the other processes
+  private share = (listing: PoolListing): void => {
+    const entry: LoggedListing = { origin: this.origin, listing };
+    this.connection?.multi()
+      .rpush(LISTINGS_KEY, JSON.stringify(entry))
+      .publish(LISTINGS_CHANNEL, '')
+      .exec()
+      .catch((error) => {
+        console.error(`❌ Failed to share ${listing.tokenA}/${listing.tokenB} listing on ${listing.dex}:`, error.message);
+      });
+  };
+
+  // Apply the log entries this process hasn't seen yet, in log order
+  private catchUp(): Promise<void> {
+    this.catchingUp = this.catchingUp.then(async () => {
+      const raws = await this.connection?.lrange(LISTINGS_KEY, this.applied, -1) ?? [];
+      this.applied += raws.length;
+      for (const raw of raws) {
+        const { origin, listing }: LoggedListing = JSON.parse(raw);
+        if (origin === this.origin) {
+          continue;  // Listed here already
+        }
+        try {
+          this.router.createPool(listing.dex, listing.tokenA, listing.tokenB, listing.liquidity, true);
+        } catch (error: any) {
+          console.error(`❌ Ignoring ${listing.tokenA}/${listing.tokenB} listing on ${listing.dex}:`, error.message);  // Venue or token unknown here
+        }
+      }
+    }).catch((error) => {
+      console.error('❌ Failed to read pool listings:', error.message);  // Read again on the next announcement
+    });
+    return this.catchingUp;
+  }
+}
+
+// Export singleton instance for the shared router
+export const poolListings = new PoolListingLog();  // Single shared instance
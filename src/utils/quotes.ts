@@ -0,0 +1,114 @@
+import Redis from 'ioredis';  // Redis client for the quote store
+import { v4 as uuidv4 } from 'uuid';  // Generate quote IDs
+import { PriorityFeeSetting, Quote } from '../types';  // Import type definitions
+import { dexRouter, calculateMinAmountOut } from '../services/dex-router';  // Shared DEX routing service
+import { priorityFees } from '../services/priority-fees';  // Priority fee routes are priced with
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// How long a quote can be executed after it was issued
+const QUOTE_TTL_MS = parseInt(process.env.QUOTE_TTL_MS || '15000');
+
+// Expired quotes are kept a little longer so late orders are told the quote expired, not that it never existed
+const EXPIRED_QUOTE_RETENTION_MS = 60000;
+
+// Delete a quote lock only if the given order still holds it.
+// KEYS[1]: lock; ARGV[1]: orderId. Returns 1 if the lock was released.
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+let redis: Redis | undefined;  // Opened on first use
+
+// Redis connection for quotes (shared by every API instance and worker process)
+function quoteStore(): Redis {
+  if (!redis) {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+      port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+    });
+  }
+  return redis;
+}
+
+function quoteKey(quoteId: string): string {
+  return `quote:${quoteId}`;
+}
+
+// Redis key holding the orderId a quote is locked to
+function lockKey(quoteId: string): string {
+  return `quote:lock:${quoteId}`;
+}
+
+// Milliseconds a quote's keys must live: until it expires, plus the retention window
+function keyTtlMs(quote: Quote, now: number): number {
+  return Math.max(1, quote.expiresAt.getTime() - now) + EXPIRED_QUOTE_RETENTION_MS;
+}
+
+// Whether a quote can no longer be executed
+export function isQuoteExpired(quote: Quote, now: number = Date.now()): boolean {
+  return now >= quote.expiresAt.getTime();
+}
+
+// Route an amount across every venue (net of the fees the priority fee would pay) and store the result
+// as a firm quote for the account
+export async function createQuote(
+  accountId: string,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  slippage: number,
+  priorityFee: PriorityFeeSetting = 'normal'
+): Promise<Quote> {
+  const route = await dexRouter.getBestRoute(tokenIn, tokenOut, amountIn, undefined, priorityFees.resolve(priorityFee));  // Fetch and compare quotes
+  const now = Date.now();
+  const quote: Quote = {
+    quoteId: uuidv4(),
+    accountId,
+    tokenIn,
+    tokenOut,
+    amountIn: amountIn.toString(),
+    slippage,
+    priorityFee,
+    route,
+    amountOut: route.amountOut,
+    minAmountOut: calculateMinAmountOut(BigInt(route.amountOut), slippage).toString(),
+    createdAt: new Date(now),
+    expiresAt: new Date(now + QUOTE_TTL_MS)
+  };
+
+  await quoteStore().set(quoteKey(quote.quoteId), JSON.stringify(quote), 'PX', keyTtlMs(quote, now));
+  console.log(`🧾 Quote ${quote.quoteId}: ${route.path.join(' -> ')} for ${accountId}, valid ${QUOTE_TTL_MS / 1000}s`);
+  return quote;
+}
+
+// Quote by ID, or null once it is gone (expired quotes stay readable for the retention window)
+export async function getQuote(quoteId: string): Promise<Quote | null> {
+  const stored = await quoteStore().get(quoteKey(quoteId));
+  if (!stored) {
+    return null;
+  }
+  const quote = JSON.parse(stored);
+  return { ...quote, createdAt: new Date(quote.createdAt), expiresAt: new Date(quote.expiresAt) };
+}
+
+// Lock a quote to the order executing it; false if another order already holds it
+export async function lockQuote(quote: Quote, orderId: string): Promise<boolean> {
+  const locked = await quoteStore().set(lockKey(quote.quoteId), orderId, 'PX', keyTtlMs(quote, Date.now()), 'NX');
+  return locked === 'OK';
+}
+
+// Give a quote back when the order that locked it was never created
+export async function releaseQuote(quoteId: string, orderId: string): Promise<void> {
+  await quoteStore().eval(RELEASE_SCRIPT, 1, lockKey(quoteId), orderId);
+}
+
+// Close the quote store connection (shutdown)
+export async function closeQuotes(): Promise<void> {
+  await redis?.quit();
+  redis = undefined;
+}
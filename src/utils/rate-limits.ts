@@ -0,0 +1,188 @@
+import Redis from 'ioredis';  // Redis client for shared counters
+import { AccountLimits, AccountLimitSettings, BaseUnits } from '../types';  // Import type definitions
+import { normalizeToken, referencePrice } from '../services/dex-adapters';  // Token keys and USD reference prices
+import { tokenRegistry } from '../services/token-registry';  // Token decimals for USD values
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Defaults for accounts without their own limits
+const DEFAULT_ORDERS_PER_MINUTE = parseInt(process.env.DEFAULT_ORDERS_PER_MINUTE || '60');
+const DEFAULT_DAILY_NOTIONAL_USD = parseFloat(process.env.DEFAULT_DAILY_NOTIONAL_USD || '1000000');
+
+const RATE_WINDOW_MS = 60000;  // Submissions are counted per one-minute window
+const QUOTA_KEY_TTL_SECONDS = 2 * 86400;  // Daily counters outlive their day, then expire
+
+// Atomically check every quota counter and, only if all have room, add the notional to each.
+// KEYS: counters; ARGV[1]: notional; ARGV[1 + i]: limit for KEYS[i]; ARGV[#ARGV]: TTL.
+// Returns {0} on success, or {i, used} for the first counter that would go over its limit.
+const RESERVE_SCRIPT = `
+local amount = tonumber(ARGV[1])
+for i, key in ipairs(KEYS) do
+  local used = tonumber(redis.call('GET', key) or '0')
+  if used + amount > tonumber(ARGV[i + 1]) then
+    return {i, tostring(used)}
+  end
+end
+for i, key in ipairs(KEYS) do
+  redis.call('INCRBYFLOAT', key, ARGV[1])
+  redis.call('EXPIRE', key, ARGV[#ARGV])
+end
+return {0}
+`;
+
+// Outcome of a submission rate check
+export interface RateCheck {
+  allowed: boolean;
+  limit: number;              // Submissions allowed per minute
+  remaining: number;          // Submissions left in the current window
+  retryAfterSeconds: number;  // Until the window resets
+}
+
+// Notional reserved against an account's daily quotas (kept so it can be refunded)
+export interface NotionalReservation {
+  keys: string[];             // Counters the notional was added to
+  notionalUsd: number;        // Amount added
+}
+
+// Quota an order would exceed
+export interface QuotaExceeded {
+  quota: 'account' | 'token';
+  token?: string;             // Token whose quota is exhausted (token quotas only)
+  limitUsd: number;           // Daily limit
+  usedUsd: number;            // Notional already submitted today
+  retryAfterSeconds: number;  // Until the next UTC day
+}
+
+let redis: Redis | undefined;  // Opened on first use
+
+// Redis connection for rate and quota counters (shared by every API instance)
+function counters(): Redis {
+  if (!redis) {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+      port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+    });
+  }
+  return redis;
+}
+
+// Current UTC day, e.g. '2025-11-24'
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+// Seconds until the next UTC midnight, when daily quotas reset
+function secondsUntilNextDay(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+function accountQuotaKey(accountId: string, day: string): string {
+  return `quota:notional:${accountId}:${day}`;
+}
+
+function tokenQuotaKey(accountId: string, token: string, day: string): string {
+  return `quota:notional:${accountId}:${day}:${token}`;
+}
+
+// USD value of an order, from its input amount (base units) at reference prices
+export function orderNotionalUsd(tokenIn: string, amountIn: BaseUnits): number {
+  return tokenRegistry.toUiAmount(tokenIn, amountIn) * referencePrice(tokenIn);
+}
+
+// Apply an account's overrides over the server defaults
+export function resolveAccountLimits(settings: AccountLimitSettings | null): AccountLimits {
+  return {
+    ordersPerMinute: settings?.ordersPerMinute ?? DEFAULT_ORDERS_PER_MINUTE,
+    dailyNotionalUsd: settings?.dailyNotionalUsd ?? DEFAULT_DAILY_NOTIONAL_USD,
+    tokenDailyNotionalUsd: settings?.tokenDailyNotionalUsd ?? {}
+  };
+}
+
+// Count one order submission against the account's per-minute limit
+export async function checkOrderRate(accountId: string, limit: number): Promise<RateCheck> {
+  const now = Date.now();
+  const window = Math.floor(now / RATE_WINDOW_MS);
+  const key = `ratelimit:orders:${accountId}:${window}`;
+
+  const count = await counters().incr(key);
+  await counters().pexpire(key, RATE_WINDOW_MS);
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    retryAfterSeconds: Math.ceil(((window + 1) * RATE_WINDOW_MS - now) / 1000)
+  };
+}
+
+// Reserve an order's notional against today's account quota and the quotas of both tokens it trades.
+// Nothing is reserved when any of them would be exceeded.
+export async function reserveNotional(
+  accountId: string,
+  limits: AccountLimits,
+  order: { tokenIn: string; tokenOut: string; amountIn: BaseUnits }
+): Promise<{ reservation: NotionalReservation } | { exceeded: QuotaExceeded }> {
+  const now = Date.now();
+  const day = utcDay(now);
+  const notionalUsd = orderNotionalUsd(order.tokenIn, order.amountIn);
+
+  const keys = [accountQuotaKey(accountId, day)];
+  const quotaLimits = [limits.dailyNotionalUsd];
+  const tokens: string[] = [];
+  for (const token of new Set([normalizeToken(order.tokenIn), normalizeToken(order.tokenOut)])) {
+    const limit = limits.tokenDailyNotionalUsd[token];
+    if (limit !== undefined) {
+      keys.push(tokenQuotaKey(accountId, token, day));
+      quotaLimits.push(limit);
+      tokens.push(token);
+    }
+  }
+
+  const [index, used] = await counters().eval(
+    RESERVE_SCRIPT, keys.length, ...keys, notionalUsd, ...quotaLimits, QUOTA_KEY_TTL_SECONDS
+  ) as [number, string?];
+
+  if (index === 0) {
+    return { reservation: { keys, notionalUsd } };
+  }
+  return {
+    exceeded: {
+      quota: index === 1 ? 'account' : 'token',
+      token: index === 1 ? undefined : tokens[index - 2],
+      limitUsd: quotaLimits[index - 1],
+      usedUsd: parseFloat(used as string),
+      retryAfterSeconds: secondsUntilNextDay(now)
+    }
+  };
+}
+
+// Give back a reservation for an order that was never created
+export async function refundNotional(reservation: NotionalReservation): Promise<void> {
+  const pipeline = counters().multi();
+  reservation.keys.forEach(key => pipeline.incrbyfloat(key, -reservation.notionalUsd));
+  await pipeline.exec();
+}
+
+// Notional submitted today against each of the account's quotas
+export async function getNotionalUsage(
+  accountId: string,
+  limits: AccountLimits
+): Promise<{ dailyNotionalUsd: number; tokenDailyNotionalUsd: Record<string, number> }> {
+  const day = utcDay(Date.now());
+  const tokens = Object.keys(limits.tokenDailyNotionalUsd);
+  const values = await counters().mget(accountQuotaKey(accountId, day), ...tokens.map(token => tokenQuotaKey(accountId, token, day)));
+
+  const tokenDailyNotionalUsd: Record<string, number> = {};
+  tokens.forEach((token, i) => {
+    tokenDailyNotionalUsd[token] = parseFloat(values[i + 1] || '0');
+  });
+  return { dailyNotionalUsd: parseFloat(values[0] || '0'), tokenDailyNotionalUsd };
+}
+
+// Close the counter store
+export async function closeRateLimits(): Promise<void> {
+  await redis?.quit();
+  redis = undefined;
+}
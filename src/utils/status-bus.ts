@@ -0,0 +1,115 @@
+import Redis from 'ioredis';  // Redis client for pub/sub
+import { OrderStatus, OrderEvent, WebSocketMessage } from '../types';  // Import type definitions
+import { OrderTopicContext } from './websocket-manager';  // Order fields used for topic routing
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// Redis channel every API instance listens on
+const STATUS_CHANNEL = process.env.STATUS_CHANNEL || 'order-status';
+
+// One message on the bus, mirroring the WebSocketManager call it stands for
+export type StatusBusMessage =
+  | { kind: 'track'; order: OrderTopicContext }  // wsManager.trackOrder
+  | { kind: 'update'; orderId: string; status: OrderStatus; data?: WebSocketMessage['data']; event?: OrderEvent }  // wsManager.sendUpdate
+  | { kind: 'close'; orderId: string };  // wsManager.closeConnection
+
+type StatusBusListener = (message: StatusBusMessage) => void;
+
+// Create a Redis connection for the bus (a subscribed connection can't publish, so each side gets its own)
+function createConnection(): Redis {
+  return new Redis({
+    host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+    port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+  });
+}
+
+// Carries order updates from whichever process produced them to every API instance holding sockets
+export class StatusBus {
+  private publisher?: Redis;  // Opened on first publish
+  private subscriber?: Redis;  // Opened on first subscribe
+  private listeners: StatusBusListener[] = [];
+
+  // Announce an order's pair and account so every instance can route pair/account topics
+  trackOrder(order: OrderTopicContext): void {
+    this.publish({
+      kind: 'track',
+      order: {
+        orderId: order.orderId,
+        tokenIn: order.tokenIn,
+        tokenOut: order.tokenOut,
+        accountId: order.accountId
+      }
+    });
+  }
+
+  // Publish a status update for delivery to the order's sockets, wherever they are connected
+  sendUpdate(orderId: string, status: OrderStatus, data?: WebSocketMessage['data'], event?: OrderEvent): void {
+    this.publish({ kind: 'update', orderId, status, data, event });
+  }
+
+  // Ask every instance to close the order's streams
+  closeConnection(orderId: string): void {
+    this.publish({ kind: 'close', orderId });
+  }
+
+  // Receive every message published on the bus, by any process
+  async subscribe(listener: StatusBusListener): Promise<void> {
+    this.listeners.push(listener);
+    if (this.subscriber) {
+      return;  // Already listening
+    }
+
+    this.subscriber = createConnection();
+    this.subscriber.on('message', (channel: string, raw: string) => this.dispatch(raw));
+    this.subscriber.on('error', (error) => {
+      console.error('❌ Status bus subscriber error:', error);  // ioredis reconnects and resubscribes on its own
+    });
+    await this.subscriber.subscribe(STATUS_CHANNEL);
+    console.log(`📡 Listening for order updates on Redis channel '${STATUS_CHANNEL}'`);
+  }
+
+  // Close both Redis connections
+  async close(): Promise<void> {
+    await Promise.all([this.publisher?.quit(), this.subscriber?.quit()]);
+    this.publisher = undefined;
+    this.subscriber = undefined;
+  }
+
+  // Hand a received message to every listener
+  private dispatch(raw: string): void {
+    let message: StatusBusMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.error(`❌ Ignoring malformed status bus message: ${raw}`);
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('❌ Status bus listener failed:', error);  // One bad listener doesn't starve the rest
+      }
+    }
+  }
+
+  // Fire-and-forget: a lost live update is still in the order's recorded history
+  private publish(message: StatusBusMessage): void {
+    if (!this.publisher) {
+      this.publisher = createConnection();
+      this.publisher.on('error', (error) => {
+        console.error('❌ Status bus publisher error:', error);  // Log connection errors
+      });
+    }
+
+    // Commands on one connection run in order, so updates arrive in the order they were published
+    this.publisher.publish(STATUS_CHANNEL, JSON.stringify(message)).catch((error) => {
+      console.error(`❌ Failed to publish ${message.kind} for order ${message.kind === 'track' ? message.order.orderId : message.orderId}:`, error.message);
+    });
+  }
+}
+
+// Export singleton instance so all parts of app use same bus
+export const statusBus = new StatusBus();  // Single shared instance
@@ -1,74 +1,341 @@
-import { WebSocketMessage, OrderStatus } from '../types';  // Import type definitions
+import { WebSocketMessage, OrderStatus, OrderEvent, Order } from '../types';  // Import type definitions
+import { pairKey } from '../services/dex-adapters';  // Direction-independent token pair key
+import { tokenRegistry } from '../services/token-registry';  // Symbols behind token mints
+import { StatusBusMessage } from './status-bus';  // Messages relayed from other processes
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
 
 // Use 'any' type for WebSocket since we're using Fastify's implementation
 type WebSocketConnection = any;
 
+// How often sockets are pinged; a socket that hasn't answered the previous ping is dropped
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000');
+
+// Most topics a single subscriber socket may hold
+const MAX_TOPICS_PER_SOCKET = 100;
+
+// Order fields used to match pair and account topics
+export type OrderTopicContext = Pick<Order, 'orderId' | 'tokenIn' | 'tokenOut' | 'accountId'>;
+
+// Decides whether a subscriber may hold a (normalized) topic
+export type TopicAuthorizer = (topic: string) => Promise<boolean>;
+
+// Normalize a client-supplied topic, or null if it isn't one we support:
+// 'order:<orderId>', 'pair:<tokenA>/<tokenB>' (either direction), 'account:<accountId>' or 'all'
+export function parseTopic(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  if (raw === 'all') {
+    return raw;  // Firehose
+  }
+
+  const separator = raw.indexOf(':');
+  const kind = raw.slice(0, separator);
+  const value = raw.slice(separator + 1);
+  if (separator <= 0 || !value) {
+    return null;
+  }
+
+  if (kind === 'order' || kind === 'account') {
+    return `${kind}:${value}`;
+  }
+  if (kind === 'pair') {
+    const tokens = value.split('/');
+    if (tokens.length !== 2 || !tokens[0] || !tokens[1]) {
+      return null;
+    }
+    const [tokenA, tokenB] = tokens.map(token => tokenRegistry.find(token)?.symbol ?? token);  // Mints name the same pair as symbols
+    return `pair:${pairKey(tokenA, tokenB)}`;
+  }
+  return null;
+}
+
+// Topics an update for this order is delivered to
+function topicsFor(orderId: string, context?: OrderTopicContext): string[] {
+  const topics = [`order:${orderId}`, 'all'];
+  if (context) {
+    topics.push(`pair:${pairKey(context.tokenIn, context.tokenOut)}`);
+    if (context.accountId) {
+      topics.push(`account:${context.accountId}`);
+    }
+  }
+  return topics;
+}
+
 // Manager class to handle WebSocket connections for order updates
 export class WebSocketManager {
-  // Map to store active WebSocket connections by orderId
-  private connections: Map<string, WebSocketConnection> = new Map();  // Key: orderId, Value: WebSocket connection
-  
-  // Register a new WebSocket connection for an order
+  // Per-order streams: every socket connected to /api/orders/:orderId/stream, by orderId
+  private connections: Map<string, Set<WebSocketConnection>> = new Map();  // Key: orderId, Value: connected sockets
+  private subscriptions: Map<string, Set<WebSocketConnection>> = new Map();  // Key: topic, Value: subscribed sockets
+  private socketTopics: Map<WebSocketConnection, Set<string>> = new Map();  // Key: subscriber socket, Value: its topics
+  private orderContexts: Map<string, OrderTopicContext> = new Map();  // Key: orderId, for pair/account topics
+  private alive: Map<WebSocketConnection, boolean> = new Map();  // Key: any socket, Value: answered the last ping
+  private authorizers: Map<WebSocketConnection, TopicAuthorizer> = new Map();  // Key: subscriber socket that needs topic checks
+  private heartbeatTimer?: NodeJS.Timeout;  // Started with the first socket
+
+  // Register a new WebSocket connection for an order (several clients may watch the same order)
   registerConnection(orderId: string, socket: WebSocketConnection): void {
     console.log(`🔌 WebSocket connected for order: ${orderId}`);  // Log new connection
-    this.connections.set(orderId, socket);  // Store connection in map
-    
+    const sockets = this.connections.get(orderId) || new Set();
+    sockets.add(socket);  // Store connection alongside any other watchers
+    this.connections.set(orderId, sockets);
+    this.trackSocket(socket);
+
     // Set up cleanup when socket closes
     socket.on('close', () => {
       console.log(`🔌 WebSocket disconnected for order: ${orderId}`);  // Log disconnection
-      this.connections.delete(orderId);  // Remove from active connections
+      this.removeOrderSocket(orderId, socket);  // Remove from active connections
     });
-    
+
     // Handle socket errors
     socket.on('error', (error: any) => {
       console.error(`❌ WebSocket error for order ${orderId}:`, error);  // Log error
-      this.connections.delete(orderId);  // Clean up connection
+      this.removeOrderSocket(orderId, socket);  // Clean up connection
     });
   }
-  
-  // Send status update to connected client
-  sendUpdate(orderId: string, status: OrderStatus, data?: any): void {
-    const connection = this.connections.get(orderId);  // Get connection for this order
-    
-    if (!connection) {
+
+  // Register a socket on the general endpoint; it picks topics with subscribe/unsubscribe messages.
+  // Without an authorizer every topic is allowed.
+  registerSubscriber(socket: WebSocketConnection, authorize?: TopicAuthorizer): void {
+    console.log(`🔌 Subscriber connected`);  // Log new connection
+    this.socketTopics.set(socket, new Set());
+    if (authorize) {
+      this.authorizers.set(socket, authorize);
+    }
+    this.trackSocket(socket);
+
+    socket.on('message', (raw: Buffer | string) => this.handleSubscriberMessage(socket, raw.toString()));
+
+    // Set up cleanup when socket closes
+    socket.on('close', () => {
+      console.log(`🔌 Subscriber disconnected`);  // Log disconnection
+      this.removeSubscriber(socket);  // Drop all its topics
+    });
+
+    // Handle socket errors
+    socket.on('error', (error: any) => {
+      console.error(`❌ Subscriber WebSocket error:`, error);  // Log error
+      this.removeSubscriber(socket);  // Drop all its topics
+    });
+  }
+
+  // Remember an order's pair and account so updates reach pair/account topics
+  trackOrder(order: OrderTopicContext): void {
+    this.orderContexts.set(order.orderId, {
+      orderId: order.orderId,
+      tokenIn: order.tokenIn,
+      tokenOut: order.tokenOut,
+      accountId: order.accountId
+    });
+  }
+
+  // Send status update to every client watching the order (tagged with its order_events entry when it was recorded)
+  sendUpdate(orderId: string, status: OrderStatus, data?: any, event?: OrderEvent): void {
+    // Per-order streams plus every subscriber whose topics match this order (each socket once)
+    const recipients: Set<WebSocketConnection> = new Set(this.connections.get(orderId) || []);
+    for (const topic of topicsFor(orderId, this.orderContexts.get(orderId))) {
+      this.subscriptions.get(topic)?.forEach(socket => recipients.add(socket));
+    }
+
+    if (recipients.size === 0) {
       console.warn(`⚠️  No WebSocket connection found for order: ${orderId}`);  // Log if no connection
       return;  // Exit early if no connection exists
     }
-    
+
     // Create message object with status update
     const message: WebSocketMessage = {
       orderId,  // Which order this update is for
       status,  // Current status (pending, routing, building, etc.)
       data,  // Optional additional data (txHash, error, etc.)
-      timestamp: new Date()  // When this update occurred
+      eventId: event?.eventId,  // Lets clients drop duplicates of replayed history
+      event: event?.type,  // Kind of recorded event
+      timestamp: event?.createdAt || new Date()  // When this update occurred
     };
-    
-    try {
-      // Send message as JSON string
-      connection.send(JSON.stringify(message));  // Serialize and send
-      console.log(`📤 Sent ${status} update for order: ${orderId}`);  // Log successful send
-    } catch (error) {
-      console.error(`❌ Failed to send update for order ${orderId}:`, error);  // Log send errors
-      this.connections.delete(orderId);  // Remove broken connection
+    const payload = JSON.stringify(message);  // Serialize once for every recipient
+
+    for (const socket of recipients) {
+      try {
+        socket.send(payload);  // Send to this client
+      } catch (error) {
+        console.error(`❌ Failed to send update for order ${orderId}:`, error);  // Log send errors
+        this.dropSocket(socket);  // Remove broken connection
+      }
     }
+    console.log(`📤 Sent ${status} update for order: ${orderId} to ${recipients.size} client(s)`);  // Log successful send
   }
-  
-  // Close connection for an order (e.g., after completion)
+
+  // Close the order's streams once it is finished (topic subscribers stay connected)
   closeConnection(orderId: string): void {
-    const connection = this.connections.get(orderId);  // Get connection
-    
-    if (connection) {
-      connection.close();  // Close the WebSocket
+    const sockets = this.connections.get(orderId);  // Get connections
+
+    if (sockets) {
+      sockets.forEach(socket => socket.close());  // Close every WebSocket watching the order
       this.connections.delete(orderId);  // Remove from active connections
-      console.log(`🔌 Closed WebSocket for order: ${orderId}`);  // Log closure
+      console.log(`🔌 Closed ${sockets.size} WebSocket(s) for order: ${orderId}`);  // Log closure
+    }
+    this.orderContexts.delete(orderId);  // No more updates will be sent for it
+  }
+
+  // Apply an update received on the status bus to this instance's sockets
+  deliver(message: StatusBusMessage): void {
+    switch (message.kind) {
+      case 'track':
+        this.trackOrder(message.order);
+        break;
+      case 'update':
+        this.sendUpdate(message.orderId, message.status, message.data, message.event);
+        break;
+      case 'close':
+        this.closeConnection(message.orderId);
+        break;
     }
   }
-  
+
   // Get count of active connections (useful for monitoring)
   getActiveConnectionsCount(): number {
-    return this.connections.size;  // Return number of active connections
+    return this.alive.size;  // Every tracked socket, order streams and subscribers alike
+  }
+
+  // Get count of sockets subscribed to a topic (useful for monitoring)
+  getSubscriberCount(topic: string): number {
+    const normalized = parseTopic(topic);
+    return normalized ? this.subscriptions.get(normalized)?.size || 0 : 0;
+  }
+
+  // Apply a subscribe/unsubscribe request from a subscriber socket
+  private handleSubscriberMessage(socket: WebSocketConnection, raw: string): void {
+    let request: any;
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      this.reply(socket, { type: 'error', error: 'Messages must be JSON' });
+      return;
+    }
+
+    const topic = parseTopic(request?.topic);
+    if (!topic) {
+      this.reply(socket, { type: 'error', error: "topic must be 'order:<orderId>', 'pair:<tokenA>/<tokenB>', 'account:<accountId>' or 'all'" });
+      return;
+    }
+
+    if (request.action === 'subscribe') {
+      const authorize = this.authorizers.get(socket);
+      if (!authorize) {
+        this.subscribe(topic, socket);
+        return;
+      }
+      authorize(topic)
+        .then(allowed => allowed
+          ? this.subscribe(topic, socket)
+          : this.reply(socket, { type: 'error', error: 'Not allowed to subscribe to this topic', topic }))
+        .catch(() => this.reply(socket, { type: 'error', error: 'Failed to check topic access', topic }));
+    } else if (request.action === 'unsubscribe') {
+      this.socketTopics.get(socket)?.delete(topic);
+      this.unsubscribe(topic, socket);
+      this.reply(socket, { type: 'unsubscribed', topic });
+    } else {
+      this.reply(socket, { type: 'error', error: "action must be 'subscribe' or 'unsubscribe'" });
+    }
+  }
+
+  // Add one topic to a subscriber socket
+  private subscribe(topic: string, socket: WebSocketConnection): void {
+    const topics = this.socketTopics.get(socket);
+    if (!topics) {
+      return;  // Disconnected while its access was being checked
+    }
+    if (!topics.has(topic) && topics.size >= MAX_TOPICS_PER_SOCKET) {
+      this.reply(socket, { type: 'error', error: `At most ${MAX_TOPICS_PER_SOCKET} topics per connection`, topic });
+      return;
+    }
+    topics.add(topic);
+    const sockets = this.subscriptions.get(topic) || new Set();
+    sockets.add(socket);
+    this.subscriptions.set(topic, sockets);
+    this.reply(socket, { type: 'subscribed', topic });
+  }
+
+  // Send a control message to a subscriber
+  private reply(socket: WebSocketConnection, message: object): void {
+    try {
+      socket.send(JSON.stringify(message));
+    } catch (error) {
+      this.dropSocket(socket);  // Remove broken connection
+    }
+  }
+
+  // Remove one socket from a topic
+  private unsubscribe(topic: string, socket: WebSocketConnection): void {
+    const sockets = this.subscriptions.get(topic);
+    sockets?.delete(socket);
+    if (sockets && sockets.size === 0) {
+      this.subscriptions.delete(topic);
+    }
+  }
+
+  // Forget a per-order stream socket
+  private removeOrderSocket(orderId: string, socket: WebSocketConnection): void {
+    const sockets = this.connections.get(orderId);
+    sockets?.delete(socket);
+    if (sockets && sockets.size === 0) {
+      this.connections.delete(orderId);
+    }
+    this.alive.delete(socket);
+  }
+
+  // Forget a subscriber socket and all its topics
+  private removeSubscriber(socket: WebSocketConnection): void {
+    this.socketTopics.get(socket)?.forEach(topic => this.unsubscribe(topic, socket));
+    this.socketTopics.delete(socket);
+    this.authorizers.delete(socket);
+    this.alive.delete(socket);
+  }
+
+  // Forget a socket wherever it is registered
+  private dropSocket(socket: WebSocketConnection): void {
+    for (const [orderId, sockets] of this.connections) {
+      if (sockets.has(socket)) {
+        this.removeOrderSocket(orderId, socket);
+      }
+    }
+    this.removeSubscriber(socket);
+  }
+
+  // Watch a socket's heartbeat: pongs mark it alive
+  private trackSocket(socket: WebSocketConnection): void {
+    this.alive.set(socket, true);
+    socket.on('pong', () => {
+      if (this.alive.has(socket)) {
+        this.alive.set(socket, true);  // Ignore late pongs from sockets already dropped
+      }
+    });
+
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+      this.heartbeatTimer.unref();  // Don't keep the process alive just for heartbeats
+    }
+  }
+
+  // Drop sockets that missed the previous ping, then ping the rest
+  private heartbeat(): void {
+    for (const [socket, isAlive] of this.alive) {
+      if (!isAlive) {
+        console.warn(`💔 WebSocket missed a heartbeat, terminating`);  // Dead client (e.g. network dropped)
+        this.dropSocket(socket);
+        socket.terminate();  // Emits 'close'; cleanup above already ran
+        continue;
+      }
+      this.alive.set(socket, false);
+      try {
+        socket.ping();  // Client answers with a pong automatically
+      } catch (error) {
+        this.dropSocket(socket);  // Socket already broken
+      }
+    }
   }
 }
 
 // Export singleton instance so all parts of app use same manager
-export const wsManager = new WebSocketManager();  // Single shared instance
\ No newline at end of file
+export const wsManager = new WebSocketManager();  // Single shared instance
@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';  // Environment variables
+import { initDatabase, pool } from './db/database';  // Database initialization
+import { startOrderWorker, closeOrderQueues } from './workers/order-processor';  // Order execution worker
+import { startLimitOrderWatcher, closeLimitOrderQueue } from './workers/limit-order-watcher';  // Limit order watcher
+import { startSniperWatcher, closeSniperWatchQueue } from './workers/sniper-watcher';  // Sniper order watcher
+import { statusBus } from './utils/status-bus';  // Publishes order updates to the API instances
+import { poolListings } from './utils/pool-listings';  // Simulated pool listings of every process
+import { closeQuotes } from './utils/quotes';  // Quotes executed by the order worker
+dotenv.config();  // Load environment variables from .env
+
+
+// Standalone worker process: runs the queues without an HTTP server.
+// Status updates reach clients through the API instances subscribed to the status bus.
+async function start() {
+  try {
+    console.log('🚀 Starting Order Execution Worker...\n');  // Log startup
+
+    // Step 1: Initialize database
+    console.log('📦 Initializing database...');  // Log database init
+    await initDatabase();  // Apply pending schema migrations (serialized with the API by an advisory lock)
+    console.log('✅ Database initialized\n');  // Log success
+
+    // Step 2: Start workers
+    await poolListings.start();  // Route on pools listed by any process (a sniper may fire on another's listing)
+    startOrderWorker();  // Execute queued orders
+    startLimitOrderWatcher();  // Re-quote waiting limit orders
+    await startSniperWatcher();  // Watch for pool listings, resuming orders that were waiting before a restart
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('✅ Order Execution Worker is running!');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+  } catch (error) {
+    console.error('❌ Failed to start worker:', error);  // Log startup error
+    process.exit(1);  // Exit with error code
+  }
+}
+
+// Graceful shutdown handler (SIGTERM also closes each worker and exits)
+async function shutdown() {
+  console.log('\n🛑 Shutting down worker...');  // Log shutdown
+
+  try {
+    await statusBus.close();  // Close status bus connections
+    await poolListings.close();  // Close pool listing connections
+    await closeQuotes();  // Close quote store
+    await closeOrderQueues();  // Close execution and dead-letter queues
+    await closeLimitOrderQueue();  // Close limit order price checks
+    await closeSniperWatchQueue();  // Close sniper hand-offs and watcher claims
+    await pool.end();  // Close database connections
+    console.log('✅ Database connections closed');  // Log database closure
+
+    process.exit(0);  // Exit successfully
+  } catch (error) {
+    console.error('❌ Error during shutdown:', error);  // Log shutdown error
+    process.exit(1);  // Exit with error
+  }
+}
+
+// Register shutdown handlers
+process.on('SIGINT', shutdown);  // Handle interrupt signal (Ctrl+C)
+
+// Handle unhandled promise rejections
+process.on('unhandledRejection', (reason, promise) => {
+  console.error('❌ Unhandled Rejection at:', promise, 'reason:', reason);  // Log rejection
+  shutdown();  // Trigger graceful shutdown
+});
+
+// Start the worker
+start();  // Call startup function
@@ -0,0 +1,160 @@
+import { Worker, Queue, Job } from 'bullmq';  // BullMQ for scheduled price checks
+import Redis from 'ioredis';  // Redis client for queue storage
+import { Order } from '../types';  // Import type definitions
+import { dexRouter } from '../services/dex-router';  // Shared DEX routing service used for re-quoting
+import { tokenRegistry } from '../services/token-registry';  // Token decimals for quote prices
+import { statusBus } from '../utils/status-bus';  // Relays updates to the API instances holding the sockets
+import { publishOrderEvent } from '../utils/order-events';  // Recorded + streamed status updates
+import { orderRepository } from '../db/order-repository';  // Typed orders table access
+import { balanceLedger } from '../db/balance-ledger';  // Simulated wallet balances
+import { enqueueOrder } from './order-processor';  // Execution queue that triggered orders are handed to
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// How often a waiting limit order is re-quoted
+const CHECK_INTERVAL_MS = parseInt(process.env.LIMIT_ORDER_CHECK_INTERVAL_MS || '5000');
+
+// Create Redis connection for BullMQ
+const connection = new Redis({
+  host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+  port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+  maxRetriesPerRequest: null,  // BullMQ requirement: no retry limit on requests
+});
+
+// Queue of delayed "check this limit order" jobs, one pending job per waiting order
+export const limitOrderQueue = new Queue('limit-order-watch', {
+  connection,  // Use Redis connection
+  defaultJobOptions: {
+    attempts: 1,  // A failed check simply reschedules itself, no BullMQ retries needed
+    removeOnComplete: true,  // Checks are frequent, don't keep them around
+    removeOnFail: {
+      age: 7200,  // Keep failed checks for 2 hours for debugging
+    },
+  },
+});
+
+limitOrderQueue.on('error', (error) => {
+  console.error('❌ Limit order queue error:', error);  // Log queue-level errors
+});
+
+// Close the price check queue and its Redis connection (shutdown)
+export async function closeLimitOrderQueue(): Promise<void> {
+  await limitOrderQueue.close();
+  await connection.quit();
+}
+
+// Percentage the best quote still has to move to reach the limit (<= 0 means triggered)
+export function calculatePriceDistance(currentPrice: number, limitPrice: number): number {
+  return ((limitPrice - currentPrice) / limitPrice) * 100;
+}
+
+// Schedule the next price check for a waiting limit order
+export async function scheduleLimitCheck(order: Order, delay: number = CHECK_INTERVAL_MS): Promise<void> {
+  if (order.expiresAt) {
+    const untilExpiry = new Date(order.expiresAt).getTime() - Date.now();  // Time left before expiry
+    delay = Math.max(0, Math.min(delay, untilExpiry));  // Never sleep past the expiry
+  }
+
+  await limitOrderQueue.add('check-limit', order, {
+    jobId: `${order.orderId}-${Date.now()}`,  // Unique per check so reschedules never collide
+    delay,  // Wait before re-quoting
+  });
+}
+
+// Re-quote a waiting limit order and either trigger, expire, or reschedule it
+export async function checkLimitOrder(job: Job): Promise<void> {
+  const order: Order = job.data;  // Extract order data from job
+  const { orderId, tokenIn, tokenOut, amountIn } = order;  // Destructure order fields
+  const limitPrice = order.limitPrice as number;  // Validated as present when the order was accepted
+  statusBus.trackOrder(order);  // Pair and account topics (also after a restart)
+
+  try {
+    // Skip orders that left the waiting state in the meantime
+    const current = await orderRepository.findById(orderId);
+    if (!current || current.status !== 'waiting') {
+      console.log(`⏭️  Limit order ${orderId} is no longer waiting, dropping check`);
+      return;
+    }
+
+    // Expire orders whose deadline has passed
+    if (order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now()) {
+      console.log(`⌛ Limit order ${orderId} expired before reaching ${limitPrice}`);
+      const expired = await orderRepository.update(orderId, {
+        status: 'expired',  // Terminal state
+        error: `Limit price ${limitPrice} not reached before ${new Date(order.expiresAt).toISOString()}`
+      }, { expectedStatus: 'waiting' });
+      if (!expired) {
+        return;  // Cancelled meanwhile
+      }
+      await balanceLedger.releaseOrder(orderId, 'release');  // Reserved funds are free again
+      await publishOrderEvent(orderId, 'expired', {
+        limitPrice,  // Trigger that was never reached
+        expiresAt: order.expiresAt  // When the order expired
+      });
+
+      setTimeout(() => {
+        statusBus.closeConnection(orderId);  // Clean up WebSocket connection
+      }, 1000);  // 1 second delay
+      return;
+    }
+
+    // Re-quote through the same router the execution pipeline uses
+    const routeResult = await dexRouter.getBestRoute(tokenIn, tokenOut, BigInt(amountIn));
+    const currentPrice = tokenRegistry.toUiAmount(tokenOut, routeResult.amountOut) / tokenRegistry.toUiAmount(tokenIn, amountIn);  // Net price per tokenIn
+    const priceDistance = calculatePriceDistance(currentPrice, limitPrice);
+
+    if (currentPrice >= limitPrice) {
+      // Trigger met - hand the order to the normal execution pipeline
+      console.log(`🎯 Limit order ${orderId} triggered: ${currentPrice.toFixed(4)} >= ${limitPrice}`);
+      const triggered = await orderRepository.update(orderId, { status: 'pending', lastQuotedPrice: currentPrice, priceDistance }, { expectedStatus: 'waiting' });
+      if (!triggered) {
+        console.log(`⏭️  Limit order ${orderId} left the waiting state while quoting, not triggering`);
+        return;  // Cancelled meanwhile: never execute it
+      }
+      await publishOrderEvent(orderId, 'pending', { limitPrice, currentPrice, priceDistance });
+
+      await enqueueOrder(order);  // Same job ID scheme as market orders
+      return;
+    }
+
+    // Not there yet - record how far away we are and check again later
+    console.log(`⏳ Limit order ${orderId}: ${currentPrice.toFixed(4)} vs limit ${limitPrice} (${priceDistance.toFixed(2)}% away)`);
+    if (!(await orderRepository.update(orderId, { lastQuotedPrice: currentPrice, priceDistance }, { expectedStatus: 'waiting' }))) {
+      return;  // Cancelled meanwhile
+    }
+    statusBus.sendUpdate(orderId, 'waiting', {
+      limitPrice,  // Trigger price
+      currentPrice,  // Latest best quote
+      priceDistance,  // % still to go
+      expiresAt: order.expiresAt  // Optional expiry
+    });
+
+  } catch (error: any) {
+    console.error(`❌ Price check failed for limit order ${orderId}:`, error.message);  // Quote errors are not fatal
+  }
+
+  await scheduleLimitCheck(order);  // Check again after the interval
+}
+
+// Start running price checks (in the API process or a dedicated worker process)
+export function startLimitOrderWatcher(): Worker {
+  const limitOrderWorker = new Worker('limit-order-watch', checkLimitOrder, {
+    connection,  // Use Redis connection
+    concurrency: 10,  // Re-quote up to 10 limit orders concurrently
+  });
+
+  limitOrderWorker.on('error', (error) => {
+    console.error('❌ Limit order worker error:', error);  // Log worker-level errors
+  });
+
+  // Graceful shutdown handler
+  process.on('SIGTERM', async () => {
+    console.log('🛑 SIGTERM received, closing limit order watcher...');  // Log shutdown signal
+    await limitOrderWorker.close();  // Close worker gracefully
+    await limitOrderQueue.close();  // Close queue
+  });
+
+  console.log(`⏳ Limit order watcher started, re-quoting every ${CHECK_INTERVAL_MS / 1000}s`);  // Log watcher startup
+  return limitOrderWorker;
+}
@@ -1,9 +1,19 @@
-import { Worker, Queue, Job } from 'bullmq';  // BullMQ for job queue management
+import { Worker, Queue, Job, UnrecoverableError } from 'bullmq';  // BullMQ for job queue management
 import Redis from 'ioredis';  // Redis client for queue storage
-import { Order, OrderStatus } from '../types';  // Import type definitions
-import { MockDexRouter } from '../services/dex-router';  // DEX routing service
-import { wsManager } from '../utils/websocket-manager';  // WebSocket manager for updates
-import { updateOrder } from '../db/database';  // Database update function
+import { Order, OrderStatus, OrderUpdate, OrderFill, RouteResult, RouteLeg, DexPlatform, ExecutionErrorCode, FailureErrorType, FailureRouteSnapshot, DeadLetterEntry, Quote, FundsShortfall } from '../types';  // Import type definitions
+import { dexRouter, calculateMinAmountOut } from '../services/dex-router';  // Shared DEX routing service
+import { normalizeToken } from '../services/dex-adapters';  // Token normalization for balance keys
+import { tokenRegistry } from '../services/token-registry';  // Token decimals for prices and logs
+import { statusBus } from '../utils/status-bus';  // Relays updates to the API instances holding the sockets
+import { publishOrderEvent } from '../utils/order-events';  // Recorded + streamed status updates
+import { sendAndConfirmSwap, trackFinalization } from './transaction-sender';  // Swap transactions on the simulated chain
+import { priorityFees } from '../services/priority-fees';  // Priority fee routes are priced with
+import { getQuote, isQuoteExpired } from '../utils/quotes';  // Firm quotes orders may execute against
+import { saveOrderFailure } from '../db/database';  // Database functions
+import { balanceLedger } from '../db/balance-ledger';  // Simulated wallet balances
+import { orderRepository } from '../db/order-repository';  // Typed orders table access
+import { scheduleLimitCheck } from './limit-order-watcher';  // Limit orders go back to waiting when their price is gone
+import { enqueueSniperOrder } from './sniper-watcher';  // And so do sniper orders
 import dotenv from 'dotenv';  // Load environment variables
 
 dotenv.config();  // Load .env file
@@ -15,9 +25,6 @@ const connection = new Redis({
   maxRetriesPerRequest: null,  // BullMQ requirement: no retry limit on requests
 });
 
-// Initialize DEX router instance
-const dexRouter = new MockDexRouter();  // Create router for getting quotes and executing swaps
-
 // Create order queue for managing pending orders
 export const orderQueue = new Queue('order-processing', {
   connection,  // Use Redis connection
@@ -37,90 +44,713 @@ export const orderQueue = new Queue('order-processing', {
   },
 });
 
+// Orders that exhausted their attempts, parked until an admin requeues them.
+// No worker consumes this queue: entries wait here instead of expiring from the failed set.
+export const deadLetterQueue = new Queue('order-dead-letter', {
+  connection,  // Use Redis connection
+});
+
+// Fresh quotes tried within one attempt after slippage breaches, before falling back to a BullMQ retry
+const SLIPPAGE_MAX_REQUOTES = parseInt(process.env.SLIPPAGE_MAX_REQUOTES || '2');
+
+// How long a cancellation request stays pending (covers retries waiting out their backoff)
+const CANCEL_FLAG_TTL_SECONDS = 3600;
+
+// Statuses a cancellation can still take an order out of (swaps go out once it is 'submitted')
+const CANCELLABLE_STATUSES: OrderStatus[] = ['pending', 'waiting', 'routing', 'building'];
+
+// Statuses of an order being executed (a retry starts from wherever the previous attempt stopped)
+const EXECUTING_STATUSES: OrderStatus[] = ['pending', 'routing', 'building', 'submitted'];
+
+// Redis key flagging an in-flight order for cancellation
+function cancelKey(orderId: string): string {
+  return `order:cancel:${orderId}`;
+}
+
+// Ask the worker to stop an in-flight order at its next safe checkpoint
+export async function requestCancellation(orderId: string): Promise<void> {
+  await connection.set(cancelKey(orderId), '1', 'EX', CANCEL_FLAG_TTL_SECONDS);
+}
+
+// Move an order to 'cancelled' and send the final WebSocket message; false if it moved past cancelling first
+export async function markCancelled(orderId: string, stage: string): Promise<boolean> {
+  const cancelled = await orderRepository.update(orderId, {
+    status: 'cancelled',  // Terminal state
+    error: `Cancelled by user while ${stage}`
+  }, { expectedStatus: CANCELLABLE_STATUSES });
+  if (!cancelled) {
+    console.log(`⏭️  Order ${orderId} moved on before it could be cancelled while ${stage}`);
+    return false;
+  }
+  
+  console.log(`🛑 Order ${orderId} cancelled while ${stage}`);  // Log cancellation
+  await balanceLedger.releaseOrder(orderId, 'release');  // Reserved funds are free again
+  await publishOrderEvent(orderId, 'cancelled', { error: `Cancelled by user while ${stage}` });
+  
+  // Close WebSocket after a short delay (let final message be received)
+  setTimeout(() => {
+    statusBus.closeConnection(orderId);  // Clean up WebSocket connection
+  }, 1000);  // 1 second delay
+  return true;
+}
+
+// Move an order on to its next status unless something else changed it first (false if it did)
+async function advanceStatus(orderId: string, from: OrderStatus[], changes: OrderUpdate & { status: OrderStatus }): Promise<boolean> {
+  if (await orderRepository.update(orderId, changes, { expectedStatus: from })) {
+    return true;
+  }
+  const current = await orderRepository.findById(orderId);
+  console.log(`⏭️  Order ${orderId} is ${current ? current.status : 'gone'}, not moving it to ${changes.status}`);
+  return false;
+}
+
+// Lowest priority BullMQ accepts (larger numbers run later)
+const MAX_JOB_PRIORITY = 2097152;
+
+// Waiting-order counts expire if an account goes quiet, so any drift heals itself
+const QUEUED_COUNT_TTL_SECONDS = 3600;
+
+// Redis key counting an account's orders waiting in the execution queue
+function queuedKey(accountId?: string): string {
+  return `order:queued:${accountId || 'anonymous'}`;
+}
+
+// Add an order to the execution queue behind its own account's waiting orders: an account's nth
+// waiting order gets priority n and BullMQ runs lower numbers first, so one busy account can't
+// starve the others. Retries keep the priority the job was added with.
+export async function enqueueOrder(order: Order): Promise<void> {
+  const previous = await orderQueue.getJob(order.orderId);
+  if (previous && (await previous.isCompleted())) {
+    await previous.remove();  // Run that put a limit or sniper order back to waiting: its job would swallow the new one
+  }
+  
+  const key = queuedKey(order.accountId);
+  const position = await connection.incr(key);
+  await connection.expire(key, QUEUED_COUNT_TTL_SECONDS);
+  
+  await orderQueue.add('process-order', order, {
+    jobId: order.orderId,  // Job ID is the order ID (also keeps an order from being queued twice)
+    priority: Math.min(position, MAX_JOB_PRIORITY),  // Place in the account's own line
+  });
+}
+
+// An order left its account's line (started, or removed before starting)
+async function leaveQueue(accountId?: string): Promise<void> {
+  const key = queuedKey(accountId);
+  if ((await connection.decr(key)) < 0) {
+    await connection.set(key, 0);  // Never below zero, even after a stalled job ran twice
+  }
+}
+
+// Remove a job that hasn't started running (e.g. cancelled while queued)
+export async function removeQueuedJob(job: Job): Promise<void> {
+  await job.remove();
+  if (job.attemptsMade === 0) {
+    await leaveQueue(job.data.accountId);  // Jobs waiting out a retry backoff already left the line
+  }
+}
+
+// Safe checkpoint: stop here if cancellation was requested (true when the order was cancelled)
+async function cancelledAtCheckpoint(orderId: string, stage: string): Promise<boolean> {
+  if (!(await connection.exists(cancelKey(orderId)))) {
+    return false;
+  }
+  await connection.del(cancelKey(orderId));
+  return markCancelled(orderId, stage);
+}
+
+// Park a job that used up its attempts in the dead-letter queue, under the same orderId
+export async function moveToDeadLetter(job: Job, error: Error): Promise<void> {
+  const order: Order = job.data;  // Includes fills recorded by the failed attempts
+  const entry: DeadLetterEntry = {
+    order,
+    error: error.message,
+    attempts: job.attemptsMade,
+    deadLetteredAt: new Date()
+  };
+  
+  await deadLetterQueue.add('dead-letter', entry, { jobId: order.orderId });
+  await job.remove();  // Free the jobId so a requeue can reuse the orderId
+  console.log(`🪦 Order ${order.orderId} moved to the dead-letter queue after ${job.attemptsMade} attempts`);
+}
+
+// Dead-lettered order by ID, or null if it isn't in the dead-letter queue
+export async function getDeadLetter(orderId: string): Promise<DeadLetterEntry | null> {
+  const job = await deadLetterQueue.getJob(orderId);
+  return job ? job.data : null;
+}
+
+// Page of dead-lettered orders, most recent first
+export async function listDeadLetters(offset: number, limit: number): Promise<{ total: number; entries: DeadLetterEntry[] }> {
+  const [total, jobs] = await Promise.all([
+    deadLetterQueue.getWaitingCount(),
+    deadLetterQueue.getWaiting(offset, offset + limit - 1)
+  ]);
+  return { total, entries: jobs.map(job => job.data) };
+}
+
+// Send a dead-lettered order back to the execution queue with its orderId, fills and history.
+// Overrides change the slippage tolerance or pin the route to one venue; null if it isn't dead-lettered
+// or another request is already requeueing it (the order is no longer failed).
+// What the order still has to swap is reserved again; a FundsShortfall if the account can't cover it.
+export async function requeueDeadLetter(
+  orderId: string,
+  overrides: { slippage?: number; forcedDex?: DexPlatform }
+): Promise<Order | FundsShortfall | null> {
+  const deadLetter = await deadLetterQueue.getJob(orderId);
+  if (!deadLetter) {
+    return null;
+  }
+  
+  const entry: DeadLetterEntry = deadLetter.data;
+  const order: Order = {
+    ...entry.order,
+    slippage: overrides.slippage ?? entry.order.slippage,
+    forcedDex: overrides.forcedDex ?? entry.order.forcedDex,
+    quoteId: undefined  // Its quote has long expired: route at current prices
+  };
+  
+  // Only the request that takes the order out of 'failed' reserves funds for it and queues it
+  if (!(await orderRepository.update(orderId, { status: 'pending', slippage: overrides.slippage }, { expectedStatus: 'failed' }))) {
+    console.log(`⏭️  Order ${orderId} is no longer failed, not requeueing it`);
+    return null;
+  }
+  
+  if (order.accountId) {
+    const shortfall = await balanceLedger.reserve(order.accountId, orderId, openPositions(order, order.fills || []));
+    if (shortfall) {
+      await orderRepository.update(orderId, { status: 'failed', slippage: entry.order.slippage }, { expectedStatus: 'pending' });  // Stays dead-lettered
+      return shortfall;
+    }
+  }
+  
+  const stale = await orderQueue.getJob(orderId);
+  if (stale) {
+    await stale.remove();  // Failed job left behind if the move to the dead-letter queue was interrupted
+  }
+  
+  statusBus.trackOrder(order);
+  await publishOrderEvent(orderId, 'pending', {
+    slippage: order.slippage,  // Tolerance for the new run
+    forcedDex: order.forcedDex,  // Venue the route is pinned to, if any
+    error: entry.error,  // Why it was dead-lettered
+    attempts: entry.attempts  // Attempts made before it was dead-lettered
+  }, 'requeue');
+  await enqueueOrder(order);  // Same job ID, fresh attempts
+  await deadLetter.remove();
+  
+  console.log(`♻️  Order ${orderId} requeued from the dead-letter queue${order.forcedDex ? ` (pinned to ${order.forcedDex})` : ''}`);
+  return order;
+}
+
+// Close the execution and dead-letter queues and their Redis connection (shutdown)
+export async function closeOrderQueues(): Promise<void> {
+  await Promise.all([orderQueue.close(), deadLetterQueue.close()]);
+  await connection.quit();
+}
+
 // Log queue events for monitoring
 orderQueue.on('error', (error) => {
   console.error('❌ Queue error:', error);  // Log queue-level errors
 });
 
+// Tokens the order still holds other than tokenOut, derived from fills of earlier attempts.
+// A multi-hop attempt that failed midway leaves part of the order in an intermediate token.
+function openPositions(order: Order, fills: OrderFill[]): Array<{ token: string; amount: bigint }> {
+  const balances: Map<string, { token: string; amount: bigint }> = new Map();  // Key: normalized token
+  const adjust = (token: string, delta: bigint) => {
+    const key = normalizeToken(token);
+    const balance = balances.get(key) || { token, amount: 0n };
+    balance.amount += delta;
+    balances.set(key, balance);
+  };
+  
+  adjust(order.tokenIn, BigInt(order.amountIn));
+  for (const fill of fills) {
+    adjust(fill.tokenIn, -BigInt(fill.amountIn));  // Spent on this leg
+    adjust(fill.tokenOut, BigInt(fill.amountOut));  // Received from this leg
+  }
+  balances.delete(normalizeToken(order.tokenOut));  // Already where it needs to be
+  
+  return Array.from(balances.values()).filter(balance => balance.amount > 0n);  // Base units: no rounding dust
+}
+
+// tokenOut the fills already delivered
+function deliveredAmountOut(order: Order, fills: OrderFill[]): bigint {
+  return fills
+    .filter(fill => normalizeToken(fill.tokenOut) === normalizeToken(order.tokenOut))
+    .reduce((sum, fill) => sum + BigInt(fill.amountOut), 0n);
+}
+
+// Least tokenOut the whole order may deliver under its price condition: a limit order gets at least
+// limitPrice tokenOut per tokenIn, a sniper order pays at most maxPrice tokenIn per tokenOut.
+// Undefined for orders without one.
+export function minTotalAmountOut(order: Order): bigint | undefined {
+  const amountIn = tokenRegistry.toUiAmount(order.tokenIn, order.amountIn);
+  if (order.orderType === 'limit' && order.limitPrice) {
+    return tokenRegistry.toBaseUnits(order.tokenOut, order.limitPrice * amountIn);
+  }
+  if (order.orderType === 'sniper' && order.maxPrice) {
+    return tokenRegistry.toBaseUnits(order.tokenOut, amountIn / order.maxPrice);
+  }
+  return undefined;
+}
+
+// Price condition of a limit or sniper order, for logs and errors
+function describePriceCondition(order: Order): string {
+  return order.orderType === 'sniper' ? `max price ${order.maxPrice}` : `limit price ${order.limitPrice}`;
+}
+
+// tokenOut the order still has to receive to meet its price condition, after what earlier fills delivered
+function outstandingAmountOut(order: Order, fills: OrderFill[]): bigint | undefined {
+  const minimum = minTotalAmountOut(order);
+  if (minimum === undefined) {
+    return undefined;
+  }
+  const delivered = deliveredAmountOut(order, fills);
+  return minimum > delivered ? minimum - delivered : 0n;
+}
+
+// Whether routes are quoted to deliver at least the outstanding tokenOut (always, without a price condition)
+function routesReach(routes: RouteResult[], outstanding: bigint | undefined): boolean {
+  return outstanding === undefined || routes.reduce((sum, route) => sum + BigInt(route.amountOut), 0n) >= outstanding;
+}
+
+// Put a triggered limit or sniper order back to waiting once no route meets its price condition any more.
+// Nothing has been sent, so its funds stay reserved until its watcher fires it again.
+async function rearmOrder(order: Order, attempt: number): Promise<void> {
+  const { orderId } = order;
+  if (!(await advanceStatus(orderId, ['routing'], { status: 'waiting' }))) {
+    return;  // Cancelled meanwhile
+  }
+  console.log(`⏳ Order ${orderId} no longer meets its ${describePriceCondition(order)}, waiting again`);
+  
+  if (order.orderType === 'sniper') {
+    await publishOrderEvent(orderId, 'waiting', {
+      maxPrice: order.maxPrice,  // Cap the order waits to fit under again
+      expiresAt: order.expiresAt  // Deadline for the pool
+    }, 'status', attempt);
+    await enqueueSniperOrder(order);
+  } else {
+    await publishOrderEvent(orderId, 'waiting', {
+      limitPrice: order.limitPrice,  // Trigger the order waits for again
+      expiresAt: order.expiresAt  // Optional expiry
+    }, 'status', attempt);
+    await scheduleLimitCheck(order);
+  }
+}
+
+// Failed leg of an execution pass
+interface LegError {
+  message: string;  // Human-readable reason, prefixed with venue and pair
+  code: ExecutionErrorCode;  // Machine-readable reason
+  slippageBps?: number;  // Slippage breaches only: how far the market fell short of the quote
+}
+
+// Route each open position to tokenOut, ranking routes net of the fees the order's priority fee would pay
+async function routeOpenPositions(order: Order, fills: OrderFill[], dexes?: DexPlatform[]): Promise<RouteResult[]> {
+  const computeUnitPrice = priorityFees.resolve(order.priorityFee);
+  const routes: RouteResult[] = [];
+  for (const position of openPositions(order, fills)) {
+    routes.push(await dexRouter.getBestRoute(position.token, order.tokenOut, position.amount, dexes, computeUnitPrice));  // Fetch and compare quotes
+  }
+  return routes;
+}
+
+// Lamports the fills' transactions paid, in total and as priority fees
+function feesPaid(fills: OrderFill[]): { networkFee: string; priorityFeePaid: string } {
+  return {
+    networkFee: fills.reduce((sum, fill) => sum + BigInt(fill.networkFee), 0n).toString(),
+    priorityFeePaid: fills.reduce((sum, fill) => sum + BigInt(fill.priorityFee || '0'), 0n).toString()  // Fills from before priority fees have none
+  };
+}
+
+// Token path(s) of a set of routes, e.g. 'BONK -> SOL -> USDC'
+function describePath(routes: RouteResult[]): string {
+  return routes.map(route => route.path.join(' -> ')).join(', ');
+}
+
+// Shortfall of an amount vs. its quote in basis points; undefined without an amount or a quote to compare to
+export function shortfallBps(amount: bigint | undefined, quoted: bigint): number | undefined {
+  if (amount === undefined || quoted <= 0n) {
+    return undefined;
+  }
+  return (1 - Number(amount) / Number(quoted)) * 10000;
+}
+
+// Shortfall of the fills vs. their quotes in basis points, compounded across hops (hops quoted at 0 don't count)
+export function fillSlippageBps(fills: OrderFill[]): number {
+  const ratio = Array.from(new Set(fills.map(fill => fill.hop))).reduce((product, hop) => {
+    const hopFills = fills.filter(fill => fill.hop === hop);
+    const filled = hopFills.reduce((sum, fill) => sum + BigInt(fill.amountOut), 0n);
+    const quoted = hopFills.reduce((sum, fill) => sum + BigInt(fill.quotedAmountOut), 0n);
+    const shortfall = shortfallBps(filled, quoted);
+    return shortfall === undefined ? product : product * (1 - shortfall / 10000);
+  }, 1);
+  return (1 - ratio) * 10000;
+}
+
+// Worst slippage breach among failed legs, if any of them reported one
+function worstSlippageBps(legErrors: LegError[]): number | undefined {
+  const breaches = legErrors.flatMap(legError => legError.slippageBps === undefined ? [] : [legError.slippageBps]);
+  return breaches.length > 0 ? Math.max(...breaches) : undefined;
+}
+
+// Snapshot of the routes an attempt was executing, kept with its post-mortem
+function snapshotRoutes(routes: RouteResult[]): FailureRouteSnapshot | null {
+  if (routes.length === 0) {
+    return null;  // Failed before routing finished
+  }
+  return {
+    reason: routes.map(route => route.reason).join('; '),
+    routePath: describePath(routes),
+    quotes: routes.flatMap(route => route.quotes),
+    legs: routes.flatMap(route => route.legs).map(({ hop, dex, tokenIn, tokenOut, amountIn, share, quote }) => ({
+      hop, dex, tokenIn, tokenOut, amountIn, share, quotedAmountOut: quote.amountOut
+    }))
+  };
+}
+
+// Post-mortem category of a final failure
+function classifyFailure(failureReason: ExecutionErrorCode | undefined, stage: OrderStatus): FailureErrorType {
+  if (failureReason) {
+    return failureReason;  // Swaps were sent and the venue reported why they failed
+  }
+  return stage === 'routing' ? 'ROUTING_FAILED' : 'INTERNAL_ERROR';
+}
+
+// Execute routes hop by hop, persisting every filled leg; returns the legs that failed.
+// With an outstanding amount (price condition) every final-hop leg also reverts below its quoted share of it.
+async function executeRoutes(
+  order: Order,
+  routes: RouteResult[],
+  fills: OrderFill[],
+  slippage: number,
+  outstanding: bigint | undefined,
+  attempt: number
+): Promise<LegError[]> {
+  const { orderId, priorityFee } = order;
+  const legErrors: LegError[] = [];
+  
+  const finalLegs = routes.flatMap(route => route.legs.filter(leg => leg.hop === route.path.length - 2));
+  const finalQuoted = finalLegs.reduce((sum, leg) => sum + BigInt(leg.quote.amountOut), 0n);
+  const legMinimum = (leg: RouteLeg): bigint => outstanding === undefined || finalQuoted === 0n || !finalLegs.includes(leg)
+    ? 0n
+    : (outstanding * BigInt(leg.quote.amountOut) + finalQuoted - 1n) / finalQuoted;  // Rounded up, so the legs together reach it
+  
+  for (const route of routes) {
+    let hopInput = 0n;  // What the previous hop actually produced
+    
+    // Execute hop by hop; every leg of a hop runs on its own DEX with its own transaction
+    for (let hop = 0; hop < route.path.length - 1 && legErrors.length === 0; hop++) {
+      const legs = route.legs.filter(leg => leg.hop === hop);
+      let unassigned = hopInput;  // Later hops: real output not yet given to a leg
+      const sized = legs.map((leg, i) => {
+        let legAmountIn = BigInt(leg.amountIn);
+        if (hop > 0) {
+          // Later hops swap the real output, split by share; the last leg takes the remainder
+          legAmountIn = i === legs.length - 1 ? unassigned : hopInput * BigInt(Math.round(leg.share * 10000)) / 10000n;
+          unassigned -= legAmountIn;
+        }
+        const plannedIn = BigInt(leg.amountIn);
+        const quotedAmountOut = plannedIn > 0n ? BigInt(leg.quote.amountOut) * legAmountIn / plannedIn : 0n;
+        const tolerated = calculateMinAmountOut(quotedAmountOut, slippage);  // Quote minus tolerance
+        const minAmountOut = legMinimum(leg) > tolerated ? legMinimum(leg) : tolerated;
+        return { leg, amountIn: legAmountIn, quotedAmountOut, minAmountOut };
+      });
+      
+      // Each leg is its own transaction; a hop is done once all of them are confirmed or can no longer land
+      const outcomes = await Promise.allSettled(sized.map(({ leg, amountIn, minAmountOut }) => sendAndConfirmSwap({
+        dex: leg.dex,  // Which DEX to use
+        tokenIn: leg.tokenIn,  // Input token for this hop
+        tokenOut: leg.tokenOut,  // Output token for this hop
+        amountIn: amountIn.toString(),  // Input amount for this leg
+        minAmountOut: minAmountOut.toString(),  // Revert below the quote minus tolerance (or the price condition)
+        computeUnitLimit: leg.quote.computeUnits  // Compute the venue's swap requests
+      }, { orderId, hop, attempt, priorityFee })));
+      
+      // Persist successful legs so a retry never re-trades them
+      hopInput = 0n;
+      for (let i = 0; i < outcomes.length; i++) {
+        const { leg, amountIn, quotedAmountOut } = sized[i];
+        const outcome = outcomes[i];
+        
+        if (outcome.status === 'fulfilled' && outcome.value.success) {
+          const fill: OrderFill = {
+            legIndex: fills.length,  // Numbered across attempts
+            hop,
+            dex: leg.dex,
+            tokenIn: leg.tokenIn,
+            tokenOut: leg.tokenOut,
+            amountIn: amountIn.toString(),
+            amountOut: outcome.value.amountOut as string,
+            quotedAmountOut: quotedAmountOut.toString(),
+            executedPrice: outcome.value.executedPrice as number,
+            txHash: outcome.value.txHash as string,  // Transaction signature
+            networkFee: outcome.value.networkFee || '0',
+            priorityFee: outcome.value.priorityFee || '0'
+          };
+          fills.push(fill);
+          hopInput += BigInt(fill.amountOut);
+          await balanceLedger.recordFill(orderId, fill);  // Store leg in order_fills and swap its tokens in the account's ledger
+        } else {
+          const result = outcome.status === 'fulfilled' ? outcome.value : undefined;
+          const error = result ? result.error : outcome.status === 'rejected' ? outcome.reason?.message : undefined;
+          const code = result?.errorCode || 'EXECUTION_FAILED';
+          legErrors.push({
+            message: `${leg.dex} (${leg.tokenIn} -> ${leg.tokenOut}): ${error || 'Swap execution failed'}`,
+            code,
+            slippageBps: code === 'SLIPPAGE_EXCEEDED'
+              ? shortfallBps(result?.amountOut === undefined ? undefined : BigInt(result.amountOut), quotedAmountOut)
+              : undefined
+          });
+        }
+      }
+    }
+  }
+  
+  return legErrors;
+}
+
 // Process order job - this is the main order execution logic
-async function processOrder(job: Job): Promise<void> {
+export async function processOrder(job: Job): Promise<void> {
   const order: Order = job.data;  // Extract order data from job
-  const { orderId, tokenIn, tokenOut, amountIn, slippage } = order;  // Destructure order fields
+  const { orderId, tokenIn, tokenOut, amountIn } = order;  // Destructure order fields
+  const slippage = order.slippage ?? 0.01;  // Slippage tolerance
   
-  console.log(`\n🚀 Processing order ${orderId} (Attempt ${job.attemptsMade + 1}/${job.opts.attempts})`);  // Log processing start
+  // Legs filled on earlier attempts are kept; only what hasn't reached tokenOut is routed again
+  const fills: OrderFill[] = [...(order.fills || [])];
+  let failureReason: ExecutionErrorCode | undefined;  // Set when execution fails on this attempt
+  let stage: OrderStatus = 'pending';  // Last status this attempt reached
+  const attempt = job.attemptsMade + 1;  // 1-based, as recorded in order_events
+  const maxAttempts = job.opts.attempts || 3;  // Attempts allowed for this job
+  let routes: RouteResult[] = [];  // Routes this attempt is executing
+  
+  statusBus.trackOrder(order);  // Pair and account topics (also after a restart or requeue)
+  if (job.attemptsMade === 0) {
+    await leaveQueue(order.accountId);  // First attempt: the order is no longer waiting in its account's line
+  }
+  console.log(`\n🚀 Processing order ${orderId} (Attempt ${attempt}/${maxAttempts})`);  // Log processing start
+  if (fills.length > 0) {
+    const remaining = openPositions(order, fills)
+      .map(position => `${tokenRegistry.format(position.token, position.amount)} ${position.token}`).join(', ');
+    console.log(`[${orderId}] Resuming: ${fills.length} leg(s) already filled, routing remaining ${remaining}`);
+  }
   
   try {
+    if (await cancelledAtCheckpoint(orderId, 'pending')) {
+      return;  // Cancelled before this attempt started
+    }
+    
     // STEP 1: Update status to 'routing' and notify via WebSocket
     console.log(`[${orderId}] Step 1/4: Routing...`);  // Log current step
-    await updateOrder(orderId, { status: 'routing' });  // Update database
-    wsManager.sendUpdate(orderId, 'routing');  // Send WebSocket update
+    stage = 'routing';
+    if (!(await advanceStatus(orderId, EXECUTING_STATUSES, { status: 'routing' }))) {
+      return;  // Finished or cancelled elsewhere (e.g. a duplicate delivery of the job)
+    }
+    await publishOrderEvent(orderId, 'routing', undefined, 'status', attempt);  // Record and send WebSocket update
     
-    // Get best route by comparing Raydium and Meteora
-    const routeResult = await dexRouter.getBestRoute(tokenIn, tokenOut, amountIn);  // Fetch and compare quotes
-    console.log(`[${orderId}] Selected DEX: ${routeResult.selectedDex}`);  // Log selected DEX
+    // Requeued orders may be pinned to one DEX; sniper orders may only trade where the awaited pool is listed
+    const dexes = order.forcedDex
+      ? [order.forcedDex]
+      : order.orderType === 'sniper'
+        ? dexRouter.getListedDexes(tokenIn, tokenOut, order.minLiquidity)
+        : undefined;
+    
+    // Orders placed with a quote execute its route until a leg fills; a partly filled order routes what is left
+    let quote: Quote | null = null;
+    if (order.quoteId && fills.length === 0) {
+      quote = await getQuote(order.quoteId);
+      if (!quote || isQuoteExpired(quote)) {
+        failureReason = 'QUOTE_EXPIRED';
+        throw new UnrecoverableError(`Quote ${order.quoteId} expired before the order could execute`);
+      }
+    }
+    
+    // Get best route for each open position (possibly multi-hop and split into several legs)
+    const routingStarted = Date.now();
+    routes = quote ? [quote.route] : await routeOpenPositions(order, fills, dexes);
+    const routeLegs = routes.flatMap(route => route.legs);
+    const routeDexes = Array.from(new Set(routeLegs.map(leg => leg.dex))).join('+');  // e.g. 'raydium+meteora' when split
+    let routePath = describePath(routes);  // e.g. 'BONK -> SOL -> USDC'
+    console.log(`[${orderId}] Selected DEX: ${routeDexes} via ${routePath}`);  // Log selected DEX(s) and path
+    await publishOrderEvent(orderId, 'routing', {
+      quotes: routes.flatMap(route => route.quotes),  // Every venue quote that was compared
+      reason: routes.map(route => route.reason).join('; '),  // Routing decision
+      dexUsed: routeDexes,
+      routePath,
+      routingMs: Date.now() - routingStarted  // How long routing took
+    }, 'quotes', attempt);
+    
+    // Limit and sniper orders never fill past their price: if it moved away since the trigger, wait for it again
+    let outstanding = outstandingAmountOut(order, fills);
+    if (!routesReach(routes, outstanding)) {
+      if (fills.length === 0) {
+        await rearmOrder(order, attempt);
+        return;
+      }
+      throw new Error(`No route for the rest of the order meets its ${describePriceCondition(order)}`);  // Partly filled: retry
+    }
+    
+    if (await cancelledAtCheckpoint(orderId, 'routing')) {
+      return;  // Nothing has been sent yet
+    }
     
     // STEP 2: Update status to 'building' (building transaction)
     console.log(`[${orderId}] Step 2/4: Building transaction...`);  // Log current step
-    await updateOrder(orderId, { 
+    stage = 'building';
+    if (!(await advanceStatus(orderId, ['routing'], {
       status: 'building',  // Update status
-      dexUsed: routeResult.selectedDex  // Store which DEX we're using
-    });
-    wsManager.sendUpdate(orderId, 'building', { 
-      dexUsed: routeResult.selectedDex  // Include DEX info in update
-    });
+      dexUsed: routeDexes,  // Store which DEX(s) we're using
+      routePath  // Store the token path
+    }))) {
+      return;
+    }
+    await publishOrderEvent(orderId, 'building', { 
+      dexUsed: routeDexes,  // Include DEX info in update
+      routePath,  // Include token path
+      legs: routeLegs.map(({ hop, dex, amountIn, share, quote }) => ({ hop, dex, amountIn, share, priceImpact: quote.priceImpact }))  // Planned hops, split and impact
+    }, 'status', attempt);
     
     // Simulate transaction building time (would be actual tx construction in real implementation)
     await new Promise(resolve => setTimeout(resolve, 500));  // 500ms delay
     
+    if (await cancelledAtCheckpoint(orderId, 'building')) {
+      return;  // Last point before anything reaches the chain
+    }
+    
+    // A quote still has to hold when its swaps go out: fail before sending anything rather than trade a stale price
+    if (quote) {
+      if (isQuoteExpired(quote)) {
+        failureReason = 'QUOTE_EXPIRED';
+        throw new UnrecoverableError(`Quote ${quote.quoteId} expired at ${quote.expiresAt.toISOString()} before the order was submitted`);
+      }
+      const current = await dexRouter.repriceRoute(quote.route);
+      if (current < calculateMinAmountOut(BigInt(quote.amountOut), slippage)) {
+        failureReason = 'SLIPPAGE_EXCEEDED';
+        const slippageBps = shortfallBps(current, BigInt(quote.amountOut)) as number;  // Only reachable with a quoted output above 0
+        await orderRepository.update(orderId, { failureReason, slippageBps });  // Record the drift
+        throw new UnrecoverableError(`Market moved ${slippageBps.toFixed(1)} bps against quote ${quote.quoteId}, past the ${(slippage * 100).toFixed(2)}% tolerance`);
+      }
+    }
+    
     // STEP 3: Update status to 'submitted' (sending to blockchain)
     console.log(`[${orderId}] Step 3/4: Submitting to blockchain...`);  // Log current step
-    await updateOrder(orderId, { status: 'submitted' });  // Update database
-    wsManager.sendUpdate(orderId, 'submitted');  // Send WebSocket update
-    
-    // Execute the swap on the selected DEX
-    const executionResult = await dexRouter.executeSwap(
-      routeResult.selectedDex,  // Which DEX to use
-      tokenIn,  // Input token
-      tokenOut,  // Output token
-      amountIn,  // Input amount
-      routeResult.quote.amountOut,  // Expected output amount
-      slippage || 0.01  // Slippage tolerance
-    );
+    stage = 'submitted';
+    if (!(await advanceStatus(orderId, ['building'], { status: 'submitted' }))) {
+      return;  // Nothing has reached the chain yet
+    }
+    await publishOrderEvent(orderId, 'submitted', undefined, 'status', attempt);  // Record and send WebSocket update
+    
+    let legErrors = await executeRoutes(order, routes, fills, slippage, outstanding, attempt);
+    
+    // The market moved past the tolerance: quote again at current prices rather than replay the stale quote
+    // (never for a firm quote: the client agreed to its price, not to whatever the market offers now)
+    let requotes = 0;
+    while (
+      !quote &&
+      legErrors.length > 0 &&
+      legErrors.every(legError => legError.code === 'SLIPPAGE_EXCEEDED') &&
+      requotes < SLIPPAGE_MAX_REQUOTES
+    ) {
+      requotes++;
+      const slippageBps = worstSlippageBps(legErrors);
+      const by = slippageBps === undefined ? '' : ` by up to ${slippageBps.toFixed(1)} bps`;
+      console.log(`🔁 [${orderId}] Slippage exceeded${by}, re-quoting (${requotes}/${SLIPPAGE_MAX_REQUOTES})`);
+      await orderRepository.update(orderId, { failureReason: 'SLIPPAGE_EXCEEDED', slippageBps });  // Record the breach
+      
+      routes = await routeOpenPositions(order, fills, dexes);
+      outstanding = outstandingAmountOut(order, fills);
+      if (!routesReach(routes, outstanding)) {
+        break;  // Past the price condition now: the retry re-checks it before anything is sent
+      }
+      routePath = describePath(routes);
+      await publishOrderEvent(orderId, 'submitted', {
+        failureReason: 'SLIPPAGE_EXCEEDED',  // Why we re-quoted
+        slippageBps,  // How far the market moved past the quote
+        requotes,  // Re-quotes so far
+        routePath,  // Fresh route
+        quotes: routes.flatMap(route => route.quotes),  // Fresh venue quotes
+        reason: routes.map(route => route.reason).join('; ')  // Fresh routing decision
+      }, 'quotes', attempt);
+      legErrors = await executeRoutes(order, routes, fills, slippage, outstanding, attempt);
+    }
     
     // Check if execution was successful
-    if (!executionResult.success) {
-      throw new Error(executionResult.error || 'Swap execution failed');  // Throw error to trigger retry
+    if (legErrors.length > 0) {
+      failureReason = legErrors[0].code;
+      await orderRepository.update(orderId, {
+        failureReason,  // Why this attempt failed
+        slippageBps: worstSlippageBps(legErrors),
+        ...(fills.length > 0 ? feesPaid(fills) : {})  // Legs that did fill paid their fees
+      });
+      await job.updateData({ ...order, fills });  // Remember partial fills for the retry
+      const errors = legErrors.map(legError => legError.message).join('; ');
+      if (quote && failureReason === 'SLIPPAGE_EXCEEDED') {
+        const filled = fills.length > 0 ? `, ${fills.length} leg(s) filled` : '';
+        throw new UnrecoverableError(`${errors} (quote ${quote.quoteId} no longer holds${filled})`);  // A retry would miss the quote too
+      }
+      const partial = fills.length > 0 ? ` (${fills.length} leg(s) filled, remainder will be re-routed)` : '';
+      throw new Error(`${errors}${partial}`);  // Throw error to trigger retry
     }
     
+    // Combine all legs that delivered tokenOut into the order-level result
+    const totalOut = deliveredAmountOut(order, fills);
+    const averagePrice = tokenRegistry.toUiAmount(tokenOut, totalOut) / tokenRegistry.toUiAmount(tokenIn, amountIn);  // Volume-weighted across legs and hops
+    const slippageBps = fillSlippageBps(fills);
+    const totalAmountOut = totalOut.toString();
+    const quotedAmountOut = BigInt(Math.round(Number(totalOut) / (1 - slippageBps / 10000))).toString();  // What the quotes promised end to end
+    const dexUsed = Array.from(new Set(fills.map(fill => fill.dex))).join('+');
+    const { networkFee, priorityFeePaid } = feesPaid(fills);
+    
     // STEP 4: Update status to 'confirmed' (transaction successful)
     console.log(`[${orderId}] Step 4/4: Confirmed!`);  // Log completion
-    await updateOrder(orderId, {
+    // Unconditional: the swaps have executed, whatever else happened to the order meanwhile
+    await orderRepository.update(orderId, {
       status: 'confirmed',  // Final success status
-      executedPrice: executionResult.executedPrice,  // Store actual execution price
-      amountOut: executionResult.amountOut,  // Store actual output amount
-      txHash: executionResult.txHash  // Store transaction hash
+      dexUsed,  // Every venue that filled a leg
+      routePath,  // Token path of the final attempt
+      executedPrice: averagePrice,  // Store average execution price
+      amountOut: totalAmountOut,  // Store total output amount
+      quotedAmountOut,  // Store what the quotes promised
+      slippageBps,  // Store fill vs. quote delta
+      networkFee,  // Store fees paid across all legs
+      priorityFeePaid,  // Store the priority fee part of them
+      txHash: fills[0].txHash  // First leg's hash (all legs are in order_fills)
     });
+    await balanceLedger.releaseOrder(orderId, 'settle');  // tokenOut and the unused fee allowance become available
     
-    // Send final success update via WebSocket
-    wsManager.sendUpdate(orderId, 'confirmed', {
-      txHash: executionResult.txHash,  // Include transaction hash
-      executedPrice: executionResult.executedPrice,  // Include execution price
-      amountOut: executionResult.amountOut,  // Include output amount
-      dexUsed: routeResult.selectedDex  // Include which DEX was used
-    });
+    // Record and send final success update via WebSocket
+    await publishOrderEvent(orderId, 'confirmed', {
+      txHash: fills[0].txHash,  // Include first transaction hash
+      executedPrice: averagePrice,  // Include average execution price
+      amountOut: totalAmountOut,  // Include total output amount
+      quotedAmountOut,  // Include what the quotes promised
+      slippageBps,  // Include fill vs. quote delta
+      networkFee,  // Include fees paid across all legs
+      priorityFeePaid,  // Include the priority fee part of them
+      dexUsed,  // Include which DEX(s) were used
+      routePath,  // Include token path
+      fills  // Include per-leg tx hashes and fills
+    }, 'status', attempt);
     
     console.log(`✅ Order ${orderId} completed successfully`);  // Log final success
     
-    // Close WebSocket after a short delay (let final message be received)
-    setTimeout(() => {
-      wsManager.closeConnection(orderId);  // Clean up WebSocket connection
-    }, 1000);  // 1 second delay
+    // Keep the stream open until the swaps can no longer be rolled back (followed outside this worker slot)
+    trackFinalization(orderId, fills.map(fill => fill.txHash), attempt, () => {
+      // Close WebSocket after a short delay (let final message be received)
+      setTimeout(() => {
+        statusBus.closeConnection(orderId);  // Clean up WebSocket connection
+      }, 1000);  // 1 second delay
+    });
     
   } catch (error: any) {
-    console.error(`❌ Order ${orderId} failed on attempt ${job.attemptsMade + 1}:`, error.message);  // Log error
+    console.error(`❌ Order ${orderId} failed on attempt ${attempt}:`, error.message);  // Log error
     
-    // Check if this was the final attempt (CORE REQUIREMENT: ≤3 attempts)
-    const isFinalAttempt = job.attemptsMade >= (job.opts.attempts || 3);  // Check attempt count
+    // Check if this was the final attempt (CORE REQUIREMENT: ≤3 attempts).
+    // attemptsMade counts earlier attempts only, so the last one runs with attemptsMade = maxAttempts - 1.
+    // UnrecoverableError (e.g. an expired quote) fails the order right away: retrying can't help.
+    const isFinalAttempt = attempt >= maxAttempts || error instanceof UnrecoverableError;  // Check attempt count
     
     if (isFinalAttempt) {
       // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -130,92 +760,122 @@ async function processOrder(job: Job): Promise<void> {
       console.error(`❌ FINAL FAILURE: Order ${orderId}`);
       console.error(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
       
-      // Persist failure details for post-mortem analysis (CORE REQUIREMENT)
+      // Structured failure details for post-mortem analysis (CORE REQUIREMENT)
       const failureDetails = {
         orderId,
-        error: error.message,
-        attemptsMade: job.attemptsMade,
-        maxAttempts: job.opts.attempts || 3,
-        timestamp: new Date().toISOString(),
-        stack: error.stack,
-        orderDetails: {
-          tokenIn: order.tokenIn,
-          tokenOut: order.tokenOut,
-          amountIn: order.amountIn,
-          orderType: order.orderType
-        }
+        orderType: order.orderType,
+        tokenIn: order.tokenIn,
+        tokenOut: order.tokenOut,
+        amountIn: order.amountIn,
+        errorType: classifyFailure(failureReason, stage),  // Category for aggregated counts
+        errorClass: error?.constructor?.name || 'Error',  // e.g. 'Error', 'TypeError'
+        errorMessage: error.message,
+        stack: error.stack || null,
+        attempt,  // Attempt that failed for good
+        maxAttempts,
+        failedStep: stage,  // Last step this attempt reached
+        dexUsed: Array.from(new Set(routes.flatMap(route => route.legs).map(leg => leg.dex))).join('+') || null,
+        routeQuote: snapshotRoutes(routes)  // Route and quotes the attempt was executing
       };
       
       console.error(`📊 POST-MORTEM DATA:`, JSON.stringify(failureDetails, null, 2));
       console.error(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
       
       // Update database with detailed failure information
-      await updateOrder(orderId, {
+      await orderRepository.update(orderId, {
         status: 'failed',  // Mark as failed
-        error: `${error.message} | Attempts: ${job.attemptsMade}/${job.opts.attempts || 3} | Failed at: ${new Date().toISOString()}`  // Store comprehensive error
-      });
+        error: `${error.message} | Attempts: ${attempt}/${maxAttempts} | Failed at: ${new Date().toISOString()}`,  // Store comprehensive error
+        failureReason,  // Machine-readable reason, if execution failed (e.g. QUOTE_EXPIRED)
+        ...(fills.length > 0 ? feesPaid(fills) : {})  // Fees of legs that filled before the failure
+      }, { expectedStatus: EXECUTING_STATUSES });
+      await balanceLedger.releaseOrder(orderId, 'release');  // Whatever the order still holds (input, or tokens from filled legs) is free again
       
-      // Send failure notification to client with attempt information
-      wsManager.sendUpdate(orderId, 'failed', {
+      // Persist the post-mortem record (queryable via GET /api/failures)
+      await saveOrderFailure(failureDetails);
+      
+      // Record and send failure notification to client with attempt information
+      await publishOrderEvent(orderId, 'failed', {
         error: error.message,  // Send error to user
-        attempts: job.attemptsMade,  // Show how many times we tried
-        maxAttempts: job.opts.attempts || 3,  // Show max attempts configured
+        failureReason,  // Machine-readable reason (e.g. SLIPPAGE_EXCEEDED)
+        attempts: attempt,  // Show how many times we tried
+        maxAttempts,  // Show max attempts configured
         timestamp: new Date().toISOString()  // When final failure occurred
-      });
+      }, 'status', attempt);
       
       // In production: Send to monitoring service for analysis
       // await monitoringService.trackFailure(failureDetails);
       // await alertService.notifyDevOps(failureDetails);
       
-      console.log(`📧 Failure persisted for post-mortem analysis and monitoring`);
+      console.log(`📧 Failure persisted to order_failures for post-mortem analysis`);
       
       // Close WebSocket after failure notification
       setTimeout(() => {
-        wsManager.closeConnection(orderId);  // Clean up connection
+        statusBus.closeConnection(orderId);  // Clean up connection
       }, 1000);  // 1 second delay
       
     } else {
       // Not final attempt - will retry with exponential backoff
       const nextDelay = Math.pow(2, job.attemptsMade) * 1000;  // Calculate next delay
-      console.log(`🔄 Order ${orderId} will retry in ${nextDelay / 1000}s (attempt ${job.attemptsMade + 1}/${job.opts.attempts})`);  // Log retry
+      console.log(`🔄 Order ${orderId} will retry in ${nextDelay / 1000}s (attempt ${attempt + 1}/${maxAttempts})`);  // Log retry
       console.log(`   Using exponential backoff: 1s → 2s → 4s → 8s`);
+      
+      // Keep the retry in the order's history
+      await publishOrderEvent(orderId, stage, {
+        error: error.message,  // Why this attempt failed
+        failureReason,  // Machine-readable reason, if execution failed
+        attempt,  // Attempt that failed
+        maxAttempts,  // Attempts allowed
+        retryInMs: nextDelay  // Backoff before the next attempt
+      }, 'retry', attempt);
     }
     
     throw error;  // Rethrow to trigger BullMQ retry logic
   }
 }
 
-// Create worker to process jobs from the queue
-export const orderWorker = new Worker('order-processing', processOrder, {
-  connection,  // Use Redis connection
-  concurrency: 10,  // Process up to 10 orders concurrently (CORE REQUIREMENT)
-  limiter: {
-    max: 100,  // Maximum 100 jobs (CORE REQUIREMENT: 100 orders/minute)
-    duration: 60000,  // Duration in milliseconds (60 seconds)
-  },
-});
+// Start consuming the execution queue (in the API process or a dedicated worker process)
+export function startOrderWorker(): Worker {
+  const orderWorker = new Worker('order-processing', processOrder, {
+    connection,  // Use Redis connection
+    concurrency: 10,  // Process up to 10 orders concurrently (CORE REQUIREMENT)
+    limiter: {
+      max: 100,  // Maximum 100 jobs (CORE REQUIREMENT: 100 orders/minute)
+      duration: 60000,  // Duration in milliseconds (60 seconds)
+    },
+  });
 
-// Worker event handlers for monitoring
-orderWorker.on('completed', (job) => {
-  console.log(`✅ Job ${job.id} completed successfully`);  // Log successful completion
-});
+  // Worker event handlers for monitoring
+  orderWorker.on('completed', (job) => {
+    console.log(`✅ Job ${job.id} completed successfully`);  // Log successful completion
+  });
 
-orderWorker.on('failed', (job, error) => {
-  console.error(`❌ Job ${job?.id} failed permanently:`, error.message);  // Log permanent job failure
-});
+  orderWorker.on('failed', async (job, error) => {
+    if (!job || job.attemptsMade < (job.opts.attempts || 3) || error instanceof UnrecoverableError) {
+      return;  // Will be retried, or failed for good without needing a requeue (a new quote, not the old one)
+    }
+    console.error(`❌ Job ${job.id} failed permanently:`, error.message);  // Log permanent job failure
+    
+    try {
+      await moveToDeadLetter(job, error);
+    } catch (moveError: any) {
+      console.error(`❌ Failed to dead-letter job ${job.id}:`, moveError.message);  // Job stays in the failed set
+    }
+  });
 
-orderWorker.on('error', (error) => {
-  console.error('❌ Worker error:', error);  // Log worker-level errors
-});
+  orderWorker.on('error', (error) => {
+    console.error('❌ Worker error:', error);  // Log worker-level errors
+  });
 
-// Graceful shutdown handler
-process.on('SIGTERM', async () => {
-  console.log('🛑 SIGTERM received, closing worker...');  // Log shutdown signal
-  await orderWorker.close();  // Close worker gracefully
-  await orderQueue.close();  // Close queue
-  process.exit(0);  // Exit process
-});
+  // Graceful shutdown handler
+  process.on('SIGTERM', async () => {
+    console.log('🛑 SIGTERM received, closing worker...');  // Log shutdown signal
+    await orderWorker.close();  // Close worker gracefully
+    await orderQueue.close();  // Close queue
+    process.exit(0);  // Exit process
+  });
 
-console.log('👷 Order worker started, processing up to 10 concurrent orders');  // Log worker startup
-console.log('🔄 Retry policy: 3 attempts with exponential backoff (1s → 2s → 4s)');  // Log retry config
-console.log('📊 Post-mortem analysis enabled for all final failures');  // Log post-mortem feature
\ No newline at end of file
+  console.log('👷 Order worker started, processing up to 10 concurrent orders');  // Log worker startup
+  console.log('🔄 Retry policy: 3 attempts with exponential backoff (1s → 2s → 4s)');  // Log retry config
+  console.log('📊 Post-mortem analysis enabled for all final failures');  // Log post-mortem feature
+  return orderWorker;
+}
@@ -0,0 +1,332 @@
+import { Worker, Queue, Job } from 'bullmq';  // BullMQ for handing orders to the watcher process
+import Redis from 'ioredis';  // Redis client for queue storage and watcher claims
+import { v4 as uuidv4 } from 'uuid';  // Identify this process's watcher
+import { Order, PoolInfo } from '../types';  // Import type definitions
+import { dexRouter } from '../services/dex-router';  // Shared DEX router (pool registry + listing events)
+import { tokenRegistry } from '../services/token-registry';  // Token decimals for quote prices
+import { statusBus } from '../utils/status-bus';  // Relays updates to the API instances holding the sockets
+import { publishOrderEvent } from '../utils/order-events';  // Recorded + streamed status updates
+import { orderRepository } from '../db/order-repository';  // Typed orders table access
+import { balanceLedger } from '../db/balance-ledger';  // Simulated wallet balances
+import { enqueueOrder } from './order-processor';  // Execution queue that fired orders are handed to
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// How often watched orders are re-evaluated (covers pools whose price was above maxPrice)
+const CHECK_INTERVAL_MS = parseInt(process.env.SNIPER_CHECK_INTERVAL_MS || '2000');
+
+// Whether to simulate a pool launch for pairs that aren't listed yet (mock environment only)
+const SIMULATE_LISTINGS = process.env.SNIPER_SIMULATE_LISTINGS !== 'false';
+
+// How long a watcher's claim on an order lasts unless renewed (every sweep renews it). Waiting orders
+// whose claim lapsed, e.g. because their process stopped, are picked up by another watcher.
+const WATCH_LEASE_MS = parseInt(process.env.SNIPER_WATCH_LEASE_MS || '10000');
+
+// This process's watcher, as stored in the claims it holds
+const WATCHER_ID = uuidv4();
+
+// Renew (ARGV[2] > 0, lease in ms) or release (ARGV[2] = 0) a claim only while this watcher holds it.
+// KEYS[1]: claim; ARGV[1]: watcher ID. Returns 1 if the watcher still held the claim.
+const CLAIM_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+if ARGV[2] == '0' then
+  redis.call('DEL', KEYS[1])
+else
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+// Create Redis connection for BullMQ
+const connection = new Redis({
+  host: process.env.REDIS_HOST || 'localhost',  // Redis server address
+  port: parseInt(process.env.REDIS_PORT || '6379'),  // Redis port
+  maxRetriesPerRequest: null,  // BullMQ requirement: no retry limit on requests
+});
+
+// New sniper orders on their way from the API to whichever process runs the watcher
+export const sniperWatchQueue = new Queue('sniper-watch', {
+  connection,  // Use Redis connection
+  defaultJobOptions: {
+    removeOnComplete: true,  // The order lives in the watcher from here on
+    removeOnFail: {
+      age: 7200,  // Keep failed hand-offs for 2 hours for debugging
+    },
+  },
+});
+
+sniperWatchQueue.on('error', (error) => {
+  console.error('❌ Sniper watch queue error:', error);  // Log queue-level errors
+});
+
+// Close the hand-off queue and its Redis connection (shutdown)
+export async function closeSniperWatchQueue(): Promise<void> {
+  await sniperWatchQueue.close();
+  await connection.quit();
+}
+
+// Redis key holding the watcher an order is watched by
+function claimKey(orderId: string): string {
+  return `sniper:watcher:${orderId}`;
+}
+
+// Become the only watcher of an order (true if this watcher already was)
+async function claimOrder(orderId: string): Promise<boolean> {
+  const claimed = await connection.set(claimKey(orderId), WATCHER_ID, 'PX', WATCH_LEASE_MS, 'NX');
+  return claimed === 'OK' || (await renewClaim(orderId));
+}
+
+// Extend this watcher's claim on an order; false if it no longer holds it
+async function renewClaim(orderId: string): Promise<boolean> {
+  return (await connection.eval(CLAIM_SCRIPT, 1, claimKey(orderId), WATCHER_ID, WATCH_LEASE_MS)) === 1;
+}
+
+// Let another watcher take an order this one stopped watching
+async function releaseClaim(orderId: string): Promise<void> {
+  await connection.eval(CLAIM_SCRIPT, 1, claimKey(orderId), WATCHER_ID, 0);
+}
+
+// Sniper orders this process is watching for a pool (each is claimed by exactly one watcher)
+interface WatchedOrder {
+  order: Order;  // Order being watched
+  expiryTimer: NodeJS.Timeout;  // Fires when maxWaitMs is reached
+  evaluating: boolean;  // Guards against overlapping evaluations
+}
+
+const watching: Map<string, WatchedOrder> = new Map();  // Key: orderId
+
+// Check whether a pool has appeared for the order and fire it if price and liquidity allow
+async function evaluateSniperOrder(orderId: string, detectedPool?: PoolInfo): Promise<void> {
+  const watched = watching.get(orderId);
+  if (!watched || watched.evaluating) {
+    return;  // Already fired, expired, or being evaluated
+  }
+
+  const { order } = watched;
+  const { tokenIn, tokenOut, amountIn } = order;
+  const maxPrice = order.maxPrice as number;  // Validated when the order was accepted
+  const minLiquidity = order.minLiquidity || 0;
+
+  const dexes = dexRouter.getListedDexes(tokenIn, tokenOut, minLiquidity);
+  if (dexes.length === 0) {
+    if (detectedPool) {
+      // A pool appeared but it's too shallow to snipe into
+      console.log(`🎯 [${orderId}] Pool on ${detectedPool.dex} below min liquidity ($${detectedPool.liquidity.toFixed(0)} < $${minLiquidity})`);
+      statusBus.sendUpdate(orderId, 'waiting', { pool: detectedPool, maxPrice });
+    }
+    return;
+  }
+
+  watched.evaluating = true;
+  try {
+    // Quote only the venues that have a qualifying pool
+    const routeResult = await dexRouter.getBestRoute(tokenIn, tokenOut, BigInt(amountIn), dexes);
+    const currentPrice = tokenRegistry.toUiAmount(tokenIn, amountIn) / tokenRegistry.toUiAmount(tokenOut, routeResult.amountOut);  // tokenIn paid per tokenOut
+    const pool = dexRouter.getPools(tokenIn, tokenOut).find(p => p.dex === routeResult.selectedDex);
+
+    if (!watching.has(orderId)) {
+      return;  // Expired while we were quoting
+    }
+
+    if (currentPrice > maxPrice) {
+      console.log(`🎯 [${orderId}] Pool found but price ${currentPrice.toFixed(6)} > max ${maxPrice}, still waiting`);
+      statusBus.sendUpdate(orderId, 'waiting', { pool, currentPrice, maxPrice });
+      return;
+    }
+
+    // Fire - hand the order to the normal execution pipeline
+    clearTimeout(watched.expiryTimer);
+    watching.delete(orderId);
+
+    console.log(`🎯 Sniper order ${orderId} fired on ${routeResult.selectedDex} at ${currentPrice.toFixed(6)}`);
+    const fired = await orderRepository.update(orderId, { status: 'pending' }, { expectedStatus: 'waiting' });
+    await releaseClaim(orderId);  // Any watcher may pick it up if execution re-arms it
+    if (!fired) {
+      console.log(`⏭️  Sniper order ${orderId} left the waiting state, not firing`);
+      return;  // Cancelled meanwhile: never execute it
+    }
+    await publishOrderEvent(orderId, 'pending', { pool, currentPrice, maxPrice });
+
+    await enqueueOrder(order);  // Same job ID scheme as market orders
+
+  } catch (error: any) {
+    console.error(`❌ Sniper evaluation failed for order ${orderId}:`, error.message);  // Retried on next check
+  } finally {
+    watched.evaluating = false;
+  }
+}
+
+// Move an order that never found a pool to its terminal state
+async function expireSniperOrder(orderId: string): Promise<void> {
+  const watched = watching.get(orderId);
+  if (!watched) {
+    return;
+  }
+  watching.delete(orderId);
+
+  const { order } = watched;
+  console.log(`⌛ Sniper order ${orderId} expired waiting for ${order.tokenIn}/${order.tokenOut} pool`);
+
+  try {
+    const expired = await orderRepository.update(orderId, {
+      status: 'expired',  // Terminal state
+      error: `No ${order.tokenIn}/${order.tokenOut} pool with $${order.minLiquidity || 0} liquidity at or below price ${order.maxPrice} within ${order.maxWaitMs}ms`
+    }, { expectedStatus: 'waiting' });
+    await releaseClaim(orderId);
+    if (!expired) {
+      return;  // Cancelled meanwhile
+    }
+    await balanceLedger.releaseOrder(orderId, 'release');  // Reserved funds are free again
+    await publishOrderEvent(orderId, 'expired', {
+      maxPrice: order.maxPrice,  // Price cap that applied
+      expiresAt: order.expiresAt  // When the order expired
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to expire sniper order ${orderId}:`, error.message);
+  }
+
+  setTimeout(() => {
+    statusBus.closeConnection(orderId);  // Clean up WebSocket connection
+  }, 1000);  // 1 second delay
+}
+
+// Start watching a sniper order until a qualifying pool appears or maxWaitMs passes, unless another
+// watcher already does. Resolves once the pool (if already listed) has been evaluated; false if another
+// watcher has the order.
+export async function watchSniperOrder(order: Order): Promise<boolean> {
+  if (watching.has(order.orderId)) {
+    return true;  // Handed off and resumed at the same startup
+  }
+  if (!(await claimOrder(order.orderId))) {
+    return false;  // Watched by another process
+  }
+  if (watching.has(order.orderId)) {
+    return true;  // Claimed twice at the same time by this process
+  }
+  const expiresAt = new Date(order.expiresAt as Date).getTime();  // Set from maxWaitMs on submission
+  const expiryTimer = setTimeout(() => expireSniperOrder(order.orderId), Math.max(0, expiresAt - Date.now()));
+
+  watching.set(order.orderId, { order, expiryTimer, evaluating: false });
+  statusBus.trackOrder(order);  // Pair and account topics (also after a restart)
+  console.log(`🎯 Sniper order ${order.orderId} watching for ${order.tokenIn}/${order.tokenOut} pool`);
+
+  // Simulate a listing so the flow can be exercised locally
+  if (SIMULATE_LISTINGS && dexRouter.getListedDexes(order.tokenIn, order.tokenOut).length === 0) {
+    dexRouter.simulatePoolLaunch(order.tokenIn, order.tokenOut);
+  }
+
+  await evaluateSniperOrder(order.orderId);  // Pool may already exist
+  return true;
+}
+
+// Hand a new sniper order to the watcher, which may run in another process
+export async function enqueueSniperOrder(order: Order): Promise<void> {
+  await sniperWatchQueue.add('watch-sniper', order, {
+    jobId: order.orderId,  // One hand-off per order
+  });
+}
+
+// Stop watching a sniper order (e.g. it was cancelled); false if it wasn't being watched
+export function unwatchSniperOrder(orderId: string): boolean {
+  const watched = watching.get(orderId);
+  if (!watched) {
+    return false;
+  }
+  clearTimeout(watched.expiryTimer);
+  watching.delete(orderId);
+  releaseClaim(orderId).catch((error) => {
+    console.error(`❌ Failed to release sniper order ${orderId}:`, error.message);  // Lapses after WATCH_LEASE_MS anyway
+  });
+  console.log(`🎯 Sniper order ${orderId} no longer watched`);
+  return true;
+}
+
+// Extend the claims on every watched order; orders another watcher took over meanwhile
+// (this process stalled past the lease) are dropped here without touching the order
+async function renewClaims(): Promise<void> {
+  for (const [orderId, watched] of watching) {
+    if (!(await renewClaim(orderId)) && watching.get(orderId) === watched) {
+      clearTimeout(watched.expiryTimer);
+      watching.delete(orderId);
+      console.log(`🎯 Sniper order ${orderId} is watched by another process now, dropping it`);
+    }
+  }
+}
+
+// Watch waiting sniper orders no watcher holds: the ones waiting when the process stopped,
+// and those of other processes that stopped since
+export async function resumeSniperOrders(): Promise<void> {
+  const orders = await orderRepository.findWaiting('sniper');
+  let resumed = 0;
+  for (const order of orders) {
+    if (!watching.has(order.orderId) && (await watchSniperOrder(order))) {
+      resumed++;
+    }
+  }
+
+  if (resumed > 0) {
+    console.log(`🎯 Resumed ${resumed} waiting sniper order(s)`);
+  }
+}
+
+// Start watching for pool listings (in the API process or a dedicated worker process)
+export async function startSniperWatcher(): Promise<Worker> {
+  // Take new sniper orders off the hand-off queue
+  const sniperWatchWorker = new Worker('sniper-watch', async (job: Job) => watchSniperOrder(job.data), {
+    connection,  // Use Redis connection
+  });
+
+  sniperWatchWorker.on('error', (error) => {
+    console.error('❌ Sniper watch worker error:', error);  // Log worker-level errors
+  });
+
+  // React to pool listings as soon as they happen
+  dexRouter.on('poolCreated', (pool: PoolInfo) => {
+    for (const [orderId, { order }] of watching) {
+      if (dexRouter.matchesPair(pool, order.tokenIn, order.tokenOut)) {
+        evaluateSniperOrder(orderId, pool);  // Listing matches this order's pair
+      }
+    }
+  });
+
+  // Periodic sweep for orders whose pool exists but was priced above maxPrice
+  const sweepTimer = setInterval(() => {
+    renewClaims().catch((error) => {
+      console.error('❌ Failed to renew sniper order claims:', error.message);  // Retried on the next sweep
+    });
+    for (const orderId of watching.keys()) {
+      evaluateSniperOrder(orderId);
+    }
+  }, CHECK_INTERVAL_MS);
+  sweepTimer.unref();  // Don't keep the process alive just for the sweep
+
+  // Take over orders whose watcher stopped
+  const adoptTimer = setInterval(() => {
+    resumeSniperOrders().catch((error) => {
+      console.error('❌ Failed to resume sniper orders:', error.message);  // Retried on the next pass
+    });
+  }, WATCH_LEASE_MS);
+  adoptTimer.unref();
+
+  // Orders cancelled through any API instance stop being watched here
+  await statusBus.subscribe((message) => {
+    if (message.kind === 'update' && message.status === 'cancelled') {
+      unwatchSniperOrder(message.orderId);
+    }
+  });
+
+  await resumeSniperOrders();  // Pick up sniper orders that were waiting before a restart
+
+  // Graceful shutdown handler
+  process.on('SIGTERM', async () => {
+    console.log('🛑 SIGTERM received, closing sniper watcher...');  // Log shutdown signal
+    await sniperWatchWorker.close();  // Close worker gracefully
+    await sniperWatchQueue.close();  // Close queue
+  });
+
+  console.log(`🎯 Sniper watcher started, listening for pool listings`);  // Log watcher startup
+  return sniperWatchWorker;
+}
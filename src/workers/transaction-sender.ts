@@ -0,0 +1,176 @@
+import { CommitmentLevel, ExecutionResult, PriorityFeeSetting, SignatureStatus, SignedTransaction, SwapInstruction, WebSocketMessage } from '../types';  // Import type definitions
+import { chain } from '../services/chain';  // Simulated cluster the swaps are sent to
+import { priorityFees } from '../services/priority-fees';  // Compute unit price each transaction bids
+import { publishOrderEvent } from '../utils/order-events';  // Recorded + streamed status updates
+import dotenv from 'dotenv';  // Load environment variables
+
+dotenv.config();  // Load .env file
+
+// How often the status of a sent transaction is polled
+const SIGNATURE_POLL_INTERVAL_MS = parseInt(process.env.SIGNATURE_POLL_INTERVAL_MS || '400');
+
+// How often a transaction that hasn't landed is sent again (same signature, so it can land at most once)
+const TX_REBROADCAST_INTERVAL_MS = parseInt(process.env.TX_REBROADCAST_INTERVAL_MS || '2000');
+
+// Times a swap is re-signed with a fresh blockhash after its transaction expired without landing
+const TX_MAX_REBUILDS = parseInt(process.env.TX_MAX_REBUILDS || '2');
+
+// Helper function to wait between polls
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Leg a transaction belongs to, for logs and WebSocket updates
+export interface TransactionContext {
+  orderId: string;             // Order paying for the transaction
+  hop: number;                 // Hop of the leg
+  attempt: number;             // Worker attempt (1-based)
+  priorityFee?: PriorityFeeSetting;  // Order's priority fee (default 'normal')
+}
+
+// Shortened signature for logs
+function shortSignature(signature: string): string {
+  return `${signature.slice(0, 12)}...`;
+}
+
+// Record and stream a transaction update. Best effort: a lost update must never make the worker
+// abandon a transaction that may still land (a retry would then trade the same leg again).
+async function notify(orderId: string, status: 'submitted' | 'confirmed', data: WebSocketMessage['data'], attempt: number): Promise<void> {
+  try {
+    await publishOrderEvent(orderId, status, data, 'transaction', attempt);
+  } catch (error: any) {
+    console.error(`❌ Failed to publish transaction update for order ${orderId}:`, error.message);
+  }
+}
+
+// Follow a sent transaction until it is confirmed, rebroadcasting it while it hasn't landed and
+// announcing each commitment level it reaches. Null once it has expired without landing.
+async function confirmTransaction(transaction: SignedTransaction, context: TransactionContext): Promise<SignatureStatus | null> {
+  const { orderId, hop, attempt } = context;
+  const { signature } = transaction;
+  let reached: CommitmentLevel | undefined;  // Last level announced
+  let lastSent = Date.now();
+
+  for (;;) {
+    const status = chain.getSignatureStatus(signature);
+    if (status) {
+      if (status.commitment !== reached) {
+        reached = status.commitment;
+        console.log(`[${orderId}] Transaction ${shortSignature(signature)} ${reached} in slot ${status.slot}`);
+        await notify(orderId, 'submitted', {
+          signature,
+          commitment: reached,  // processed, then confirmed
+          slot: status.slot,  // Slot it landed in
+          hop,
+          dexUsed: transaction.instruction.dex
+        }, attempt);
+      }
+      if (reached !== 'processed') {
+        return status;  // Confirmed: a supermajority voted on its block
+      }
+    } else if (chain.isExpired(transaction)) {
+      return null;  // Its blockhash expired before it landed: it never will
+    } else if (Date.now() - lastSent >= TX_REBROADCAST_INTERVAL_MS) {
+      chain.sendTransaction(transaction);  // Dropped transactions get another chance; duplicates are ignored
+      lastSent = Date.now();
+    }
+    await sleep(SIGNATURE_POLL_INTERVAL_MS);
+  }
+}
+
+// Sign a swap, send it and wait until its transaction is confirmed. A transaction that expired
+// without landing is rebuilt against a fresh blockhash: the expired one can no longer land,
+// so the swap is never executed twice. Every build bids the order's priority fee as estimated
+// at that moment, so a rebuild after congestion rose bids more.
+export async function sendAndConfirmSwap(swap: Omit<SwapInstruction, 'computeUnitPrice'>, context: TransactionContext): Promise<ExecutionResult> {
+  const { orderId, hop, attempt } = context;
+  let previousSignature: string | undefined;  // Expired transaction being replaced
+
+  for (let rebuilds = 0; rebuilds <= TX_MAX_REBUILDS; rebuilds++) {
+    const instruction: SwapInstruction = { ...swap, computeUnitPrice: priorityFees.resolve(context.priorityFee) };
+    const transaction = chain.signTransaction(orderId, instruction, chain.getLatestBlockhash());
+    chain.sendTransaction(transaction);
+    console.log(`[${orderId}] Sent ${instruction.dex} swap as ${shortSignature(transaction.signature)} at ${instruction.computeUnitPrice} microlamports/CU${previousSignature ? ` (rebuild ${rebuilds})` : ''}`);
+    await notify(orderId, 'submitted', {
+      signature: transaction.signature,
+      hop,
+      dexUsed: instruction.dex,
+      computeUnitPrice: instruction.computeUnitPrice,  // Priority fee bid
+      rebuilds: rebuilds > 0 ? rebuilds : undefined,  // Rebuilds so far
+      previousSignature  // Expired transaction this one replaces
+    }, attempt);
+
+    const status = await confirmTransaction(transaction, context);
+    if (status) {
+      return status.result;  // Landed, with the swap's outcome (which may be an on-chain failure)
+    }
+
+    console.log(`⌛ [${orderId}] Transaction ${shortSignature(transaction.signature)} expired without landing`);
+    previousSignature = transaction.signature;
+  }
+
+  return {
+    success: false,
+    error: `Transaction expired without landing (${TX_MAX_REBUILDS} rebuilds)`,
+    errorCode: 'TRANSACTION_EXPIRED'
+  };
+}
+
+// Confirmed order whose transactions are followed until they are finalized
+interface PendingFinalization {
+  signatures: string[];        // Every leg's transaction
+  attempt: number;             // Worker attempt that confirmed the order
+  onFinalized: () => void;     // Runs once finalization has been announced
+}
+
+const pendingFinalizations: Map<string, PendingFinalization> = new Map();
+let finalizationTimer: NodeJS.Timeout | undefined;  // Polls while any order is pending
+let checkingFinalizations = false;  // A poll is still announcing
+
+// Follow a confirmed order's transactions in the background and announce once every one is finalized.
+// The worker slot is free as soon as the order is confirmed; one timer polls every pending order.
+// Signatures the chain no longer knows (landed long ago, or before a restart) are not waited for.
+export function trackFinalization(orderId: string, signatures: string[], attempt: number, onFinalized: () => void = () => undefined): void {
+  pendingFinalizations.set(orderId, { signatures, attempt, onFinalized });
+  if (!finalizationTimer) {
+    finalizationTimer = setInterval(() => void checkFinalizations(), SIGNATURE_POLL_INTERVAL_MS);
+    finalizationTimer.unref();  // Don't keep the process alive just for announcements
+  }
+}
+
+// Announce every pending order whose transactions are all finalized
+async function checkFinalizations(): Promise<void> {
+  if (checkingFinalizations) {
+    return;  // The previous poll is still publishing
+  }
+  checkingFinalizations = true;
+
+  try {
+    for (const [orderId, pending] of pendingFinalizations) {
+      const statuses = pending.signatures.map(signature => chain.getSignatureStatus(signature));
+      if (statuses.some(status => status && status.commitment !== 'finalized')) {
+        continue;
+      }
+
+      const slots = statuses.filter((status): status is SignatureStatus => status !== null).map(status => status.slot);
+      const slot = slots.length > 0 ? Math.max(...slots) : undefined;  // Latest slot among the transactions
+      console.log(`🔒 Order ${orderId} finalized (slot ${slot})`);
+      await notify(orderId, 'confirmed', {
+        signatures: pending.signatures,  // Every leg's transaction
+        commitment: 'finalized',  // Rooted: can no longer be rolled back
+        slot  // Latest slot among them
+      }, pending.attempt);
+      pendingFinalizations.delete(orderId);  // Only once announced, so a failed announcement is tried again
+      pending.onFinalized();
+    }
+  } finally {
+    checkingFinalizations = false;
+    if (pendingFinalizations.size === 0 && finalizationTimer) {
+      clearInterval(finalizationTimer);
+      finalizationTimer = undefined;
+    }
+  }
+}
+
+// Orders whose finalization hasn't been announced yet
+export function isFinalizing(orderId: string): boolean {
+  return pendingFinalizations.has(orderId);
+}
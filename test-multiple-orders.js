@@ -5,6 +5,9 @@ const fetch = require('node-fetch');
 const BASE_URL = 'https://order-execution-engine-mcet.onrender.com';
 const WS_URL = 'wss://order-execution-engine-mcet.onrender.com';
 
+// API key the orders are placed with (API_KEY=oee_... node test-multiple-orders.js)
+const AUTH_HEADERS = { Authorization: `Bearer ${process.env.API_KEY}` };
+
 // Function to submit a single order
 function submitOrder(orderNum) {
   return new Promise((resolve, reject) => {
@@ -17,6 +20,7 @@ function submitOrder(orderNum) {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...AUTH_HEADERS,
           },
           body: JSON.stringify({
             orderType: 'market',
@@ -38,7 +42,7 @@ function submitOrder(orderNum) {
         console.log(`[Order ${orderNum}] ✅ Created - ID: ${orderId.substring(0, 8)}...`);
         
         // Step 2: Connect to WebSocket
-        const ws = new WebSocket(`${WS_URL}/api/orders/${orderId}/stream`);
+        const ws = new WebSocket(`${WS_URL}/api/orders/${orderId}/stream`, { headers: AUTH_HEADERS });
         const updates = [];
         
         ws.on('open', () => {
@@ -61,7 +65,7 @@ function submitOrder(orderNum) {
               console.log(`[Order ${orderNum}] ✅ COMPLETED`);
               console.log(`[Order ${orderNum}]    └─ TxHash: ${message.data.txHash}`);
               console.log(`[Order ${orderNum}]    └─ Price: ${message.data.executedPrice?.toFixed(4)} USDC`);
-              console.log(`[Order ${orderNum}]    └─ Amount: ${message.data.amountOut?.toFixed(4)} USDC`);
+              console.log(`[Order ${orderNum}]    └─ Amount: ${(Number(message.data.amountOut) / 1e6).toFixed(4)} USDC`); // amountOut is in base units (USDC has 6 decimals)
             }
           }
           
@@ -5,6 +5,9 @@ const fetch = require('node-fetch');
 const BASE_URL = 'https://order-execution-engine-mcet.onrender.com';
 const WS_URL = 'wss://order-execution-engine-mcet.onrender.com';
 
+// API key the orders are placed with (API_KEY=oee_... node test-order.js)
+const AUTH_HEADERS = { Authorization: `Bearer ${process.env.API_KEY}` };
+
 async function testOrder() {
   console.log('🚀 Testing HTTP → WebSocket Pattern (Production)\n');
   console.log(`📡 API: ${BASE_URL}\n`);
@@ -24,6 +27,7 @@ async function testOrder() {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...AUTH_HEADERS,
     },
     body: JSON.stringify(order)
   });
@@ -44,7 +48,7 @@ async function testOrder() {
   // Step 2: Connect to WebSocket to stream status
   console.log('📤 Step 2: Connecting to WebSocket for status updates...\n');
   
-  const ws = new WebSocket(`${WS_URL}/api/orders/${orderId}/stream`);
+  const ws = new WebSocket(`${WS_URL}/api/orders/${orderId}/stream`, { headers: AUTH_HEADERS });
   
   let hasReceivedMessages = false;
   
@@ -1,10 +1,42 @@
-import { MockDexRouter } from '../src/services/dex-router';
-import { WebSocketManager } from '../src/utils/websocket-manager';
-import { initDatabase, pool, saveOrder, updateOrder, getOrder } from '../src/db/database';
+import { MockDexRouter, calculateMinAmountOut, dexRouter } from '../src/services/dex-router';
+import { MockDexAdapter } from '../src/services/dex-adapters';
+import { tokenRegistry, TokenRegistry, isValidMint, parseUnits, formatUnits } from '../src/services/token-registry';
+import { DexRegistry } from '../src/services/dex-registry';
+import { Simulation, loadScenario } from '../src/services/simulation';
+import { SimulatedChain } from '../src/services/chain';
+import { PriorityFeeEstimator, isPriorityFeeSetting } from '../src/services/priority-fees';
+import { WebSocketManager, parseTopic } from '../src/utils/websocket-manager';
+import { initDatabase, pool, createAccount, recordOrderEvent, getOrderEvents, saveOrderFailure } from '../src/db/database';
+import { orderRepository, toOrder } from '../src/db/order-repository';
+import {
+  orderQueue, deadLetterQueue, enqueueOrder, processOrder, requestCancellation, moveToDeadLetter, getDeadLetter,
+  minTotalAmountOut, shortfallBps, fillSlippageBps, closeOrderQueues
+} from '../src/workers/order-processor';
+import { limitOrderQueue, checkLimitOrder, calculatePriceDistance, closeLimitOrderQueue } from '../src/workers/limit-order-watcher';
+import { sniperWatchQueue, watchSniperOrder, unwatchSniperOrder, closeSniperWatchQueue } from '../src/workers/sniper-watcher';
+import { isFinalizing } from '../src/workers/transaction-sender';
+import { statusBus } from '../src/utils/status-bus';
+import { PoolListingLog } from '../src/utils/pool-listings';
+import { orderRoutes } from '../src/routes/orders';
+import { failureRoutes } from '../src/routes/failures';
+import { adminRoutes } from '../src/routes/admin';
+import { Order, OrderCursor, OrderFill, PoolInfo, Quote } from '../src/types';
+import { Job, Queue } from 'bullmq';
+import Fastify, { FastifyInstance } from 'fastify';
+import fastifyWebSocket from '@fastify/websocket';
+import { hashRequestBody } from '../src/utils/idempotency';
+import { generateApiKey, hashApiKey, canAccessOrder, authenticate, issueApiKey } from '../src/utils/auth';
+import { resolveAccountLimits, orderNotionalUsd, closeRateLimits } from '../src/utils/rate-limits';
+import { migrations } from '../src/db/migrations';
+import { migrate, rollback, migrationStatus } from '../src/db/migrator';
+import { isQuoteExpired, createQuote, closeQuotes } from '../src/utils/quotes';
+import { balanceLedger } from '../src/db/balance-ledger';
 import { v4 as uuidv4 } from 'uuid';
+import Redis from 'ioredis';
+import { Pool } from 'pg';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// Test Suite 1: DEX Router Logic (5 tests)
+// Test Suite 1: DEX Router Logic (17 tests)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 describe('DEX Router', () => {
   let dexRouter: MockDexRouter;
@@ -15,12 +47,13 @@ describe('DEX Router', () => {
   
   // Test 1: Raydium returns valid quote
   test('should get valid Raydium quote with correct fee structure', async () => {
-    const quote = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1);
+    const quote = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1_000_000_000n);  // 1 SOL in lamports
     
     expect(quote.dex).toBe('raydium');
     expect(quote.price).toBeGreaterThan(0);
     expect(quote.price).toBeLessThan(200); // Reasonable price range
-    expect(quote.amountOut).toBeGreaterThan(0);
+    expect(quote.amountOut).toMatch(/^\d+$/);  // Integer base units of USDC
+    expect(BigInt(quote.amountOut)).toBeGreaterThan(0n);
     expect(quote.fee).toBe(0.003); // Raydium has 0.3% fee
     expect(quote.estimatedGas).toBeDefined();
     expect(quote.estimatedGas).toBeGreaterThan(0);
@@ -28,12 +61,12 @@ describe('DEX Router', () => {
   
   // Test 2: Meteora returns valid quote
   test('should get valid Meteora quote with correct fee structure', async () => {
-    const quote = await dexRouter.getMeteorQuote('SOL', 'USDC', 1);
+    const quote = await dexRouter.getQuote('meteora', 'SOL', 'USDC', 1_000_000_000n);
     
     expect(quote.dex).toBe('meteora');
     expect(quote.price).toBeGreaterThan(0);
     expect(quote.price).toBeLessThan(200); // Reasonable price range
-    expect(quote.amountOut).toBeGreaterThan(0);
+    expect(BigInt(quote.amountOut)).toBeGreaterThan(0n);
     expect(quote.fee).toBe(0.002); // Meteora has 0.2% fee
     expect(quote.estimatedGas).toBeDefined();
     expect(quote.estimatedGas).toBeGreaterThan(0);
@@ -41,20 +74,25 @@ describe('DEX Router', () => {
   
   // Test 3: Router selects DEX with higher output
   test('should select DEX with higher output amount', async () => {
-    const route = await dexRouter.getBestRoute('SOL', 'USDC', 1);
+    const route = await dexRouter.getBestRoute('SOL', 'USDC', 1_000_000_000n);
     
     expect(route.selectedDex).toMatch(/raydium|meteora/);
-    expect(route.quote.amountOut).toBeGreaterThan(0);
+    expect(BigInt(route.quote.amountOut)).toBeGreaterThan(0n);
     expect(route.reason).toContain('selected');
     expect(route.reason.toLowerCase()).toContain(route.selectedDex.toLowerCase());
     
     // Verify the selected DEX is actually the better option
     expect(route.quote.dex).toBe(route.selectedDex);
+    
+    // Both competing quotes are kept for the order's event history
+    const firstHop = route.quotes.filter(quote => quote.hop === 0);
+    expect(firstHop.map(quote => quote.dex).sort()).toEqual(['meteora', 'raydium']);
+    expect(firstHop.map(quote => quote.amountOut)).toContain(route.quote.amountOut);  // Winner is one of them
   });
   
   // Test 4: Wrapped SOL handling works correctly
   test('should handle wrapped SOL conversion for native SOL', async () => {
-    const route = await dexRouter.getBestRoute('SOL', 'USDC', 1);
+    const route = await dexRouter.getBestRoute('SOL', 'USDC', 1_000_000_000n);
     
     // Should execute without errors (wrapped SOL conversion happens internally)
     expect(route).toBeDefined();
@@ -62,15 +100,309 @@ describe('DEX Router', () => {
     expect(route.quote).toBeDefined();
   });
   
-  // Test 5: Swap execution returns result
+  // Test 5: Pool listings are announced and restrict routing
+  test('should announce new pools and only route to listed DEXs', async () => {
+    const listings: any[] = [];
+    dexRouter.on('poolCreated', pool => listings.push(pool));
+    if (!tokenRegistry.find('NEWTOKEN')) {
+      tokenRegistry.register({ symbol: 'NEWTOKEN', mint: 'NewTok1111111111111111111111111111111111111', decimals: 6, enabled: true });
+    }
+    
+    expect(dexRouter.getListedDexes('SOL', 'NEWTOKEN')).toEqual([]);
+    
+    dexRouter.createPool('meteora', 'SOL', 'NEWTOKEN', 50000);
+    
+    expect(listings).toHaveLength(1);
+    expect(listings[0].dex).toBe('meteora');
+    expect(dexRouter.matchesPair(listings[0], 'NEWTOKEN', 'SOL')).toBe(true);
+    expect(dexRouter.getListedDexes('SOL', 'NEWTOKEN', 100000)).toEqual([]);
+    
+    const route = await dexRouter.getBestRoute('SOL', 'NEWTOKEN', 1_000_000_000n, dexRouter.getListedDexes('SOL', 'NEWTOKEN'));
+    expect(route.selectedDex).toBe('meteora');
+  });
+  
+  // Test 6: Additional venues can be registered without touching the router
+  test('should route to a newly registered DEX adapter', async () => {
+    const router = new MockDexRouter();
+    router.registerAdapter(new MockDexAdapter({
+      id: 'orca',
+      name: 'Orca',
+      fee: 0,
+      priceVariance: [1.5, 1.5],  // Always far better than the default venues
+      estimatedGas: 0.00003,
+      pools: [{ tokenA: 'SOL', tokenB: 'USDC', liquidity: 1_000_000 }]
+    }));
+    
+    expect(router.getListedDexes('SOL', 'USDC')).toContain('orca');
+    expect(router.getListedDexes('SOL', 'USDT')).not.toContain('orca');
+    
+    const route = await router.getBestRoute('SOL', 'USDC', 1_000_000_000n);
+    expect(route.selectedDex).toBe('orca');
+    expect(route.reason).toContain('ORCA selected');
+  });
+  
+  // Test 7: Large orders are split across venues to reduce price impact
+  test('should split large orders across DEXs and keep small ones on one venue', async () => {
+    const venue = (id: string) => new MockDexAdapter({
+      id,
+      name: id,
+      fee: 0.003,
+      priceVariance: [1, 1],  // No noise so only price impact matters
+      estimatedGas: 0.00005,
+      pools: [{ tokenA: 'SOL', tokenB: 'USDC', liquidity: 1_000_000 }]
+    });
+    const router = new MockDexRouter(new DexRegistry([venue('venue-a'), venue('venue-b')]));
+    
+    const small = await router.getBestRoute('SOL', 'USDC', 1_000_000_000n);
+    expect(small.legs).toHaveLength(1);
+    
+    const large = await router.getBestRoute('SOL', 'USDC', 10_000_333_333_333n);  // Doesn't divide evenly into increments
+    expect(large.legs).toHaveLength(2);
+    expect(large.reason).toContain('SPLIT selected');
+    expect(large.legs.reduce((sum, leg) => sum + BigInt(leg.amountIn), 0n)).toBe(10_000_333_333_333n);  // Exact, no rounding loss
+    expect(large.legs.reduce((sum, leg) => sum + leg.share, 0)).toBeCloseTo(1, 8);
+    expect(BigInt(large.amountOut)).toBeGreaterThan(BigInt(large.legs[0].quote.amountOut));
+  });
+  
+  // Test 8: Unlisted pairs have no route
+  test('should reject routing for pairs no DEX lists', async () => {
+    await expect(dexRouter.getBestRoute('SOL', 'UNLISTED', 1_000_000_000n)).rejects.toThrow('No DEX available');
+  });
+  
+  // Test 9: Thin direct pools are bypassed through an intermediate token
+  test('should route through an intermediate token when the direct pool is thin', async () => {
+    const router = new MockDexRouter(new DexRegistry([new MockDexAdapter({
+      id: 'venue',
+      name: 'venue',
+      fee: 0.003,
+      priceVariance: [1, 1],  // No noise so only price impact matters
+      estimatedGas: 0.00005,
+      pools: [
+        { tokenA: 'BONK', tokenB: 'SOL', liquidity: 10_000_000 },
+        { tokenA: 'SOL', tokenB: 'USDC', liquidity: 10_000_000 },
+        { tokenA: 'BONK', tokenB: 'USDC', liquidity: 10_000 }  // Thin direct pool
+      ]
+    })]));
+    
+    expect(router.findPaths('BONK', 'USDC')[0]).toEqual(['BONK', 'USDC']);  // Direct pair listed first
+    
+    const route = await router.getBestRoute('BONK', 'USDC', 10_000_000_000_000n);  // 100M BONK, ~$2,000
+    expect(route.path).toEqual(['BONK', 'SOL', 'USDC']);
+    expect(route.reason).toContain('BONK -> SOL -> USDC');
+    expect(route.legs.map(leg => leg.hop)).toEqual([0, 1]);
+    expect(route.legs[1].amountIn).toBe(route.legs[0].quote.amountOut);  // Second hop swaps the first hop's output
+  });
+  
+  // Test 10: Seeded simulations replay the same routing outcome
+  test('should produce identical routes for the same seed', async () => {
+    const seeded = () => new MockDexRouter(undefined, new Simulation({ seed: 1234, quoteLatencyMs: [0, 0] }));
+    const [first, second] = [seeded(), seeded()];
+    
+    for (let i = 0; i < 3; i++) {
+      const a = await first.getBestRoute('SOL', 'USDC', 10_000_000_000n);
+      const b = await second.getBestRoute('SOL', 'USDC', 10_000_000_000n);
+      expect(b.selectedDex).toBe(a.selectedDex);
+      expect(b.amountOut).toBe(a.amountOut);
+      expect(b.reason).toBe(a.reason);
+    }
+  });
+  
+  // Test 11: Scenario files script quotes and forced failures per venue
+  test('should replay scripted quotes and failures from a scenario file', async () => {
+    const scenario = loadScenario('scenarios/raydium-outage.json');
+    scenario.venues = { ...scenario.venues, meteora: { quotes: [1.05] } };  // Meteora clearly best on the first pass
+    const router = new MockDexRouter(undefined, new Simulation({ quoteLatencyMs: [0, 0], executionLatencyMs: [0, 0] }, scenario));
+    
+    const route = await router.getBestRoute('SOL', 'USDC', 1_000_000_000n);
+    expect(route.selectedDex).toBe('meteora');
+    
+    const outcomes = [];
+    for (let i = 0; i < 4; i++) {
+      outcomes.push((await router.executeSwap('raydium', 'SOL', 'USDC', 1_000_000_000n, 0n)).success);
+    }
+    expect(outcomes).toEqual([false, false, false, true]);  // Executions 1-3 scripted to fail, failureRate 0
+  });
+  
+  // Test 12: Quotes follow pool reserves and executed swaps move them
+  test('should price impact from reserves and update reserves after swaps', async () => {
+    const simulation = new Simulation({ seed: 1, quoteLatencyMs: [0, 0], executionLatencyMs: [0, 0], failureRate: 0 });
+    const venue = (id: string, poolModel: 'constant-product' | 'bins') => new MockDexAdapter({
+      id,
+      name: id,
+      fee: 0.003,
+      priceVariance: [1, 1],  // No noise so only the reserves matter
+      estimatedGas: 0.00005,
+      poolModel,
+      pools: [{ tokenA: 'SOL', tokenB: 'USDC', liquidity: 1_000_000 }]
+    }, simulation);
+    const amm = venue('amm', 'constant-product');
+    const dlmm = venue('dlmm', 'bins');
+    
+    const small = await amm.getQuote('SOL', 'USDC', 1_000_000_000n);  // 1 SOL
+    const large = await amm.getQuote('SOL', 'USDC', 1_000_000_000_000n);  // 1,000 SOL
+    expect(small.priceImpact).toBeLessThan(0.001);
+    expect(large.priceImpact).toBeGreaterThan(0.1);
+    expect(BigInt(large.amountOut) / 1000n).toBeLessThan(BigInt(small.amountOut));
+    
+    // Concentrated bins absorb the same order with far less impact
+    expect((await dlmm.getQuote('SOL', 'USDC', 1_000_000_000_000n)).priceImpact).toBeLessThan(large.priceImpact);
+    
+    const [before] = amm.getSupportedPairs();
+    await amm.executeSwap('SOL', 'USDC', 1_000_000_000_000n, 0n);
+    const [after] = amm.getSupportedPairs();
+    expect(after.reserveA).toBeGreaterThan(before.reserveA);
+    expect(after.reserveB).toBeLessThan(before.reserveB);
+    expect(BigInt((await amm.getQuote('SOL', 'USDC', 1_000_000_000n)).amountOut)).toBeLessThan(BigInt(small.amountOut));  // SOL is cheaper after the sell
+  });
+  
+  // Test 13: Swaps revert with SLIPPAGE_EXCEEDED when the market moves past minAmountOut
+  test('should fail swaps that would fill below minAmountOut', async () => {
+    const simulation = new Simulation(
+      { seed: 1, quoteLatencyMs: [0, 0], executionLatencyMs: [0, 0], failureRate: 0, executionDrift: 0 },
+      { name: 'adverse-move', venues: { raydium: { moves: [0.95] } } }  // First fill lands 5% worse
+    );
+    const router = new MockDexRouter(undefined, simulation);
+    const quote = await router.getQuote('raydium', 'SOL', 'USDC', 10_000_000_000n);
+    const minAmountOut = calculateMinAmountOut(BigInt(quote.amountOut), 0.01);
+    expect(minAmountOut).toBe(BigInt(quote.amountOut) * 99n / 100n);  // Rounded down to whole base units
+    const [poolBefore] = router.getPools('SOL', 'USDC').filter(pool => pool.dex === 'raydium');
+    
+    const breached = await router.executeSwap('raydium', 'SOL', 'USDC', 10_000_000_000n, minAmountOut);
+    expect(breached.success).toBe(false);
+    expect(breached.errorCode).toBe('SLIPPAGE_EXCEEDED');
+    expect(BigInt(breached.amountOut as string)).toBeLessThan(minAmountOut);
+    expect(router.getPools('SOL', 'USDC').find(pool => pool.dex === 'raydium')?.reserveA).toBe(poolBefore.reserveA);  // Reverted
+    
+    const filled = await router.executeSwap('raydium', 'SOL', 'USDC', 10_000_000_000n, minAmountOut);  // Market back in range
+    expect(filled.success).toBe(true);
+    expect(BigInt(filled.amountOut as string)).toBeGreaterThanOrEqual(minAmountOut);
+  });
+  
+  // Test 14: Firm quotes are re-priced on their own venues before they execute
+  test('should re-price a quoted route and expire quotes at expiresAt', async () => {
+    const simulation = new Simulation({ seed: 7, quoteLatencyMs: [0, 0], executionLatencyMs: [0, 0], failureRate: 0, executionDrift: 0 });
+    const router = new MockDexRouter(undefined, simulation);
+    const route = await router.getBestRoute('SOL', 'USDC', 10_000_000_000n);
+    
+    const unchanged = await router.repriceRoute(route);
+    expect(Number(unchanged) / Number(route.amountOut)).toBeCloseTo(1, 1);  // Only quote noise moved
+    
+    await router.executeSwap(route.selectedDex, 'SOL', 'USDC', 50_000_000_000_000n, 0n);  // Someone sells 50,000 SOL into the pool
+    const drifted = await router.repriceRoute(route);
+    expect(drifted).toBeLessThan(calculateMinAmountOut(BigInt(route.amountOut), 0.01));  // Past a 1% tolerance
+    
+    const quote: Quote = {
+      quoteId: uuidv4(),
+      accountId: 'acct',
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: '10000000000',
+      slippage: 0.01,
+      priorityFee: 'normal',
+      route,
+      amountOut: route.amountOut,
+      minAmountOut: calculateMinAmountOut(BigInt(route.amountOut), 0.01).toString(),
+      createdAt: new Date(1_000),
+      expiresAt: new Date(16_000)
+    };
+    expect(isQuoteExpired(quote, 15_999)).toBe(false);
+    expect(isQuoteExpired(quote, 16_000)).toBe(true);
+  });
+  
+  // Test 15: Transactions land once, reach every commitment level, and expire if they never land
+  test('should land a transaction once and expire a dropped one with its blockhash', async () => {
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const simulation = new Simulation({ slotMs: 5, executionLatencyMs: [0, 0], dropRate: 0, blockhashValiditySlots: 4 });
+    let executions = 0;
+    const chain = new SimulatedChain(simulation, async () => {
+      executions++;
+      return { success: true, amountOut: '185000000' };
+    });
+    const instruction = {
+      dex: 'raydium', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: '1000000000', minAmountOut: '0',
+      computeUnitLimit: 140_000,
+      computeUnitPrice: 10_000_000  // Outbids any congestion, so only dropRate decides
+    };
+    
+    const transaction = chain.signTransaction('order-1', instruction, chain.getLatestBlockhash());
+    expect(chain.signTransaction('order-1', instruction, chain.getLatestBlockhash()).signature).not.toBe(transaction.signature);
+    chain.sendTransaction(transaction);
+    chain.sendTransaction(transaction);  // Rebroadcast: same signature, ignored
+    expect(chain.getSignatureStatus(transaction.signature)).toBeNull();  // Not landed yet
+    
+    const levels: Set<string> = new Set();
+    while (chain.getSignatureStatus(transaction.signature)?.commitment !== 'finalized') {
+      const status = chain.getSignatureStatus(transaction.signature);
+      if (status) {
+        levels.add(status.commitment);
+      }
+      await sleep(2);
+    }
+    expect(levels.has('confirmed')).toBe(true);
+    expect(executions).toBe(1);  // Landed once despite being sent twice
+    expect(chain.getSignatureStatus(transaction.signature)?.result.txHash).toBe(transaction.signature);
+    expect(chain.getSignatureStatus(transaction.signature)?.result.priorityFee).toBe('1400000');  // 10M microlamports x 140k CU
+    
+    // A dropped transaction never lands, and can't be sent again once its blockhash has expired
+    simulation.config.dropRate = 1;
+    const dropped = chain.signTransaction('order-1', instruction, chain.getLatestBlockhash());
+    chain.sendTransaction(dropped);
+    while (!chain.isExpired(dropped)) {
+      await sleep(5);
+    }
+    expect(chain.getSignatureStatus(dropped.signature)).toBeNull();
+    expect(() => chain.sendTransaction(dropped)).toThrow('Blockhash not found');
+    expect(executions).toBe(1);
+  });
+  
+  // Test 16: Routes are ranked net of network and priority fees, priced from recent congestion
+  test('should rank venues by output net of priority fees estimated from congestion', async () => {
+    const venue = (id: string, variance: number, computeUnits: number) => new MockDexAdapter({
+      id,
+      name: id,
+      fee: 0.003,
+      priceVariance: [variance, variance],  // No noise
+      estimatedGas: 0.00005,
+      computeUnits,
+      pools: [{ tokenA: 'SOL', tokenB: 'USDC', liquidity: 1_000_000 }]
+    });
+    const router = new MockDexRouter(new DexRegistry([venue('light', 1, 100_000), venue('heavy', 1.0001, 1_400_000)]));
+    
+    const free = await router.getBestRoute('SOL', 'USDC', 100_000_000n, undefined, 0);  // 0.1 SOL, no priority fee
+    expect(free.selectedDex).toBe('heavy');  // 1 bps more output and the same base fee
+    expect(free.estimatedFee).toBe('50000');
+    
+    const busy = await router.getBestRoute('SOL', 'USDC', 100_000_000n, undefined, 1_000_000);
+    expect(busy.selectedDex).toBe('light');  // heavy's 1.4M compute units would cost 0.0014 SOL
+    expect(busy.estimatedFee).toBe('150000');  // 50,000 base + 1M microlamports x 100k CU
+    expect(BigInt(busy.netAmountOut)).toBeLessThan(BigInt(busy.amountOut));
+    
+    const estimate = (congestion: number) => new PriorityFeeEstimator(
+      new SimulatedChain(new Simulation({ seed: 7, congestion }), async () => ({ success: true }))
+    ).estimate();
+    const idle = estimate(0);
+    const congested = estimate(1);
+    expect(idle.levels.low).toBeLessThanOrEqual(idle.levels.normal);
+    expect(idle.levels.normal).toBeLessThanOrEqual(idle.levels.turbo);
+    expect(congested.levels.normal).toBeGreaterThan(idle.levels.turbo);
+    expect(congested.congestion).toBeGreaterThan(idle.congestion);
+    
+    expect(isPriorityFeeSetting('turbo')).toBe(true);
+    expect(isPriorityFeeSetting(25_000)).toBe(true);
+    expect(isPriorityFeeSetting(1.5)).toBe(false);
+    expect(isPriorityFeeSetting('max')).toBe(false);
+  });
+  
+  // Test 17: Swap execution returns result
   test('should execute swap and return transaction details', async () => {
-    const result = await dexRouter.executeSwap('raydium', 'SOL', 'USDC', 1, 100, 0.01);
+    const result = await dexRouter.executeSwap('raydium', 'SOL', 'USDC', 1_000_000_000n, 0n);
     
     if (result.success) {
       expect(result.txHash).toBeDefined();
       expect(result.txHash).toMatch(/^mock_tx_/);
       expect(result.executedPrice).toBeGreaterThan(0);
-      expect(result.amountOut).toBeGreaterThan(0);
+      expect(BigInt(result.amountOut as string)).toBeGreaterThan(0n);
+      expect(result.networkFee).toMatch(/^[1-9]\d*$/);  // Lamports paid for the transaction
       expect(result.error).toBeUndefined();
     } else {
       expect(result.error).toBeDefined();
@@ -80,10 +412,25 @@ describe('DEX Router', () => {
 });
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// Test Suite 2: Database Operations (5 tests)
+// Test Suite 2: Database Operations (9 tests)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 describe('Database Operations', () => {
   
+  // An empty schema of its own and a pool whose connections see only it, for running migrations
+  async function createScratchSchema(): Promise<{ schema: string; scratch: Pool }> {
+    const schema = `migration_test_${uuidv4().replace(/-/g, '')}`;
+    await pool.query(`CREATE SCHEMA ${schema}`);
+    const scratch = new Pool({
+      host: process.env.POSTGRES_HOST,
+      port: parseInt(process.env.POSTGRES_PORT || '5432'),
+      database: process.env.POSTGRES_DB,
+      user: process.env.POSTGRES_USER,
+      password: process.env.POSTGRES_PASSWORD,
+      options: `-c search_path=${schema}`
+    });
+    return { schema, scratch };
+  }
+  
   beforeAll(async () => {
     await initDatabase();
   });
@@ -91,105 +438,214 @@ describe('Database Operations', () => {
   afterAll(async () => {
     // Clean up test data
     await pool.query('DELETE FROM orders WHERE order_id LIKE $1', ['test-order-%']);
-    await pool.end();
   });
   
-  // Test 6: Save order to database
+  // Test 18: Save order to database
   test('should save new order to database', async () => {
     const orderId = `test-order-${Date.now()}`;
-    const order = {
+    const order: Order = {
       orderId,
       orderType: 'market',
       tokenIn: 'SOL',
       tokenOut: 'USDC',
-      amountIn: 1,
+      amountIn: '1000000000',  // 1 SOL in lamports
       slippage: 0.01,
-      status: 'pending'
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date()
     };
     
-    await saveOrder(order);
-    const saved = await getOrder(orderId);
+    await orderRepository.create(order);
+    const saved = await orderRepository.findById(orderId);
     
-    expect(saved).toBeDefined();
-    expect(saved.order_id).toBe(orderId);
-    expect(saved.order_type).toBe('market');
-    expect(saved.token_in).toBe('SOL');
-    expect(saved.token_out).toBe('USDC');
-    expect(parseFloat(saved.amount_in)).toBe(1);
-    expect(saved.status).toBe('pending');
+    expect(saved).not.toBeNull();
+    expect(saved!.orderId).toBe(orderId);
+    expect(saved!.orderType).toBe('market');
+    expect(saved!.tokenIn).toBe('SOL');
+    expect(saved!.tokenOut).toBe('USDC');
+    expect(saved!.amountIn).toBe('1000000000');
+    expect(saved!.status).toBe('pending');
   });
   
-  // Test 7: Update order status
+  // Test 19: Update order status
   test('should update order status', async () => {
     const orderId = `test-order-${Date.now()}-status`;
     
-    await saveOrder({
+    await orderRepository.create({
       orderId,
       orderType: 'market',
       tokenIn: 'SOL',
       tokenOut: 'USDC',
-      amountIn: 1,
+      amountIn: '1000000000',  // 1 SOL in lamports
       slippage: 0.01,
-      status: 'pending'
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date()
     });
     
-    await updateOrder(orderId, { status: 'confirmed' });
-    const updated = await getOrder(orderId);
+    await orderRepository.update(orderId, { status: 'confirmed' });
+    const updated = await orderRepository.findById(orderId);
     
-    expect(updated.status).toBe('confirmed');
+    expect(updated!.status).toBe('confirmed');
   });
   
-  // Test 8: Update order with execution details
+  // Test 20: Update order with execution details
   test('should update order with execution details', async () => {
     const orderId = `test-order-${Date.now()}-details`;
     
-    await saveOrder({
+    await orderRepository.create({
       orderId,
       orderType: 'market',
       tokenIn: 'SOL',
       tokenOut: 'USDC',
-      amountIn: 1,
+      amountIn: '1000000000',  // 1 SOL in lamports
       slippage: 0.01,
-      status: 'pending'
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date()
     });
     
-    await updateOrder(orderId, {
+    await orderRepository.update(orderId, {
       status: 'confirmed',
       txHash: 'mock_tx_12345',
       executedPrice: 100.5,
-      amountOut: 100.5,
+      amountOut: '100500000',
+      slippageBps: 0,  // Zeros are stored, not skipped
       dexUsed: 'raydium'
     });
     
-    const updated = await getOrder(orderId);
+    const updated = await orderRepository.findById(orderId);
     
-    expect(updated.status).toBe('confirmed');
-    expect(updated.tx_hash).toBe('mock_tx_12345');
-    expect(parseFloat(updated.executed_price)).toBeCloseTo(100.5, 2);
-    expect(parseFloat(updated.amount_out)).toBeCloseTo(100.5, 2);
-    expect(updated.dex_used).toBe('raydium');
+    expect(updated!.status).toBe('confirmed');
+    expect(updated!.txHash).toBe('mock_tx_12345');
+    expect(updated!.executedPrice).toBe(100.5);
+    expect(updated!.amountOut).toBe('100500000');
+    expect(updated!.slippageBps).toBe(0);
+    expect(updated!.dexUsed).toBe('raydium');
   });
   
-  // Test 9: Handle non-existent order
+  // Test 21: Handle non-existent order
   test('should return null for non-existent order', async () => {
-    const result = await getOrder('non-existent-order-id');
+    const result = await orderRepository.findById('non-existent-order-id');
     expect(result).toBeNull();
   });
   
-  // Test 10: Update non-existent order should not throw error
+  // Test 22: Update non-existent order should not throw error
   test('should handle updating non-existent order gracefully', async () => {
     await expect(
-      updateOrder('non-existent-order-id', { status: 'confirmed' })
-    ).resolves.not.toThrow();
+      orderRepository.update('non-existent-order-id', { status: 'confirmed' })
+    ).resolves.toBe(false);
+  });
+  
+  // Test 23: Status-guarded updates only apply from the expected status
+  test('should only update an order from its expected status', async () => {
+    const orderId = `test-order-${Date.now()}-guarded`;
+    
+    await orderRepository.create({
+      orderId,
+      orderType: 'limit',
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: '1000000000',
+      limitPrice: 150,
+      status: 'waiting',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    
+    // A cancellation and a trigger race from 'waiting': only the first one applies
+    expect(await orderRepository.update(orderId, { status: 'cancelled' }, { expectedStatus: 'waiting' })).toBe(true);
+    expect(await orderRepository.update(orderId, { status: 'pending' }, { expectedStatus: 'waiting' })).toBe(false);
+    expect((await orderRepository.findById(orderId))!.status).toBe('cancelled');
+  });
+  
+  // Test 24: The listing pages through typed orders, like the ones fetched by ID
+  test('should list orders as typed orders in keyset pages', async () => {
+    const accountId = `test-account-${uuidv4()}`;  // Keeps the listing to this test's orders
+    for (let i = 0; i < 3; i++) {
+      await orderRepository.create({
+        orderId: `test-order-${uuidv4()}`,
+        orderType: 'market',
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: `${i + 1}000000000`,
+        status: 'pending',
+        accountId,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    }
+    const query = { accountId, sort: 'amountIn' as const, direction: 'asc' as const, limit: 2 };
+    
+    const first = await orderRepository.list(query);
+    const second = await orderRepository.list({ ...query, after: first.nextCursor as OrderCursor });
+    
+    expect(first.orders.map(order => order.amountIn)).toEqual(['1000000000', '2000000000']);
+    expect(second.orders.map(order => order.amountIn)).toEqual(['3000000000']);
+    expect(second.nextCursor).toBeNull();  // Last page
+    expect(first.orders[0]).toEqual(await orderRepository.findById(first.orders[0].orderId));  // Same mapping as by ID
+    expect(first.orders[0].executedPrice).toBeUndefined();  // Unset columns are absent, not null or NaN
+    expect(first.orders[0]).not.toHaveProperty('order_id');
+  });
+  
+  // Test 25: Every migration applies to an empty schema, and the last one rolls back and applies again
+  test('should apply every migration and roll the last one back', async () => {
+    const { schema, scratch } = await createScratchSchema();
+    
+    try {
+      const applied = await migrate(scratch);
+      const reverted = await rollback(scratch);
+      const afterRollback = await migrationStatus(scratch);
+      const reapplied = await migrate(scratch);
+      
+      expect(applied.map(m => m.version)).toEqual(migrations.map(m => m.version));
+      expect(reverted.map(m => m.version)).toEqual([migrations.length]);
+      expect(afterRollback.filter(m => m.state === 'pending').map(m => m.version)).toEqual([migrations.length]);
+      expect(reapplied.map(m => m.version)).toEqual([migrations.length]);
+      expect((await migrationStatus(scratch)).every(m => m.state === 'applied')).toBe(true);
+    } finally {
+      await scratch.end();
+      await pool.query(`DROP SCHEMA ${schema} CASCADE`);
+    }
+  });
+  
+  // Test 26: Instances starting together migrate one after the other, so each migration runs once
+  test('should make a second migrator wait for the advisory lock', async () => {
+    const { schema, scratch } = await createScratchSchema();
+    
+    try {
+      const [first, second] = await Promise.all([migrate(scratch), migrate(scratch)]);
+      
+      expect([first.length, second.length].sort((a, b) => a - b)).toEqual([0, migrations.length]);  // The later one found nothing left to do
+      const { rows } = await scratch.query('SELECT version FROM schema_migrations ORDER BY version');
+      expect(rows.map(row => row.version)).toEqual(migrations.map(m => m.version));
+    } finally {
+      await scratch.end();
+      await pool.query(`DROP SCHEMA ${schema} CASCADE`);
+    }
   });
 });
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// Test Suite 3: WebSocket Manager (3 tests)
+// Test Suite 3: WebSocket Manager (7 tests)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 describe('WebSocket Manager', () => {
   
-  // Test 11: Track active connections
+  // Minimal stand-in for a ws socket: records what was sent and lets the test fire events
+  const fakeSocket = () => {
+    const handlers: Record<string, Array<(arg?: any) => void>> = {};
+    return {
+      sent: [] as any[],
+      send(payload: string) { this.sent.push(JSON.parse(payload)); },
+      on(name: string, handler: (arg?: any) => void) { (handlers[name] = handlers[name] || []).push(handler); },
+      emit(name: string, arg?: any) { (handlers[name] || []).forEach(handler => handler(arg)); },
+      close() { this.emit('close'); },
+      ping: jest.fn(),
+      terminate: jest.fn()
+    };
+  };
+  
+  // Test 27: Track active connections
   test('should track active connections count', () => {
     const wsManager = new WebSocketManager();
     const initialCount = wsManager.getActiveConnectionsCount();
@@ -198,7 +654,7 @@ describe('WebSocket Manager', () => {
     expect(typeof initialCount).toBe('number');
   });
   
-  // Test 12: Handle sending to non-existent connection
+  // Test 28: Handle sending to non-existent connection
   test('should handle sending to non-existent connection gracefully', () => {
     const wsManager = new WebSocketManager();
     
@@ -207,7 +663,7 @@ describe('WebSocket Manager', () => {
     }).not.toThrow();
   });
   
-  // Test 13: Close connection should not throw for non-existent order
+  // Test 29: Close connection should not throw for non-existent order
   test('should handle closing non-existent connection gracefully', () => {
     const wsManager = new WebSocketManager();
     
@@ -215,21 +671,100 @@ describe('WebSocket Manager', () => {
       wsManager.closeConnection('non-existent-order-id');
     }).not.toThrow();
   });
+  
+  // Test 30: Several clients can watch the same order
+  test('should deliver order updates to every connected client', () => {
+    const wsManager = new WebSocketManager();
+    const first = fakeSocket();
+    const second = fakeSocket();
+    wsManager.registerConnection('order-1', first);
+    wsManager.registerConnection('order-1', second);
+    
+    wsManager.sendUpdate('order-1', 'routing');
+    expect(first.sent.map(message => message.status)).toEqual(['routing']);
+    expect(second.sent.map(message => message.status)).toEqual(['routing']);  // Second client no longer replaces the first
+    
+    first.close();
+    wsManager.sendUpdate('order-1', 'building');
+    expect(first.sent).toHaveLength(1);
+    expect(second.sent).toHaveLength(2);
+    expect(wsManager.getActiveConnectionsCount()).toBe(1);
+  });
+  
+  // Test 31: Subscribers pick topics over the socket
+  test('should route updates to pair, account and firehose topic subscribers', () => {
+    const wsManager = new WebSocketManager();
+    const pair = fakeSocket();
+    const firehose = fakeSocket();
+    wsManager.registerSubscriber(pair);
+    wsManager.registerSubscriber(firehose);
+    pair.emit('message', JSON.stringify({ action: 'subscribe', topic: 'pair:USDC/SOL' }));  // Either direction
+    pair.emit('message', JSON.stringify({ action: 'subscribe', topic: 'account:acct-1' }));
+    firehose.emit('message', JSON.stringify({ action: 'subscribe', topic: 'all' }));
+    expect(pair.sent.map(message => message.type)).toEqual(['subscribed', 'subscribed']);
+    
+    wsManager.trackOrder({ orderId: 'order-1', tokenIn: 'SOL', tokenOut: 'USDC', accountId: 'acct-1' });
+    wsManager.trackOrder({ orderId: 'order-2', tokenIn: 'BONK', tokenOut: 'SOL' });
+    wsManager.sendUpdate('order-1', 'confirmed');
+    wsManager.sendUpdate('order-2', 'routing');
+    
+    expect(pair.sent.filter(message => message.orderId).map(message => message.orderId)).toEqual(['order-1']);  // Once, despite two matching topics
+    expect(firehose.sent.filter(message => message.orderId).map(message => message.orderId)).toEqual(['order-1', 'order-2']);
+    
+    pair.emit('message', JSON.stringify({ action: 'unsubscribe', topic: 'pair:SOL/USDC' }));
+    pair.emit('message', JSON.stringify({ action: 'unsubscribe', topic: 'account:acct-1' }));
+    wsManager.sendUpdate('order-1', 'confirmed');
+    expect(pair.sent.filter(message => message.orderId)).toHaveLength(1);
+    expect(parseTopic('pair:SOL')).toBeNull();
+    expect(parseTopic('orders:abc')).toBeNull();
+  });
+
+  // Test 32: Updates relayed over the status bus reach local sockets
+  test('should apply track, update and close messages from the status bus', () => {
+    const wsManager = new WebSocketManager();
+    const stream = fakeSocket();
+    const account = fakeSocket();
+    wsManager.registerConnection('order-1', stream);
+    wsManager.registerSubscriber(account);
+    account.emit('message', JSON.stringify({ action: 'subscribe', topic: 'account:acct-1' }));
+
+    wsManager.deliver({ kind: 'track', order: { orderId: 'order-1', tokenIn: 'SOL', tokenOut: 'USDC', accountId: 'acct-1' } });
+    wsManager.deliver({ kind: 'update', orderId: 'order-1', status: 'routing', data: { attempt: 1 } });
+    expect(stream.sent.map(message => message.status)).toEqual(['routing']);
+    expect(account.sent.filter(message => message.orderId).map(message => message.data)).toEqual([{ attempt: 1 }]);
+
+    wsManager.deliver({ kind: 'close', orderId: 'order-1' });
+    expect(wsManager.getActiveConnectionsCount()).toBe(1);  // Stream closed, topic subscriber stays
+  });
+
+  // Test 33: Authenticated subscribers only get the topics they're allowed
+  test('should reject topics the authorizer denies', async () => {
+    const wsManager = new WebSocketManager();
+    const socket = fakeSocket();
+    wsManager.registerSubscriber(socket, async topic => topic === 'account:acct-1');
+    socket.emit('message', JSON.stringify({ action: 'subscribe', topic: 'account:acct-1' }));
+    socket.emit('message', JSON.stringify({ action: 'subscribe', topic: 'all' }));
+    await new Promise(resolve => setImmediate(resolve));  // Let the authorizer settle
+
+    expect(socket.sent.map(message => message.type)).toEqual(['subscribed', 'error']);
+    expect(wsManager.getSubscriberCount('account:acct-1')).toBe(1);
+    expect(wsManager.getSubscriberCount('all')).toBe(0);
+  });
 });
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// Test Suite 4: Order Type Validation (2 tests)
+// Test Suite 4: Order Type Validation (12 tests)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 describe('Order Validation', () => {
   
-  // Test 14: Validate order structure
+  // Test 34: Validate order structure
   test('should validate complete order structure', () => {
     const order = {
       orderId: uuidv4(),
       orderType: 'market',
       tokenIn: 'SOL',
       tokenOut: 'USDC',
-      amountIn: 1,
+      amountIn: '1000000000',  // 1 SOL in lamports
       slippage: 0.01,
       status: 'pending',
       createdAt: new Date(),
@@ -240,13 +775,13 @@ describe('Order Validation', () => {
     expect(order.orderType).toBe('market');
     expect(order.tokenIn).toBe('SOL');
     expect(order.tokenOut).toBe('USDC');
-    expect(order.amountIn).toBeGreaterThan(0);
+    expect(BigInt(order.amountIn)).toBeGreaterThan(0n);
     expect(order.slippage).toBeGreaterThanOrEqual(0);
     expect(order.slippage).toBeLessThanOrEqual(1);
     expect(order.status).toBe('pending');
   });
   
-  // Test 15: UUID generation produces valid IDs
+  // Test 35: UUID generation produces valid IDs
   test('should generate valid UUID v4 for order IDs', () => {
     const orderId = uuidv4();
     
@@ -254,6 +789,955 @@ describe('Order Validation', () => {
     expect(typeof orderId).toBe('string');
     expect(orderId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
   });
+  
+  // Test 36: Idempotency fingerprints ignore key order but not values
+  test('should fingerprint request bodies for idempotency keys', () => {
+    const body = { orderType: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 };
+    const reordered = { amountIn: 1, tokenOut: 'USDC', tokenIn: 'SOL', orderType: 'market' };
+    
+    expect(hashRequestBody(body)).toBe(hashRequestBody(reordered));  // Same request, same fingerprint
+    expect(hashRequestBody(body)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashRequestBody({ ...body, amountIn: 2 })).not.toBe(hashRequestBody(body));  // Different body -> 409
+  });
+  
+  // Test 37: API keys are random, stored as hashes, and scope order access
+  test('should hash API keys and limit orders to their owner', () => {
+    const key = generateApiKey();
+    
+    expect(key).toMatch(/^oee_[A-Za-z0-9_-]{32}$/);
+    expect(generateApiKey()).not.toBe(key);
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    
+    const user = { keyId: 'key-1', accountId: 'acct-1', scope: 'user' as const };
+    const admin = { keyId: 'key-2', accountId: 'admin', scope: 'admin' as const };
+    expect(canAccessOrder(user, { accountId: 'acct-1' })).toBe(true);
+    expect(canAccessOrder(user, { accountId: 'acct-2' })).toBe(false);
+    expect(canAccessOrder(user, { accountId: undefined })).toBe(false);  // Orders from before accounts existed
+    expect(canAccessOrder(admin, { accountId: 'acct-2' })).toBe(true);
+    expect(canAccessOrder(null, { accountId: 'acct-1' })).toBe(false);
+  });
+  
+  // Test 38: Account overrides replace only the limits they set
+  test('should apply per-account limit overrides over the defaults', () => {
+    const defaults = resolveAccountLimits(null);
+    expect(defaults.ordersPerMinute).toBeGreaterThan(0);
+    expect(defaults.tokenDailyNotionalUsd).toEqual({});
+    
+    const limits = resolveAccountLimits({ ordersPerMinute: 5, dailyNotionalUsd: null, tokenDailyNotionalUsd: { BONK: 1000 } });
+    expect(limits.ordersPerMinute).toBe(5);
+    expect(limits.dailyNotionalUsd).toBe(defaults.dailyNotionalUsd);  // null keeps the default
+    expect(limits.tokenDailyNotionalUsd).toEqual({ BONK: 1000 });
+    
+    expect(orderNotionalUsd('SOL', '2000000000')).toBe(200);  // Valued at reference prices
+    expect(orderNotionalUsd('USDC', '50000000')).toBe(50);
+  });
+  
+  // Test 39: Schema migrations are numbered consecutively and reversible
+  test('should number schema migrations consecutively with up and down steps', () => {
+    expect(migrations[0].name).toBe('create_orders');  // The orders table is migration 001
+    migrations.forEach((migration, i) => {
+      expect(migration.version).toBe(i + 1);
+      expect(migration.name).toMatch(/^[a-z0-9_]+$/);
+      expect(typeof migration.up).toBe('function');
+      expect(typeof migration.down).toBe('function');
+    });
+    expect(new Set(migrations.map(m => m.name)).size).toBe(migrations.length);
+  });
+  
+  // Test 40: Repository rows map to typed orders without losing zeros or decimals
+  test('should map orders rows to typed orders', () => {
+    const createdAt = new Date('2025-11-24T17:00:00Z');
+    const order = toOrder({
+      order_id: 'order-1',
+      order_type: 'sniper',
+      token_in: 'USDC',
+      token_out: 'BONK',
+      amount_in: '123456789012345678901',  // Beyond Number.MAX_SAFE_INTEGER
+      slippage: '0.0100',
+      status: 'waiting',
+      dex_used: null,
+      executed_price: '0.00000000',
+      amount_out: null,
+      tx_hash: null,
+      error: null,
+      limit_price: null,
+      expires_at: new Date(createdAt.getTime() + 60000),
+      last_quoted_price: null,
+      price_distance: '0.0000',
+      max_price: '0.00002500',
+      min_liquidity: null,
+      route_path: null,
+      quoted_amount_out: null,
+      slippage_bps: null,
+      failure_reason: null,
+      idempotency_key: null,
+      account_id: 'acct-1',
+      created_at: createdAt,
+      updated_at: createdAt
+    });
+    
+    expect(order.amountIn).toBe('123456789012345678901');  // Base units are kept exact
+    expect(order.executedPrice).toBe(0);  // Zero is a value, not a missing one
+    expect(order.priceDistance).toBe(0);
+    expect(order.maxPrice).toBe(0.000025);
+    expect(order.amountOut).toBeUndefined();  // NULL columns are absent
+    expect(order.dexUsed).toBeUndefined();
+    expect(order.maxWaitMs).toBe(60000);  // Derived from the expiry
+    expect(order.accountId).toBe('acct-1');
+  });
+  
+  // Test 41: Token registry resolves symbols and mints and rejects anything else
+  test('should resolve registered tokens and reject unknown, disabled or malformed ones', () => {
+    const registry = new TokenRegistry();
+    
+    expect(registry.resolve('USDC').decimals).toBe(6);
+    expect(registry.resolve('So11111111111111111111111111111111111111112').symbol).toBe('SOL');  // Mints resolve to symbols
+    expect(isValidMint('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v')).toBe(true);
+    expect(isValidMint('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1O')).toBe(false);  // 'O' is not base58
+    
+    expect(() => registry.resolve('DOGE')).toThrow('Unknown token: DOGE');
+    expect(() => registry.resolve('11111111111111111111111111111111')).toThrow('Unknown token mint');  // Valid but unregistered
+    expect(() => registry.resolve('not-a-mint-0OIl')).toThrow('nor a valid base58 mint address');
+    
+    registry.setEnabled('BONK', false);
+    expect(() => registry.resolve('BONK')).toThrow('Token BONK is disabled');
+    expect(() => registry.register({ symbol: 'BAD', mint: 'xyz', decimals: 6, enabled: true })).toThrow('Invalid mint');
+  });
+  
+  // Test 42: Amounts convert to integer base units exactly
+  test('should convert token amounts to base units without rounding', () => {
+    expect(parseUnits('1.5', 9)).toBe(1_500_000_000n);
+    expect(parseUnits('0.000000001', 9)).toBe(1n);  // One lamport
+    expect(parseUnits('123456789.123456789', 9)).toBe(123_456_789_123_456_789n);  // More digits than a double holds
+    expect(parseUnits('2.50', 1)).toBe(25n);  // Trailing zeros are fine
+    expect(() => parseUnits('1.0000001', 6)).toThrow('more than 6 decimal places');
+    expect(() => parseUnits('1e-7', 9)).toThrow('Invalid amount');
+    expect(formatUnits(123_456_789_123_456_789n, 9)).toBe('123456789.123456789');
+    expect(formatUnits(5n, 6)).toBe('0.000005');
+    expect(tokenRegistry.toUiAmount('SOL', '2500000000')).toBe(2.5);
+  });
+  
+  // Test 43: Price distance is the move still needed to reach the limit
+  test('should calculate the distance to a limit price', () => {
+    expect(calculatePriceDistance(100, 110)).toBeCloseTo(9.0909, 4);  // 9.09% still to go
+    expect(calculatePriceDistance(120, 100)).toBeCloseTo(-20, 10);  // Past the limit
+    expect(calculatePriceDistance(100, 100)).toBe(0);
+  });
+  
+  // Test 44: The least output a limit or sniper order may execute at
+  test('should derive the minimum total output from the limit or max price', () => {
+    const order = { orderType: 'limit', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: '2000000000', limitPrice: 150 } as Order;
+    
+    expect(minTotalAmountOut(order)).toBe(300_000_000n);  // 2 SOL at 150 USDC = 300 USDC
+    expect(minTotalAmountOut({ ...order, orderType: 'sniper', limitPrice: undefined, maxPrice: 0.01 })).toBe(200_000_000n);  // 2 SOL at 0.01 SOL per USDC
+    expect(minTotalAmountOut({ ...order, orderType: 'market', limitPrice: undefined })).toBeUndefined();
+  });
+  
+  // Test 45: Slippage is only measured against a quote above 0
+  test('should measure slippage only where there is a quote to compare to', () => {
+    const fill = (hop: number, amountOut: string, quotedAmountOut: string) => ({ hop, amountOut, quotedAmountOut } as OrderFill);
+    
+    expect(shortfallBps(99n, 100n)).toBeCloseTo(100);  // 1% short
+    expect(shortfallBps(99n, 0n)).toBeUndefined();
+    expect(shortfallBps(undefined, 100n)).toBeUndefined();  // Failed swap reported no output
+    expect(fillSlippageBps([fill(0, '99', '100'), fill(1, '50', '0')])).toBeCloseTo(100);  // Hop quoted at 0 is left out
+    expect(fillSlippageBps([fill(0, '10', '0')])).toBe(0);
+  });
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Test Suite 5: Order Execution (35 tests) - needs PostgreSQL and Redis
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+describe('Order Execution', () => {
+  const accountId = `test-account-${uuidv4()}`;
+  const orderIds: string[] = [];  // Orders whose jobs are removed afterwards
+  let app: FastifyInstance;  // Order routes, as the API serves them
+  let apiKey: string;  // User key of the test account
+  let adminKey: string;  // Admin key of the test account
+  const feeAllowance = BigInt(process.env.NETWORK_FEE_RESERVE_LAMPORTS || '5000000');  // SOL held with every order for fees
+  
+  // Store an order of the test account holding its funds, as POST /api/orders/execute does
+  async function createTestOrder(overrides: Partial<Order> = {}): Promise<Order> {
+    const order: Order = {
+      orderId: `test-order-${uuidv4()}`,
+      orderType: 'market',
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: '1000000000',  // 1 SOL in lamports
+      slippage: 0.01,
+      status: 'pending',
+      accountId,
+      priorityFee: 'normal',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides
+    };
+    await balanceLedger.reserve(order.accountId as string, order.orderId, [{ token: order.tokenIn, amount: BigInt(order.amountIn) }]);
+    await orderRepository.create(order);
+    orderIds.push(order.orderId);
+    return order;
+  }
+  
+  // Base units of a token the test account has reserved
+  async function reserved(token: string): Promise<bigint> {
+    const balance = (await balanceLedger.getBalances(accountId)).find(b => b.token === token);
+    return BigInt(balance?.reserved ?? 0);
+  }
+  
+  // Another account of the suite, holding only its starting balances (removed with the test account)
+  async function createLedgerAccount(): Promise<string> {
+    const ledgerAccountId = `${accountId}-${uuidv4()}`;
+    await createAccount(ledgerAccountId, 'Ledger tests');
+    return ledgerAccountId;
+  }
+  
+  // Base units of a token an account has available and reserved
+  async function balanceOf(account: string, token: string): Promise<{ available: bigint; reserved: bigint }> {
+    const balance = (await balanceLedger.getBalances(account)).find(b => b.token === token);
+    return { available: BigInt(balance?.available ?? 0), reserved: BigInt(balance?.reserved ?? 0) };
+  }
+  
+  // An executed SOL -> USDC leg of a test order, paying the given network fee
+  function testFill(legIndex: number, networkFee: bigint, overrides: Partial<OrderFill> = {}): OrderFill {
+    return {
+      legIndex,
+      hop: 0,
+      dex: 'raydium',
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: '500000000',  // Half of a test order
+      amountOut: '50000000',
+      quotedAmountOut: '50000000',
+      executedPrice: 100,
+      txHash: `tx-${uuidv4()}`,
+      networkFee: networkFee.toString(),
+      priorityFee: '0',
+      ...overrides
+    };
+  }
+  
+  // Jobs of the test orders in a queue (limit checks use their own job IDs)
+  async function jobsOf(queue: Queue, orderId: string): Promise<Job[]> {
+    const jobs = await queue.getJobs(['waiting', 'delayed', 'prioritized', 'completed', 'failed']);
+    return jobs.filter(job => job && job.data.orderId === orderId);
+  }
+  
+  // POST /api/orders/execute as the test account, or the account of another key, optionally with an Idempotency-Key
+  async function submitOrder(body: object, idempotencyKey?: string, key: string = apiKey) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/orders/execute',
+      headers: { authorization: `Bearer ${key}`, ...(idempotencyKey ? { 'idempotency-key': idempotencyKey } : {}) },
+      payload: body
+    });
+    if (response.statusCode === 201) {
+      orderIds.push(response.json().orderId);
+    }
+    return response;
+  }
+  
+  // A failed order of the test account parked in the dead-letter queue, as the worker leaves it
+  async function createDeadLetter(error: string): Promise<Order> {
+    const order = await createTestOrder({ status: 'failed' });
+    await balanceLedger.releaseOrder(order.orderId, 'release');  // Failing for good gave its funds back
+    await enqueueOrder(order);
+    const job = await orderQueue.getJob(order.orderId) as Job;
+    job.attemptsMade = 3;  // Used up its attempts
+    await moveToDeadLetter(job, new Error(error));
+    return order;
+  }
+  
+  // POST /api/admin/dead-letters/:orderId/requeue with an admin key
+  async function requeueOrder(orderId: string, body: object = {}) {
+    return app.inject({ method: 'POST', url: `/api/admin/dead-letters/${orderId}/requeue`, headers: { authorization: `Bearer ${adminKey}` }, payload: body });
+  }
+  
+  // DELETE /api/orders/:orderId as the test account
+  async function cancelOrder(orderId: string) {
+    return app.inject({ method: 'DELETE', url: `/api/orders/${orderId}`, headers: { authorization: `Bearer ${apiKey}` } });
+  }
+  
+  beforeAll(async () => {
+    await initDatabase();  // Workers aren't started: the tests run the jobs themselves
+    await createAccount(accountId, 'Order execution tests');
+    apiKey = (await issueApiKey(accountId, 'user', 'Order execution tests')).key;
+    adminKey = (await issueApiKey(accountId, 'admin', 'Order execution tests')).key;
+    
+    app = Fastify();
+    await app.register(fastifyWebSocket);
+    app.decorateRequest('auth', null);
+    app.addHook('onRequest', authenticate);
+    await app.register(orderRoutes);
+    await app.register(failureRoutes);
+    await app.register(adminRoutes);
+  });
+  
+  afterAll(async () => {
+    await app?.close();
+    orderIds.forEach(unwatchSniperOrder);  // Stop expiry timers and give up watcher claims
+    for (const queue of [orderQueue, limitOrderQueue, sniperWatchQueue]) {
+      for (const orderId of orderIds) {
+        for (const job of await jobsOf(queue, orderId)) {
+          await job.remove();
+        }
+      }
+    }
+    for (const orderId of orderIds) {
+      await (await deadLetterQueue.getJob(orderId))?.remove();  // Entries hold the order, not its orderId
+    }
+    await closeOrderQueues();
+    await closeLimitOrderQueue();
+    await closeSniperWatchQueue();
+    await closeQuotes();
+    await closeRateLimits();
+    await new Promise(resolve => setTimeout(resolve, 1100));  // Finished orders close their streams after 1s
+    await statusBus.close();
+    await pool.query('DELETE FROM orders WHERE order_id LIKE $1 OR account_id LIKE $2', ['test-order-%', `${accountId}%`]);  // Orders placed through the API too
+    await pool.query('DELETE FROM idempotency_keys WHERE idempotency_key LIKE $1', [`${accountId}%`]);
+    await pool.query('DELETE FROM accounts WHERE account_id LIKE $1', [`${accountId}%`]);  // API keys, balances and ledger go with it
+  });
+  
+  // Test 46: A limit order the market crosses is triggered and queued
+  test('should trigger a limit order once the quote crosses its limit', async () => {
+    const order = await createTestOrder({ orderType: 'limit', status: 'waiting', limitPrice: 0.0001 });  // Far below market
+    
+    await checkLimitOrder({ data: order } as Job);
+    
+    const triggered = await orderRepository.findById(order.orderId);
+    expect(triggered?.status).toBe('pending');
+    expect(triggered?.lastQuotedPrice).toBeGreaterThan(0.0001);
+    expect(triggered?.priceDistance).toBeLessThan(-9999);  // Past what a DECIMAL(10, 4) column holds
+    expect(await orderQueue.getJob(order.orderId)).toBeDefined();  // Handed to the execution queue
+  });
+  
+  // Test 47: A limit order the market hasn't reached keeps waiting
+  test('should keep a limit order waiting while the quote is below its limit', async () => {
+    const order = await createTestOrder({ orderType: 'limit', status: 'waiting', limitPrice: 1_000_000 });
+    
+    await checkLimitOrder({ data: order } as Job);
+    
+    const waiting = await orderRepository.findById(order.orderId);
+    expect(waiting?.status).toBe('waiting');
+    expect(waiting?.lastQuotedPrice).toBeGreaterThan(0);
+    expect(waiting?.priceDistance).toBeGreaterThan(99);  // Almost all of the way still to go
+    expect(await orderQueue.getJob(order.orderId)).toBeUndefined();
+    expect(await jobsOf(limitOrderQueue, order.orderId)).toHaveLength(1);  // Next check scheduled
+  });
+  
+  // Test 48: An expired limit order is closed and its funds released
+  test('should expire a limit order past its expiresAt and release its funds', async () => {
+    const reservedBefore = await reserved('SOL');
+    const order = await createTestOrder({ orderType: 'limit', status: 'waiting', limitPrice: 0.0001, expiresAt: new Date(Date.now() - 1000) });
+    expect(await reserved('SOL')).toBeGreaterThan(reservedBefore);
+    
+    await checkLimitOrder({ data: order } as Job);
+    
+    const expired = await orderRepository.findById(order.orderId);
+    expect(expired?.status).toBe('expired');  // Not triggered, although the price is met
+    expect(expired?.error).toContain('not reached before');
+    expect(await reserved('SOL')).toBe(reservedBefore);  // Input and fee allowance are available again
+    expect(await orderQueue.getJob(order.orderId)).toBeUndefined();
+    expect(await jobsOf(limitOrderQueue, order.orderId)).toHaveLength(0);  // Never checked again
+  });
+  
+  // Test 49: A triggered limit order is not executed below its limit
+  test('should put a triggered limit order back to waiting when the best route is below its limit', async () => {
+    const order = await createTestOrder({ orderType: 'limit', status: 'pending', limitPrice: 1_000_000 });  // Triggered, then the market fell away
+    await enqueueOrder(order);
+    
+    await processOrder(await orderQueue.getJob(order.orderId) as Job);
+    
+    const rearmed = await orderRepository.findById(order.orderId);
+    expect(rearmed?.status).toBe('waiting');
+    expect(rearmed?.txHash).toBeUndefined();  // Nothing was sent
+    expect(await reserved('SOL')).toBeGreaterThanOrEqual(BigInt(order.amountIn));  // Still held for the next trigger
+    expect(await jobsOf(limitOrderQueue, order.orderId)).toHaveLength(1);  // Watched again
+  });
+  
+  // Test 50: A sniper order whose pool is priced within maxPrice fires
+  test('should fire a sniper order once a pool is priced at or below its max price', async () => {
+    const order = await createTestOrder({ orderType: 'sniper', status: 'waiting', maxPrice: 1, maxWaitMs: 60000, expiresAt: new Date(Date.now() + 60000) });  // ~0.01 SOL per USDC
+    
+    expect(await watchSniperOrder(order)).toBe(true);
+    
+    expect((await orderRepository.findById(order.orderId))?.status).toBe('pending');
+    expect(await orderQueue.getJob(order.orderId)).toBeDefined();  // Handed to the execution queue
+  });
+  
+  // Test 51: A sniper order keeps waiting while every pool is priced above maxPrice, until maxWaitMs
+  test('should keep a sniper order waiting while pools are priced above its max price', async () => {
+    const order = await createTestOrder({ orderType: 'sniper', status: 'waiting', maxPrice: 0.000001, maxWaitMs: 2000, expiresAt: new Date(Date.now() + 2000) });
+    
+    expect(await watchSniperOrder(order)).toBe(true);
+    
+    expect((await orderRepository.findById(order.orderId))?.status).toBe('waiting');
+    expect(await orderQueue.getJob(order.orderId)).toBeUndefined();
+    
+    await new Promise(resolve => setTimeout(resolve, (order.expiresAt as Date).getTime() - Date.now() + 100));  // Past maxWaitMs
+    expect((await orderRepository.findById(order.orderId))?.status).toBe('expired');
+  });
+  
+  // Test 52: Only the watcher holding a sniper order's claim evaluates it
+  test('should leave a sniper order to the watcher that claimed it', async () => {
+    const order = await createTestOrder({ orderType: 'sniper', status: 'waiting', maxPrice: 1, maxWaitMs: 60000, expiresAt: new Date(Date.now() + 60000) });
+    const redis = new Redis({ host: process.env.REDIS_HOST || 'localhost', port: parseInt(process.env.REDIS_PORT || '6379') });
+    
+    try {
+      await redis.set(`sniper:watcher:${order.orderId}`, 'another-watcher', 'PX', 60000);  // Watched by another process
+      
+      expect(await watchSniperOrder(order)).toBe(false);
+      
+      expect((await orderRepository.findById(order.orderId))?.status).toBe('waiting');  // Not fired here, although the price is met
+      expect(unwatchSniperOrder(order.orderId)).toBe(false);  // Never watched by this process
+    } finally {
+      await redis.del(`sniper:watcher:${order.orderId}`);
+      await redis.quit();
+    }
+  });
+  
+  // Test 53: A fired sniper order is not executed above its max price
+  test('should put a fired sniper order back to waiting when the best route is above its max price', async () => {
+    const order = await createTestOrder({ orderType: 'sniper', status: 'pending', maxPrice: 0.000001, maxWaitMs: 60000, expiresAt: new Date(Date.now() + 60000) });  // Fired, then the price ran away
+    await enqueueOrder(order);
+    
+    await processOrder(await orderQueue.getJob(order.orderId) as Job);
+    
+    const rearmed = await orderRepository.findById(order.orderId);
+    expect(rearmed?.status).toBe('waiting');
+    expect(rearmed?.txHash).toBeUndefined();  // Nothing was sent
+    expect(await reserved('SOL')).toBeGreaterThanOrEqual(BigInt(order.amountIn));  // Still held for the next fire
+    expect(await jobsOf(sniperWatchQueue, order.orderId)).toHaveLength(1);  // Handed back to a watcher
+  });
+  
+  // Test 54: Pools listed by one process are replayed into, and announced to, the routers of the others
+  test('should share pool listings between processes', async () => {
+    if (!tokenRegistry.find('SHARED')) {
+      tokenRegistry.register({ symbol: 'SHARED', mint: 'Shared1111111111111111111111111111111111111', decimals: 6, enabled: true });
+    }
+    const redis = new Redis({ host: process.env.REDIS_HOST || 'localhost', port: parseInt(process.env.REDIS_PORT || '6379') });
+    const logLength = await redis.llen('pool-listings');
+    const listing = new MockDexRouter();  // Process that lists the pool
+    const running = new MockDexRouter();  // Process already running
+    const started = new MockDexRouter();  // Process started afterwards
+    const logs = [new PoolListingLog(listing), new PoolListingLog(running)];
+    
+    try {
+      await Promise.all(logs.map(log => log.start()));
+      const announced = new Promise<PoolInfo>(resolve => running.once('poolCreated', resolve));
+      listing.createPool('meteora', 'SOL', 'SHARED', 50000);
+      const pool = await announced;
+      logs.push(new PoolListingLog(started));
+      await logs[2].start();
+      
+      expect(pool).toMatchObject({ dex: 'meteora', tokenA: 'SOL', tokenB: 'SHARED' });
+      expect(running.getListedDexes('SOL', 'SHARED')).toEqual(['meteora']);
+      expect(started.getListedDexes('SOL', 'SHARED')).toEqual(['meteora']);  // Replayed from the log
+      expect(listing.getPools('SOL', 'SHARED')[0].liquidity).toBeCloseTo(50000, -2);  // Not applied to itself twice
+    } finally {
+      await Promise.all(logs.map(log => log.close()));
+      await (logLength > 0 ? redis.ltrim('pool-listings', 0, logLength - 1) : redis.del('pool-listings'));  // Drop the test's listing
+      await redis.quit();
+    }
+  });
+  
+  // Test 55: Limit and sniper parameters must be numbers the engine can compare prices and times with
+  test('should reject limit and sniper parameters that are not finite numbers', async () => {
+    const sniper = { orderType: 'sniper', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, maxPrice: 1, maxWaitMs: 60000, minLiquidity: 0 };
+    
+    const responses = await Promise.all([
+      submitOrder({ orderType: 'limit', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, limitPrice: '150' }),
+      submitOrder({ orderType: 'limit', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, limitPrice: true }),
+      submitOrder({ ...sniper, maxPrice: '1' }),
+      submitOrder({ ...sniper, minLiquidity: '0' }),
+      submitOrder({ ...sniper, maxWaitMs: '60000' }),
+      submitOrder({ ...sniper, maxWaitMs: 1500.5 })
+    ]);
+    
+    expect(responses.map(response => response.statusCode)).toEqual([400, 400, 400, 400, 400, 400]);  // Not 500
+    expect(responses.map(response => response.json().error)).toEqual([
+      'Limit orders require a limitPrice greater than 0',
+      'Limit orders require a limitPrice greater than 0',
+      'Sniper orders require a maxPrice greater than 0',
+      'Sniper orders require a minLiquidity of 0 or more',
+      expect.stringContaining('whole milliseconds'),
+      expect.stringContaining('whole milliseconds')
+    ]);
+  });
+  
+  // Test 56: Slippage outside [0, 1) is rejected
+  test('should reject slippage outside 0 up to 1', async () => {
+    const market = { orderType: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 };
+    
+    const responses = await Promise.all([
+      submitOrder({ ...market, slippage: 1 }),
+      submitOrder({ ...market, slippage: -0.01 }),
+      submitOrder({ ...market, slippage: '0.01' })
+    ]);
+    
+    expect(responses.map(response => response.statusCode)).toEqual([400, 400, 400]);
+    expect(responses.map(response => response.json().error)).toEqual(
+      Array(3).fill('slippage must be a number from 0 up to (not including) 1')
+    );
+  });
+  
+  // Test 57: An Idempotency-Key belongs to one request body, and to one request at a time
+  test('should refuse a reused Idempotency-Key with another body or while its request is in flight', async () => {
+    const body = { orderType: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.01 };
+    const idempotencyKey = uuidv4();
+    const inFlightKey = uuidv4();
+    await pool.query(
+      'INSERT INTO idempotency_keys (idempotency_key, request_hash, expires_at) VALUES ($1, $2, NOW() + INTERVAL \'1 hour\')',
+      [`${accountId}:${inFlightKey}`, hashRequestBody(body)]  // Claimed by a request that hasn't created its order yet
+    );
+    
+    const created = await submitOrder(body, idempotencyKey);
+    const otherBody = await submitOrder({ ...body, amountIn: 0.02 }, idempotencyKey);
+    const inFlight = await submitOrder(body, inFlightKey);
+    
+    expect(created.statusCode).toBe(201);
+    expect(otherBody.statusCode).toBe(409);
+    expect(otherBody.json().error).toBe('Idempotency-Key was already used with a different request body');
+    expect(inFlight.statusCode).toBe(409);
+    expect(inFlight.json().error).toBe('A request with this Idempotency-Key is still being processed');
+    const { rows } = await pool.query('SELECT idempotency_key FROM orders WHERE idempotency_key = ANY($1)', [[idempotencyKey, inFlightKey]]);
+    expect(rows).toEqual([{ idempotency_key: idempotencyKey }]);  // Only the first request created an order
+  });
+  
+  // Test 58: An order's history is listed in order, and every new stream replays it with the same eventIds
+  test('should list an order\'s events and replay them with their eventIds on reconnect', async () => {
+    const WebSocket = require('ws');  // Client side of the stream (installed with @fastify/websocket)
+    const order = await createTestOrder();
+    await recordOrderEvent(order.orderId, 'status', 'pending');
+    await recordOrderEvent(order.orderId, 'status', 'routing', undefined, 1);
+    const address = await app.listen({ port: 0, host: '127.0.0.1' });
+    
+    // Messages of one stream up to its Connected message
+    const connect = () => new Promise<any[]>((resolve, reject) => {
+      const socket = new WebSocket(`${address.replace('http', 'ws')}/api/orders/${order.orderId}/stream`, { headers: { authorization: `Bearer ${apiKey}` } });
+      const messages: any[] = [];
+      socket.on('message', (raw: Buffer) => {
+        const message = JSON.parse(raw.toString());
+        if (message.replayed) {
+          messages.push(message);
+        } else {
+          socket.close();
+          resolve(messages);
+        }
+      });
+      socket.on('error', reject);
+    });
+    
+    const first = await connect();
+    await recordOrderEvent(order.orderId, 'retry', 'routing', { retryInMs: 1000 }, 1);  // While the client was away
+    const second = await connect();
+    const listed = await app.inject({ method: 'GET', url: `/api/orders/${order.orderId}/events`, headers: { authorization: `Bearer ${apiKey}` } });
+    const missing = await app.inject({ method: 'GET', url: `/api/orders/test-order-${uuidv4()}/events`, headers: { authorization: `Bearer ${apiKey}` } });
+    
+    expect(listed.statusCode).toBe(200);
+    const events = listed.json().events;
+    expect(events.map((event: any) => [event.type, event.status])).toEqual([['status', 'pending'], ['status', 'routing'], ['retry', 'routing']]);
+    const eventIds = events.map((event: any) => event.eventId);
+    expect(first.map(message => message.eventId)).toEqual(eventIds.slice(0, 2));
+    expect(second.map(message => message.eventId)).toEqual(eventIds);  // The whole history again
+    expect(second[2]).toMatchObject({ event: 'retry', status: 'routing', data: { retryInMs: 1000 } });
+    const kept = new Map([...first, ...second].map(message => [message.eventId, message]));  // A client dropping repeated eventIds
+    expect([...kept.keys()]).toEqual(eventIds);
+    expect(missing.statusCode).toBe(404);
+  });
+  
+  // Test 59: Post-mortems can be filtered and paged, with counts over every match
+  test('should list failures by filter with counts by error type and venue', async () => {
+    const from = new Date(Date.now() - 1000).toISOString();  // Failures of this test only
+    const failure = { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: '1000000000', errorClass: 'Error', stack: null, attempt: 3, maxAttempts: 3, routeQuote: null };
+    const [split, single, routing] = [await createTestOrder(), await createTestOrder(), await createTestOrder({ orderType: 'limit', limitPrice: 1 })];
+    await saveOrderFailure({ ...failure, orderId: split.orderId, orderType: 'market', errorType: 'SLIPPAGE_EXCEEDED', errorMessage: 'Fill below minimum', failedStep: 'submitted', dexUsed: 'raydium+meteora' });
+    await saveOrderFailure({ ...failure, orderId: single.orderId, orderType: 'market', errorType: 'SLIPPAGE_EXCEEDED', errorMessage: 'Fill below minimum', failedStep: 'submitted', dexUsed: 'raydium' });
+    await saveOrderFailure({ ...failure, orderId: routing.orderId, orderType: 'limit', errorType: 'ROUTING_FAILED', errorMessage: 'No route', failedStep: 'routing', dexUsed: null });
+    const list = (query: string) => app.inject({ method: 'GET', url: `/api/failures?from=${encodeURIComponent(from)}&${query}`, headers: { authorization: `Bearer ${adminKey}` } });
+    
+    const firstPage = (await list('limit=2')).json();
+    const lastPage = (await list(`limit=2&before=${firstPage.nextBefore}`)).json();
+    const onMeteora = (await list('dex=meteora')).json();
+    const limitRouting = (await list('step=routing&orderType=limit')).json();
+    
+    expect(firstPage.failures.map((f: any) => f.orderId)).toEqual([routing.orderId, single.orderId]);  // Newest first
+    expect(lastPage.failures.map((f: any) => f.orderId)).toEqual([split.orderId]);
+    expect(lastPage.nextBefore).toBeNull();
+    expect(firstPage.summary).toEqual({
+      total: 3,  // Every match, not just the page
+      byErrorType: { SLIPPAGE_EXCEEDED: 2, ROUTING_FAILED: 1 },
+      byDex: { raydium: 2, meteora: 1, none: 1 }  // A split route counts for each of its venues
+    });
+    expect(onMeteora.failures.map((f: any) => f.orderId)).toEqual([split.orderId]);
+    expect(onMeteora.summary.byDex).toEqual({ raydium: 1, meteora: 1 });
+    expect(limitRouting.failures.map((f: any) => f.errorType)).toEqual(['ROUTING_FAILED']);
+    expect((await list('errorType=TIMEOUT')).statusCode).toBe(400);
+  });
+  
+  // Test 60: A confirmed order frees its worker slot; finalization is followed and announced afterwards
+  test('should finish the job once an order is confirmed and announce finalization later', async () => {
+    const config = dexRouter.simulation.config;
+    const saved = { ...config };
+    Object.assign(config, { failureRate: 0, dropRate: 0, executionDrift: 0 });  // A swap that always lands
+    const order = await createTestOrder();
+    await enqueueOrder(order);
+    
+    try {
+      await processOrder(await orderQueue.getJob(order.orderId) as Job);
+      
+      expect((await orderRepository.findById(order.orderId))?.status).toBe('confirmed');
+      expect(isFinalizing(order.orderId)).toBe(true);  // 32 slots to go, followed outside the job
+      while (isFinalizing(order.orderId)) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+      const finalized = (await getOrderEvents(order.orderId)).filter(event => event.data?.commitment === 'finalized');
+      expect(finalized).toHaveLength(1);
+      expect(finalized[0]).toMatchObject({ type: 'transaction', status: 'confirmed' });
+    } finally {
+      Object.assign(config, saved);
+    }
+  }, 30000);
+  
+  // Test 61: A failed attempt that isn't the last is retried, keeping the order and its funds
+  test('should leave an order to its retry when an attempt fails before the last one', async () => {
+    const order = await createTestOrder({ tokenOut: 'NOPOOL' });  // No venue to route on
+    await enqueueOrder(order);
+    const job = await orderQueue.getJob(order.orderId) as Job;
+    
+    await expect(processOrder(job)).rejects.toThrow();
+    
+    expect((await orderRepository.findById(order.orderId))?.status).toBe('routing');  // Where the next attempt picks up, not failed
+    expect(await reserved('SOL')).toBeGreaterThanOrEqual(BigInt(order.amountIn));  // Still held for the retry
+    const { rows } = await pool.query('SELECT * FROM order_failures WHERE order_id = $1', [order.orderId]);
+    expect(rows).toHaveLength(0);
+    const retries = (await getOrderEvents(order.orderId)).filter(event => event.type === 'retry');
+    expect(retries).toHaveLength(1);
+    expect(retries[0].data?.retryInMs).toBe(1000);  // First backoff step
+  });
+  
+  // Test 62: The last attempt fails the order, records a post-mortem and releases its funds
+  test('should fail an order on its last attempt with a post-mortem and release its funds', async () => {
+    const reservedBefore = await reserved('SOL');
+    const order = await createTestOrder({ tokenOut: 'NOPOOL' });
+    await enqueueOrder(order);
+    const job = await orderQueue.getJob(order.orderId) as Job;
+    job.attemptsMade = 2;  // Two attempts already failed
+    
+    await expect(processOrder(job)).rejects.toThrow();
+    
+    const failed = await orderRepository.findById(order.orderId);
+    expect(failed?.status).toBe('failed');
+    expect(failed?.error).toContain('Attempts: 3/3');
+    expect(await reserved('SOL')).toBe(reservedBefore);
+    const { rows } = await pool.query('SELECT * FROM order_failures WHERE order_id = $1', [order.orderId]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ error_type: 'ROUTING_FAILED', failed_step: 'routing', attempt: 3, max_attempts: 3 });
+  });
+  
+  // Test 63: Jobs that used up their attempts are parked in the dead-letter queue
+  test('should move a job that used up its attempts to the dead-letter queue', async () => {
+    const order = await createDeadLetter('Venue unavailable');
+    
+    const entry = await getDeadLetter(order.orderId);
+    expect(entry).toMatchObject({ error: 'Venue unavailable', attempts: 3 });
+    expect(entry?.order.orderId).toBe(order.orderId);
+    expect(await orderQueue.getJob(order.orderId)).toBeUndefined();  // Job ID free for a requeue
+  });
+  
+  // Test 64: Requeueing reserves the order's funds again and queues it under the same orderId
+  test('should requeue a dead-lettered order with its overrides and funds reserved again', async () => {
+    const order = await createDeadLetter('Venue unavailable');
+    const reservedBefore = await reserved('SOL');
+    
+    const response = await requeueOrder(order.orderId, { slippage: 0.02, dex: 'raydium' });
+    
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toMatchObject({ orderId: order.orderId, status: 'pending', slippage: 0.02, forcedDex: 'raydium' });
+    const requeued = await orderRepository.findById(order.orderId);
+    expect(requeued?.status).toBe('pending');
+    expect(requeued?.slippage).toBe(0.02);
+    expect((await orderQueue.getJob(order.orderId))?.data.forcedDex).toBe('raydium');
+    expect(await getDeadLetter(order.orderId)).toBeNull();
+    expect(await reserved('SOL')).toBeGreaterThanOrEqual(reservedBefore + BigInt(order.amountIn));
+    expect((await getOrderEvents(order.orderId)).map(event => event.type)).toContain('requeue');
+  });
+  
+  // Test 65: An order another request already took out of 'failed' is neither reserved for nor queued again
+  test('should refuse to requeue an order that is no longer failed', async () => {
+    const order = await createDeadLetter('Venue unavailable');
+    await orderRepository.update(order.orderId, { status: 'pending' });  // A concurrent requeue got there first
+    const reservedBefore = await reserved('SOL');
+    
+    const response = await requeueOrder(order.orderId);
+    
+    expect(response.statusCode).toBe(409);
+    expect(await reserved('SOL')).toBe(reservedBefore);  // Nothing reserved twice
+    expect(await orderQueue.getJob(order.orderId)).toBeUndefined();  // Nor queued twice
+    expect(await getDeadLetter(order.orderId)).not.toBeNull();
+  });
+  
+  // Test 66: A quote's zero slippage is kept, not replaced by the default
+  test('should execute a quote with the slippage it was quoted with, including 0', async () => {
+    const quote = await createQuote(accountId, 'SOL', 'USDC', 1_000_000_000n, 0);
+    
+    const response = await submitOrder({ quoteId: quote.quoteId });
+    
+    expect(response.statusCode).toBe(201);
+    expect((await orderRepository.findById(response.json().orderId))?.slippage).toBe(0);
+  });
+  
+  // Test 67: A retried request gets its original order back, even after the quote it executed is gone
+  test('should replay an idempotent request before validating it again', async () => {
+    const quote = await createQuote(accountId, 'SOL', 'USDC', 1_000_000_000n, 0.01);
+    const idempotencyKey = uuidv4();
+    const redis = new Redis({ host: process.env.REDIS_HOST || 'localhost', port: parseInt(process.env.REDIS_PORT || '6379') });
+    
+    try {
+      const created = await submitOrder({ quoteId: quote.quoteId }, idempotencyKey);
+      await redis.del(`quote:${quote.quoteId}`);  // Quote dropped from the store, as after it expired
+      const replayed = await submitOrder({ quoteId: quote.quoteId }, idempotencyKey);
+      const invalid = await submitOrder({ quoteId: quote.quoteId, slippage: 2 }, uuidv4());
+      
+      expect(created.statusCode).toBe(201);
+      expect(replayed.statusCode).toBe(201);  // Not 404 for the missing quote
+      expect(replayed.headers['idempotent-replayed']).toBe('true');
+      expect(replayed.json().orderId).toBe(created.json().orderId);
+      expect(invalid.statusCode).toBe(404);  // A new key is validated as usual
+    } finally {
+      await redis.quit();
+    }
+  });
+  
+  // Test 68: Requeue overrides are validated like submissions, a zero slippage included
+  test('should accept a zero slippage override on requeue and reject one of 1 or more', async () => {
+    const order = await createDeadLetter('Venue unavailable');
+    
+    const rejected = await requeueOrder(order.orderId, { slippage: 1 });
+    const accepted = await requeueOrder(order.orderId, { slippage: 0 });
+    
+    expect(rejected.statusCode).toBe(400);
+    expect(rejected.json().error).toBe('slippage must be a number from 0 up to (not including) 1');
+    expect(accepted.statusCode).toBe(202);
+    expect((await orderRepository.findById(order.orderId))?.slippage).toBe(0);
+  });
+  
+  // Test 69: Cancelling a waiting limit order closes it and frees its funds
+  test('should cancel a waiting limit order and release its funds', async () => {
+    const reservedBefore = await reserved('SOL');
+    const order = await createTestOrder({ orderType: 'limit', status: 'waiting', limitPrice: 1_000_000 });
+    
+    const response = await cancelOrder(order.orderId);
+    
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ orderId: order.orderId, status: 'cancelled' });
+    expect((await orderRepository.findById(order.orderId))?.status).toBe('cancelled');
+    expect(await reserved('SOL')).toBe(reservedBefore);
+  });
+  
+  // Test 70: Cancelling a queued order removes its job before it runs
+  test('should cancel a queued order and remove its job', async () => {
+    const reservedBefore = await reserved('SOL');
+    const order = await createTestOrder();
+    await enqueueOrder(order);
+    
+    const response = await cancelOrder(order.orderId);
+    
+    expect(response.statusCode).toBe(200);
+    const cancelled = await orderRepository.findById(order.orderId);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.error).toBe('Cancelled by user while queued');
+    expect(await orderQueue.getJob(order.orderId)).toBeUndefined();  // Never executed
+    expect(await reserved('SOL')).toBe(reservedBefore);
+  });
+  
+  // Test 71: Submitted and finished orders can't be cancelled
+  test('should refuse to cancel submitted and finished orders', async () => {
+    const submitted = await createTestOrder({ status: 'submitted' });
+    const confirmed = await createTestOrder({ status: 'confirmed' });
+    
+    const submittedResponse = await cancelOrder(submitted.orderId);
+    const confirmedResponse = await cancelOrder(confirmed.orderId);
+    
+    expect(submittedResponse.statusCode).toBe(409);  // Swaps are already on their way
+    expect(submittedResponse.json().status).toBe('submitted');
+    expect(confirmedResponse.statusCode).toBe(409);
+    expect(confirmedResponse.json().error).toBe('Order already confirmed');
+    expect((await orderRepository.findById(submitted.orderId))?.status).toBe('submitted');
+    expect((await orderRepository.findById(confirmed.orderId))?.status).toBe('confirmed');
+  });
+  
+  // Test 72: A running order stops at the worker's next checkpoint and frees its funds
+  test('should stop a running order at the cancel checkpoint and release its funds', async () => {
+    const reservedBefore = await reserved('SOL');
+    const order = await createTestOrder();
+    await enqueueOrder(order);
+    await requestCancellation(order.orderId);  // As DELETE does for orders already picked up
+    
+    await processOrder(await orderQueue.getJob(order.orderId) as Job);
+    
+    const cancelled = await orderRepository.findById(order.orderId);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.txHash).toBeUndefined();  // Nothing was sent
+    expect(await reserved('SOL')).toBe(reservedBefore);
+  });
+  
+  // Test 73: Over the per-minute limit a submission gets 429 with the limit headers; replays aren't counted
+  test('should rate limit submissions per account and not count idempotent replays', async () => {
+    const account = await createLedgerAccount();
+    const key = (await issueApiKey(account, 'user', 'Rate limit tests')).key;
+    await app.inject({ method: 'PUT', url: `/api/admin/accounts/${account}/limits`, headers: { authorization: `Bearer ${adminKey}` }, payload: { ordersPerMinute: 2 } });
+    const body = { orderType: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.01 };
+    const idempotencyKey = uuidv4();
+    
+    const created = await submitOrder(body, idempotencyKey, key);
+    const replays = [await submitOrder(body, idempotencyKey, key), await submitOrder(body, idempotencyKey, key)];
+    const invalid = await submitOrder({}, undefined, key);  // Counted although it's rejected
+    const limited = await submitOrder(body, undefined, key);
+    
+    expect(created.headers['x-ratelimit-remaining']).toBe('1');
+    expect(replays.map(replay => replay.headers['idempotent-replayed'])).toEqual(['true', 'true']);
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.headers['x-ratelimit-remaining']).toBe('0');
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers['x-ratelimit-limit']).toBe('2');
+    expect(limited.headers['x-ratelimit-remaining']).toBe('0');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect(Number(limited.headers['retry-after'])).toBeLessThanOrEqual(60);
+    expect(limited.json().retryAfterSeconds).toBe(Number(limited.headers['retry-after']));
+  });
+  
+  // Test 74: An order that would take the account or one of its tokens past the daily quota is refused whole
+  test('should reject orders over a daily notional quota without counting them', async () => {
+    const account = await createLedgerAccount();
+    const key = (await issueApiKey(account, 'user', 'Quota tests')).key;
+    const setLimits = (limits: object) =>
+      app.inject({ method: 'PUT', url: `/api/admin/accounts/${account}/limits`, headers: { authorization: `Bearer ${adminKey}` }, payload: limits });
+    const order = { orderType: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 };  // $100 at reference prices
+    
+    await setLimits({ dailyNotionalUsd: 150, tokenDailyNotionalUsd: { USDC: 1000 } });
+    const first = await submitOrder(order, undefined, key);
+    const overAccount = await submitOrder(order, undefined, key);
+    await setLimits({ dailyNotionalUsd: 1000, tokenDailyNotionalUsd: { USDC: 150 } });
+    const overToken = await submitOrder(order, undefined, key);
+    const usage = (await app.inject({ method: 'GET', url: `/api/admin/accounts/${account}/limits`, headers: { authorization: `Bearer ${adminKey}` } })).json().usage;
+    
+    expect(first.statusCode).toBe(201);
+    expect(overAccount.statusCode).toBe(429);
+    expect(overAccount.json()).toMatchObject({ quota: 'account', limitUsd: 150, usedUsd: 100 });
+    expect(Number(overAccount.headers['retry-after'])).toBeGreaterThan(0);  // Until midnight UTC
+    expect(overToken.statusCode).toBe(429);
+    expect(overToken.json()).toMatchObject({ quota: 'token', token: 'USDC', limitUsd: 150 });
+    expect(usage.dailyNotionalUsd).toBe(100);  // Only the order that was accepted
+  });
+  
+  // Test 75: Each account's orders queue behind its own earlier orders, not behind other accounts'
+  test('should queue each account\'s orders by its own position in line', async () => {
+    const busy = await createLedgerAccount();
+    const quiet = await createLedgerAccount();
+    const busyOrders = [await createTestOrder({ accountId: busy }), await createTestOrder({ accountId: busy }), await createTestOrder({ accountId: busy })];
+    const quietOrder = await createTestOrder({ accountId: quiet });
+    
+    for (const order of [...busyOrders, quietOrder]) {
+      await enqueueOrder(order);
+    }
+    
+    const priorities = async (orders: Order[]) => Promise.all(orders.map(async order => (await orderQueue.getJob(order.orderId))?.opts.priority));
+    expect(await priorities(busyOrders)).toEqual([1, 2, 3]);
+    expect(await priorities([quietOrder])).toEqual([1]);  // Runs ahead of the busy account's second and third
+  });
+  
+  // Test 76: Reserving is all or nothing, the fee allowance included
+  test('should reserve nothing for an order when any of its tokens is short', async () => {
+    const account = await createLedgerAccount();
+    const orderId = `test-order-${uuidv4()}`;
+    const sol = await balanceOf(account, 'SOL');
+    const usdc = await balanceOf(account, 'USDC');
+    const before = await balanceLedger.getBalances(account);
+    
+    const shortOfUsdc = await balanceLedger.reserve(account, orderId, [
+      { token: 'SOL', amount: 1_000_000_000n },
+      { token: 'USDC', amount: usdc.available + 1n }
+    ]);
+    const shortOfFees = await balanceLedger.reserve(account, orderId, [{ token: 'SOL', amount: sol.available }]);
+    
+    expect(shortOfUsdc).toEqual({ token: 'USDC', available: usdc.available.toString(), required: (usdc.available + 1n).toString() });
+    expect(shortOfFees).toEqual({ token: 'SOL', available: sol.available.toString(), required: (sol.available + feeAllowance).toString() });
+    expect(await balanceLedger.getBalances(account)).toEqual(before);  // Not even the SOL that was there
+    expect(await balanceLedger.listEntries({ accountId: account, orderId, limit: 10 })).toEqual([]);
+  });
+  
+  // Test 77: Network fees come out of the order's allowance first, the excess out of available SOL
+  test('should pay network fees from the order\'s allowance, then from available SOL', async () => {
+    const account = await createLedgerAccount();
+    const order = await createTestOrder({ accountId: account });
+    const before = await balanceOf(account, 'SOL');
+    
+    await balanceLedger.recordFill(order.orderId, testFill(0, feeAllowance - 1000n));
+    const afterFirst = await balanceOf(account, 'SOL');
+    await balanceLedger.recordFill(order.orderId, testFill(1, 3000n));
+    const afterSecond = await balanceOf(account, 'SOL');
+    
+    expect(afterFirst.available).toBe(before.available);  // Covered by the allowance
+    expect(afterFirst.reserved).toBe(before.reserved - 500_000_000n - (feeAllowance - 1000n));
+    expect(afterSecond.available).toBe(before.available - 2000n);  // 1000 lamports of allowance were left
+    expect(afterSecond.reserved).toBe(0n);
+  });
+  
+  // Test 78: A fee the account can't cover takes available SOL to zero, not below
+  test('should never take available SOL below zero to pay a network fee', async () => {
+    const account = await createLedgerAccount();
+    const sol = await balanceOf(account, 'SOL');
+    const order = await createTestOrder({ accountId: account, amountIn: (sol.available - feeAllowance - 1000n).toString() });  // 1000 lamports left over
+    
+    await balanceLedger.recordFill(order.orderId, testFill(0, feeAllowance + 5000n, { amountIn: order.amountIn }));
+    
+    expect(await balanceOf(account, 'SOL')).toEqual({ available: 0n, reserved: 0n });
+    const [fee] = await balanceLedger.listEntries({ accountId: account, orderId: order.orderId, token: 'SOL', limit: 1 });
+    expect(fee).toMatchObject({ type: 'fee', availableChange: '-1000', note: '4000 lamports of the network fee not covered' });
+  });
+  
+  // Test 79: A requeued order pays its fees from the allowance reserved with the requeue, not what the first one left
+  test('should pay fees of a requeued order from its new allowance', async () => {
+    const account = await createLedgerAccount();
+    const order = await createTestOrder({ accountId: account });
+    await balanceLedger.recordFill(order.orderId, testFill(0, feeAllowance - 1000n));  // 1000 lamports of the first allowance left
+    await balanceLedger.releaseOrder(order.orderId, 'release');  // Failed for good
+    await balanceLedger.reserve(account, order.orderId, [{ token: 'SOL', amount: 500_000_000n }]);  // Requeued: what is left to swap, plus a new allowance
+    const before = await balanceOf(account, 'SOL');
+    
+    await balanceLedger.recordFill(order.orderId, testFill(1, feeAllowance + 500n));
+    
+    const after = await balanceOf(account, 'SOL');
+    expect(after.available).toBe(before.available - 500n);  // Only the excess over the new allowance
+    expect(after.reserved).toBe(0n);
+  });
+  
+  // Test 80: Settling or releasing an order again moves nothing
+  test('should settle or release an order\'s funds only once', async () => {
+    const account = await createLedgerAccount();
+    const order = await createTestOrder({ accountId: account });
+    await balanceLedger.recordFill(order.orderId, testFill(0, 1000n, { amountIn: order.amountIn }));
+    const sol = await balanceOf(account, 'SOL');
+    const usdc = await balanceOf(account, 'USDC');
+    
+    await balanceLedger.releaseOrder(order.orderId, 'settle');
+    const settled = await balanceLedger.getBalances(account);
+    await balanceLedger.releaseOrder(order.orderId, 'settle');  // Confirmation handled twice
+    await balanceLedger.releaseOrder(order.orderId, 'release');  // A late failure path
+    
+    expect(await balanceLedger.getBalances(account)).toEqual(settled);
+    expect(await balanceOf(account, 'SOL')).toEqual({ available: sol.available + feeAllowance - 1000n, reserved: 0n });  // Unused allowance back
+    expect(await balanceOf(account, 'USDC')).toEqual({ available: usdc.available + 50_000_000n, reserved: 0n });
+    const entries = await balanceLedger.listEntries({ accountId: account, orderId: order.orderId, limit: 20 });
+    expect(entries.filter(entry => entry.type === 'settle')).toHaveLength(2);  // SOL and USDC, once each
+    expect(entries.filter(entry => entry.type === 'release')).toHaveLength(0);
+  });
+});
+
+// Close the shared pool once every suite that uses it is done
+afterAll(async () => {
+  await pool.end();
 });
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -263,11 +1747,12 @@ console.log(`
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 ✅ Test Suite Summary
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-📊 DEX Router Tests:        5 tests
-💾 Database Tests:          5 tests  
-🔌 WebSocket Tests:         3 tests
-✅ Validation Tests:        2 tests
+📊 DEX Router Tests:        17 tests
+💾 Database Tests:          9 tests  
+🔌 WebSocket Tests:         7 tests
+✅ Validation Tests:        12 tests
+⚙️ Execution Tests:         35 tests
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-📋 Total: 15 comprehensive tests covering all core requirements
+📋 Total: 80 comprehensive tests covering all core requirements
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 `);
\ No newline at end of file